@@ -0,0 +1,13 @@
+/**
+ * Shared test teardown
+ * Stops the timers services start in the background (table cleanups and
+ * scheduled jobs) so that no test leaves one pending when the run ends.
+ */
+
+import { cancelTableCleanups } from './src/services/reservationService';
+import { stopScheduler } from './src/utils/scheduler';
+
+afterEach(() => {
+  cancelTableCleanups();
+  stopScheduler();
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for Storage Adapters
+ * Task #4: Time and Data Management
+ *
+ * Verifies that data written through the stores survives a restart when a
+ * file-backed adapter is attached.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStorageAdapter, createFileStorage, createInMemoryStorage } from './storage';
+import {
+  attachStorage,
+  initializeSampleData,
+  reservationStore,
+  tableStore
+} from './store';
+import { ReservationStatus } from '../types';
+
+interface Item {
+  id: string;
+  value: number;
+}
+
+describe('Storage Adapters', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tabletop-storage-'));
+  });
+
+  afterEach(() => {
+    attachStorage(createInMemoryStorage());
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('Task #4: Data Persistence - File Adapter', () => {
+    it('should replay puts and removes after a restart', () => {
+      const adapter = new FileStorageAdapter<Item>(dataDir, 'items');
+      adapter.load();
+      adapter.put({ id: 'a', value: 1 });
+      adapter.put({ id: 'b', value: 2 });
+      adapter.put({ id: 'a', value: 3 });
+      adapter.remove('b');
+      adapter.close();
+
+      const reopened = new FileStorageAdapter<Item>(dataDir, 'items');
+      expect(reopened.load()).toEqual([{ id: 'a', value: 3 }]);
+      reopened.close();
+    });
+
+    it('should compact the log into a snapshot', () => {
+      const adapter = new FileStorageAdapter<Item>(dataDir, 'items', { compactEvery: 3 });
+      adapter.load();
+      for (let i = 0; i < 5; i++) {
+        adapter.put({ id: `item-${i}`, value: i });
+      }
+      adapter.close();
+
+      expect(fs.existsSync(path.join(dataDir, 'items.snapshot.json'))).toBe(true);
+      const logLines = fs.readFileSync(path.join(dataDir, 'items.log'), 'utf8')
+        .split('\n')
+        .filter(l => l.length > 0);
+      expect(logLines.length).toBe(2);
+
+      const reopened = new FileStorageAdapter<Item>(dataDir, 'items');
+      expect(reopened.load().length).toBe(5);
+      reopened.close();
+    });
+
+    it('should ignore a torn final log line', () => {
+      fs.writeFileSync(
+        path.join(dataDir, 'items.log'),
+        JSON.stringify({ op: 'put', item: { id: 'a', value: 1 } }) + '\n{"op":"put","ite'
+      );
+
+      const adapter = new FileStorageAdapter<Item>(dataDir, 'items');
+      expect(adapter.load()).toEqual([{ id: 'a', value: 1 }]);
+      adapter.close();
+    });
+
+    it('should reject corruption in the middle of the log', () => {
+      fs.writeFileSync(
+        path.join(dataDir, 'items.log'),
+        'not-json\n' + JSON.stringify({ op: 'put', item: { id: 'a', value: 1 } }) + '\n'
+      );
+
+      const adapter = new FileStorageAdapter<Item>(dataDir, 'items');
+      expect(() => adapter.load()).toThrow('Corrupt storage log');
+    });
+  });
+
+  describe('Task #4: Data Persistence - Stores', () => {
+    it('should keep reservations and their versions across a restart', () => {
+      attachStorage(createFileStorage(dataDir));
+      initializeSampleData();
+
+      const table = tableStore.findByNumber(1)!;
+      const reservation = reservationStore.create({
+        customerId: 'customer-1',
+        customerName: 'Persisted Guest',
+        partySize: 2,
+        tableId: table.id,
+        startTime: new Date(Date.now() + 3600000).toISOString(),
+        endTime: new Date(Date.now() + 9000000).toISOString(),
+        status: ReservationStatus.CONFIRMED,
+        isWalkIn: false,
+        timezone: 'UTC',
+        version: 1
+      });
+      reservationStore.updateWithVersion(reservation.id, { status: ReservationStatus.SEATED }, 1);
+
+      // Simulate a restart by re-attaching fresh adapters to the same directory
+      attachStorage(createFileStorage(dataDir));
+
+      const reloaded = reservationStore.getById(reservation.id);
+      expect(reloaded).toBeDefined();
+      expect(reloaded!.status).toBe(ReservationStatus.SEATED);
+      expect(reloaded!.version).toBe(2);
+      expect(tableStore.count()).toBe(10);
+
+      // Optimistic locking keeps working against the reloaded version
+      expect(reservationStore.updateWithVersion(reservation.id, { notes: 'stale' }, 1)).toBeNull();
+      expect(reservationStore.updateWithVersion(reservation.id, { notes: 'fresh' }, 2)!.version).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Storage Adapters
+ * Task #4: Time and Data Management
+ *
+ * Pluggable persistence backends for the data stores:
+ * - In-memory adapter (default, nothing survives a restart)
+ * - File adapter using an append-only log plus periodic snapshots
+ *
+ * Adapters are synchronous so the stores keep their synchronous API.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { UUID } from '../types';
+
+/** Persistence backend used by a single store collection */
+export interface StorageAdapter<T extends { id: UUID }> {
+  /** Loads every persisted item (called once when the store is attached) */
+  load(): T[];
+  /** Persists a created or updated item */
+  put(item: T): void;
+  /** Removes an item */
+  remove(id: UUID): void;
+  /** Removes every item */
+  clear(): void;
+  /** Releases any open resources */
+  close(): void;
+}
+
+/** Creates the adapter for a named collection (e.g. 'reservations') */
+export type StorageAdapterFactory = <T extends { id: UUID }>(collection: string) => StorageAdapter<T>;
+
+/**
+ * In-memory adapter
+ * The store already keeps its working set in memory, so nothing needs to be written.
+ */
+export class InMemoryStorageAdapter<T extends { id: UUID }> implements StorageAdapter<T> {
+  load(): T[] {
+    return [];
+  }
+
+  put(): void {}
+
+  remove(): void {}
+
+  clear(): void {}
+
+  close(): void {}
+}
+
+/** Single entry in the append-only log */
+type LogEntry<T> =
+  | { op: 'put'; item: T }
+  | { op: 'remove'; id: UUID }
+  | { op: 'clear' };
+
+/** File adapter options */
+export interface FileStorageOptions {
+  /** Number of log entries after which a snapshot is written and the log truncated */
+  compactEvery?: number;
+  /** Flush every write to disk before returning (slower, survives power loss) */
+  fsync?: boolean;
+}
+
+const DEFAULT_COMPACT_EVERY = 1000;
+
+/**
+ * File-backed adapter
+ * Every write is appended to `<collection>.log` as one JSON line. Once the log
+ * grows past `compactEvery` entries the full state is written to
+ * `<collection>.snapshot.json` (via an atomic rename) and the log is truncated.
+ * Loading reads the snapshot and replays the log on top of it. Log entries
+ * carry whole records, so replaying entries already in the snapshot is harmless.
+ */
+export class FileStorageAdapter<T extends { id: UUID }> implements StorageAdapter<T> {
+  private readonly logPath: string;
+  private readonly snapshotPath: string;
+  private readonly compactEvery: number;
+  private readonly fsync: boolean;
+  private state: Map<UUID, T> = new Map();
+  private logEntries = 0;
+  private fd: number | undefined;
+
+  constructor(dataDir: string, collection: string, options: FileStorageOptions = {}) {
+    fs.mkdirSync(dataDir, { recursive: true });
+    this.logPath = path.join(dataDir, `${collection}.log`);
+    this.snapshotPath = path.join(dataDir, `${collection}.snapshot.json`);
+    this.compactEvery = options.compactEvery ?? DEFAULT_COMPACT_EVERY;
+    this.fsync = options.fsync ?? false;
+  }
+
+  load(): T[] {
+    this.state = new Map();
+    this.logEntries = 0;
+
+    if (fs.existsSync(this.snapshotPath)) {
+      const snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8')) as { items: T[] };
+      for (const item of snapshot.items) {
+        this.state.set(item.id, item);
+      }
+    }
+
+    if (fs.existsSync(this.logPath)) {
+      const lines = fs.readFileSync(this.logPath, 'utf8').split('\n');
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.trim().length === 0) continue;
+
+        let entry: LogEntry<T>;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // A torn final line means the process died mid-write; anything else is corruption
+          if (lines.slice(i + 1).every(l => l.trim().length === 0)) break;
+          throw new Error(`Corrupt storage log ${this.logPath} at line ${i + 1}`);
+        }
+
+        this.apply(entry);
+        this.logEntries++;
+      }
+    }
+
+    // Rewrite state so a torn tail never sits in front of new entries
+    this.compact();
+
+    return Array.from(this.state.values());
+  }
+
+  put(item: T): void {
+    this.append({ op: 'put', item });
+  }
+
+  remove(id: UUID): void {
+    this.append({ op: 'remove', id });
+  }
+
+  clear(): void {
+    this.append({ op: 'clear' });
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private apply(entry: LogEntry<T>): void {
+    switch (entry.op) {
+      case 'put':
+        this.state.set(entry.item.id, entry.item);
+        break;
+      case 'remove':
+        this.state.delete(entry.id);
+        break;
+      case 'clear':
+        this.state.clear();
+        break;
+    }
+  }
+
+  private append(entry: LogEntry<T>): void {
+    if (this.fd === undefined) {
+      this.fd = fs.openSync(this.logPath, 'a');
+    }
+
+    fs.writeSync(this.fd, JSON.stringify(entry) + '\n');
+    if (this.fsync) {
+      fs.fsyncSync(this.fd);
+    }
+
+    this.apply(entry);
+    this.logEntries++;
+
+    if (this.logEntries >= this.compactEvery) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Writes a snapshot of the current state and truncates the log
+   */
+  private compact(): void {
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ items: Array.from(this.state.values()) }));
+    if (this.fsync) {
+      const tmpFd = fs.openSync(tmpPath, 'r');
+      fs.fsyncSync(tmpFd);
+      fs.closeSync(tmpFd);
+    }
+    fs.renameSync(tmpPath, this.snapshotPath);
+
+    this.close();
+    fs.writeFileSync(this.logPath, '');
+    this.logEntries = 0;
+  }
+}
+
+/**
+ * Creates a factory producing file adapters that share one data directory
+ */
+export function createFileStorage(dataDir: string, options: FileStorageOptions = {}): StorageAdapterFactory {
+  return <T extends { id: UUID }>(collection: string) =>
+    new FileStorageAdapter<T>(dataDir, collection, options);
+}
+
+/**
+ * Creates a factory producing in-memory adapters
+ */
+export function createInMemoryStorage(): StorageAdapterFactory {
+  return <T extends { id: UUID }>() => new InMemoryStorageAdapter<T>();
+}
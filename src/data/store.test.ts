@@ -0,0 +1,151 @@
+/**
+ * Tests for the Reservation Store interval indexes
+ * Task #4: Time and Data Management
+ *
+ * Time-range lookups go through indexes sorted by start time; they must give
+ * the same answers as a full scan and, on a large book, read only the
+ * reservations near the requested time.
+ */
+
+import {
+  initializeSampleData,
+  resetStores,
+  reservationStore,
+  tableStore
+} from './store';
+import { getAvailableSlots } from '../services/availabilityService';
+import { findAvailableTables } from '../services/reservationService';
+import { updateRestaurantSettings } from '../services/settingsService';
+import { Reservation, ReservationStatus, WeekdayName } from '../types';
+import { addDaysToDateString } from '../utils/timezone';
+
+const WEEKDAYS: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+/** First day of the generated book, well in the future */
+const FIRST_DAY = '2027-01-01';
+
+/**
+ * Books a table for a time range
+ */
+function book(tableId: string, startTime: string, endTime: string): Reservation {
+  return reservationStore.create({
+    customerId: 'c1',
+    customerName: 'Guest',
+    partySize: 2,
+    tableId,
+    startTime,
+    endTime,
+    status: ReservationStatus.CONFIRMED,
+    isWalkIn: false,
+    timezone: 'UTC',
+    version: 1
+  });
+}
+
+/** Reservations overlapping a range, found the slow way */
+function scanTimeRange(from: Date, to: Date): string[] {
+  return reservationStore.getAll()
+    .filter(r => new Date(r.startTime) < to && new Date(r.endTime) > from)
+    .map(r => r.id)
+    .sort();
+}
+
+describe('Reservation Store', () => {
+  beforeEach(() => {
+    resetStores();
+    initializeSampleData();
+    updateRestaurantSettings({
+      timezone: 'UTC',
+      weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '11:00', close: '23:00' }]]))
+    });
+  });
+
+  describe('Interval index', () => {
+    it('should match a full scan through creates, updates and deletes', () => {
+      const tables = tableStore.getAll();
+      const created = Array.from({ length: 60 }, (_, i) => {
+        const start = new Date(Date.UTC(2027, 0, 1, 12) + i * 37 * 60000);
+        const end = new Date(start.getTime() + 90 * 60000);
+        return book(tables[i % tables.length].id, start.toISOString(), end.toISOString());
+      });
+      created.filter((_, i) => i % 3 === 0).forEach((r, i) => reservationStore.update(r.id, {
+        startTime: new Date(new Date(r.startTime).getTime() + i * 11 * 60000).toISOString(),
+        tableId: tables[(i + 4) % tables.length].id
+      }));
+      created.filter((_, i) => i % 7 === 0).forEach(r => reservationStore.delete(r.id));
+
+      for (let hour = 10; hour < 36; hour++) {
+        const from = new Date(Date.UTC(2027, 0, 1, hour));
+        const to = new Date(from.getTime() + 45 * 60000);
+        expect(reservationStore.findByTimeRange(from, to).map(r => r.id).sort()).toEqual(scanTimeRange(from, to));
+      }
+
+      for (const table of tables) {
+        const onTable = reservationStore.getAll().filter(r => r.tableId === table.id).map(r => r.id).sort();
+        expect(reservationStore.findByTableId(table.id).map(r => r.id).sort()).toEqual(onTable);
+      }
+    });
+
+    it('should stop blocking a table once the reservation moves away or ends', () => {
+      const [first, second] = tableStore.getAll();
+      const from = new Date('2027-01-01T12:00:00.000Z');
+      const to = new Date('2027-01-01T13:30:00.000Z');
+      const reservation = book(first.id, from.toISOString(), to.toISOString());
+
+      expect(reservationStore.findBlockingByTable(first.id, from, to)).toHaveLength(1);
+
+      reservationStore.update(reservation.id, { tableId: second.id });
+      expect(reservationStore.findBlockingByTable(first.id, from, to)).toHaveLength(0);
+      expect(reservationStore.findBlockingByTable(second.id, from, to)).toHaveLength(1);
+
+      reservationStore.update(reservation.id, { status: ReservationStatus.COMPLETED });
+      expect(reservationStore.findBlockingByTable(second.id, from, to)).toHaveLength(0);
+    });
+  });
+
+  describe('Large book', () => {
+    /** Days of bookings generated; one lunch per table per day */
+    const DAYS = 2500;
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should answer availability from a few index lookups with tens of thousands of reservations', () => {
+      const tables = tableStore.getAll();
+      for (let day = 0; day < DAYS; day++) {
+        const date = addDaysToDateString(FIRST_DAY, day);
+        for (const table of tables) {
+          book(table.id, `${date}T12:00:00.000Z`, `${date}T13:30:00.000Z`);
+        }
+      }
+      expect(reservationStore.count()).toBe(DAYS * tables.length);
+
+      const date = addDaysToDateString(FIRST_DAY, DAYS / 2);
+      const rangeQuery = jest.spyOn(reservationStore, 'findByTimeRange');
+      const startQuery = jest.spyOn(reservationStore, 'findStartingBetween');
+      const tableQuery = jest.spyOn(reservationStore, 'findBlockingByTable');
+
+      const slots = getAvailableSlots(date, 2).data!;
+
+      // A single range query, reading the lunches of the day and its neighbours only
+      expect(rangeQuery).toHaveBeenCalledTimes(1);
+      expect(rangeQuery.mock.results[0].value).toHaveLength(3 * tables.length);
+      expect(startQuery).not.toHaveBeenCalled();
+      expect(tableQuery).not.toHaveBeenCalled();
+      expect(slots.some(s => s.startTime < `${date}T13:30:00.000Z` && s.endTime > `${date}T12:00:00.000Z`))
+        .toBe(false);
+
+      const free = findAvailableTables(`${date}T19:00:00.000Z`, `${date}T20:30:00.000Z`, 2);
+
+      // One per-table lookup for each table that fits, none of which finds a booking
+      const suitable = tables.filter(t => t.capacity >= 2);
+      expect(tableQuery).toHaveBeenCalledTimes(suitable.length);
+      expect(tableQuery.mock.results.every(r => r.value.length === 0)).toBe(true);
+      expect(free).toHaveLength(suitable.length);
+      expect(slots.filter(s => s.startTime === `${date}T19:00:00.000Z`)).toHaveLength(free.length);
+    });
+  });
+});
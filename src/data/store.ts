@@ -1,39 +1,77 @@
 /**
- * In-Memory Data Store
+ * Data Store
  * Task #4: Time and Data Management
  * 
  * Provides data persistence with:
  * - Type-safe CRUD operations
  * - Optimistic locking via version field
  * - Efficient lookups and filtering
+ * - Pluggable storage adapters (in-memory by default, file-backed for durability)
+ * - Fencing-token checks that reject writes from holders of expired locks
+ * - Append-only audit history of every reservation change
+ * - Interval indexes (overall and per table) for reservation time-range lookups
  */
 
+import { isDeepStrictEqual } from 'util';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   UUID, 
   Customer, 
   Table, 
   Waiter, 
+  Shift,
+  Block,
   Reservation, 
   TableStatus, 
   WaiterStatus,
   ReservationStatus,
-  ISODateTime
+  WaitlistEntry,
+  WaitlistStatus,
+  RestaurantSettings,
+  NoShowRecord,
+  ReservationEvent,
+  ReservationEventType,
+  ReservationFieldChange,
+  StaffUser,
+  StaffSession,
+  IdempotencyRecord,
+  ServicePeriod,
+  WeekdayName,
+  ISODateTime,
+  WriteOptions
 } from '../types';
 import { nowUTC } from '../utils/timezone';
+import { getLockProvider } from '../utils/locking';
+import { StorageAdapter, StorageAdapterFactory, InMemoryStorageAdapter } from './storage';
+
+/** Error raised for a write made under a lock that has since passed to a newer holder */
+export const STALE_FENCING_TOKEN = 'STALE_FENCING_TOKEN';
+
+/** Actor recorded for changes made by the system itself (e.g. background jobs) */
+export const SYSTEM_ACTOR = 'system';
 
 /** Generic store interface */
 interface Store<T extends { id: UUID }> {
   getById(id: UUID): T | undefined;
   getAll(): T[];
-  create(item: Omit<T, 'id' | 'createdAt' | 'updatedAt'>): T;
-  update(id: UUID, updates: Partial<T>): T | undefined;
-  delete(id: UUID): boolean;
+  create(item: Omit<T, 'id' | 'createdAt' | 'updatedAt'>, options?: WriteOptions): T;
+  update(id: UUID, updates: Partial<T>, options?: WriteOptions): T | undefined;
+  delete(id: UUID, options?: WriteOptions): boolean;
 }
 
 /** Base data store with common functionality */
 abstract class BaseStore<T extends { id: UUID; createdAt: ISODateTime; updatedAt: ISODateTime }> implements Store<T> {
   protected items: Map<UUID, T> = new Map();
+  protected storage: StorageAdapter<T> = new InMemoryStorageAdapter<T>();
+
+  /**
+   * Switches the store to a storage adapter and loads its persisted items
+   */
+  attach(storage: StorageAdapter<T>): void {
+    this.storage.close();
+    this.storage = storage;
+    this.items = new Map(storage.load().map(item => [item.id, item]));
+  }
 
   getById(id: UUID): T | undefined {
     return this.items.get(id);
@@ -45,18 +83,34 @@ abstract class BaseStore<T extends { id: UUID; createdAt: ISODateTime; updatedAt
 
   protected abstract createItem(data: Omit<T, 'id' | 'createdAt' | 'updatedAt'>): T;
 
-  create(data: Omit<T, 'id' | 'createdAt' | 'updatedAt'>): T {
+  /**
+   * Rejects a write whose fencing token is older than one already written
+   * under the same lock (the writer's lock expired and was taken over)
+   * The newest tokens live with the lock table, so every process sharing it
+   * checks against the same values.
+   */
+  protected checkFencing(options?: WriteOptions): void {
+    if (!getLockProvider().admitFencing(options?.fencing ?? [])) {
+      throw new Error(STALE_FENCING_TOKEN);
+    }
+  }
+
+  create(data: Omit<T, 'id' | 'createdAt' | 'updatedAt'>, options?: WriteOptions): T {
+    this.checkFencing(options);
     const item = this.createItem(data);
+    this.storage.put(item);
     this.items.set(item.id, item);
     return item;
   }
 
-  update(id: UUID, updates: Partial<T>): T | undefined {
+  update(id: UUID, updates: Partial<T>, options?: WriteOptions): T | undefined {
     const existing = this.items.get(id);
     if (!existing) {
       return undefined;
     }
 
+    this.checkFencing(options);
+
     const updated = {
       ...existing,
       ...updates,
@@ -65,15 +119,24 @@ abstract class BaseStore<T extends { id: UUID; createdAt: ISODateTime; updatedAt
       updatedAt: nowUTC()
     } as T;
 
+    this.storage.put(updated);
     this.items.set(id, updated);
     return updated;
   }
 
-  delete(id: UUID): boolean {
+  delete(id: UUID, options?: WriteOptions): boolean {
+    if (!this.items.has(id)) {
+      return false;
+    }
+
+    this.checkFencing(options);
+
+    this.storage.remove(id);
     return this.items.delete(id);
   }
 
   clear(): void {
+    this.storage.clear();
     this.items.clear();
   }
 
@@ -109,6 +172,14 @@ class CustomerStore extends BaseStore<Customer> {
   }
 }
 
+/**
+ * Checks whether a table on its own suits a party: big enough, and the party
+ * meets the table's minimum
+ */
+export function seatsParty(table: Table, partySize: number): boolean {
+  return table.capacity >= partySize && partySize >= (table.minCapacity ?? 1);
+}
+
 /** Table data store */
 class TableStore extends BaseStore<Table> {
   protected createItem(data: Omit<Table, 'id' | 'createdAt' | 'updatedAt'>): Table {
@@ -129,14 +200,14 @@ class TableStore extends BaseStore<Table> {
     return this.findByStatus(TableStatus.AVAILABLE);
   }
 
-  findByCapacity(minCapacity: number): Table[] {
-    return this.getAll().filter(t => t.capacity >= minCapacity);
+  findByCapacity(partySize: number): Table[] {
+    return this.getAll().filter(t => seatsParty(t, partySize));
   }
 
   findAvailableForPartySize(partySize: number): Table[] {
     return this.getAll().filter(t => 
       t.status === TableStatus.AVAILABLE && 
-      t.capacity >= partySize
+      seatsParty(t, partySize)
     );
   }
 
@@ -165,21 +236,6 @@ class WaiterStore extends BaseStore<Waiter> {
     return this.findByStatus(WaiterStatus.AVAILABLE);
   }
 
-  findWithLeastTables(): Waiter | undefined {
-    const available = this.findAvailable();
-    if (available.length === 0) {
-      // If no available waiters, try busy ones
-      const busy = this.findByStatus(WaiterStatus.BUSY);
-      if (busy.length === 0) return undefined;
-      return busy.reduce((min, w) => 
-        w.assignedTables.length < min.assignedTables.length ? w : min
-      );
-    }
-    return available.reduce((min, w) => 
-      w.assignedTables.length < min.assignedTables.length ? w : min
-    );
-  }
-
   assignTable(waiterId: UUID, tableId: UUID): boolean {
     const waiter = this.getById(waiterId);
     if (!waiter) return false;
@@ -187,7 +243,7 @@ class WaiterStore extends BaseStore<Waiter> {
     if (!waiter.assignedTables.includes(tableId)) {
       this.update(waiterId, {
         assignedTables: [...waiter.assignedTables, tableId],
-        status: WaiterStatus.BUSY
+        status: isOffFloor(waiter) ? waiter.status : WaiterStatus.BUSY
       });
     }
     return true;
@@ -200,14 +256,266 @@ class WaiterStore extends BaseStore<Waiter> {
     const newTables = waiter.assignedTables.filter(t => t !== tableId);
     this.update(waiterId, {
       assignedTables: newTables,
-      status: newTables.length === 0 ? WaiterStatus.AVAILABLE : WaiterStatus.BUSY
+      status: isOffFloor(waiter) ? waiter.status
+        : newTables.length === 0 ? WaiterStatus.AVAILABLE : WaiterStatus.BUSY
     });
     return true;
   }
 }
 
-/** Reservation data store with optimistic locking */
+/**
+ * Checks whether a waiter is on a break or off duty (set by the shift schedule,
+ * not by table assignments)
+ */
+function isOffFloor(waiter: Waiter): boolean {
+  return waiter.status === WaiterStatus.ON_BREAK || waiter.status === WaiterStatus.OFF_DUTY;
+}
+
+/** Shift schedule store */
+class ShiftStore extends BaseStore<Shift> {
+  protected createItem(data: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>): Shift {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Gets a waiter's shifts, earliest first
+   */
+  findByWaiterId(waiterId: UUID): Shift[] {
+    return this.getAll()
+      .filter(s => s.waiterId === waiterId)
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  }
+
+  /**
+   * Gets the shifts overlapping a time range
+   */
+  findOverlapping(from: Date, to: Date): Shift[] {
+    return this.getAll().filter(s => new Date(s.startTime) < to && new Date(s.endTime) > from);
+  }
+
+  /**
+   * Gets the shifts under way at a moment
+   */
+  findCovering(at: Date): Shift[] {
+    return this.getAll().filter(s => new Date(s.startTime) <= at && new Date(s.endTime) > at);
+  }
+}
+
+/**
+ * Checks whether a shift is on a break at a moment
+ */
+export function isOnBreak(shift: Shift, at: Date): boolean {
+  return shift.breaks.some(b => new Date(b.startTime) <= at && new Date(b.endTime) > at);
+}
+
+class BlockStore extends BaseStore<Block> {
+  protected createItem(data: Omit<Block, 'id' | 'createdAt' | 'updatedAt'>): Block {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Gets the blocks overlapping a time range, earliest first
+   */
+  findOverlapping(from: Date, to: Date): Block[] {
+    return this.getAll()
+      .filter(b => new Date(b.startTime) < to && new Date(b.endTime) > from)
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  }
+
+  /**
+   * Gets the blocks keeping a table from taking parties during a time range
+   */
+  findBlockingTable(table: Pick<Table, 'id' | 'section'>, from: Date, to: Date): Block[] {
+    return this.findOverlapping(from, to).filter(b => blockCoversTable(b, table));
+  }
+}
+
+/**
+ * Checks whether a block applies to a table (whole restaurant, its section or the table itself)
+ */
+export function blockCoversTable(block: Block, table: Pick<Table, 'id' | 'section'>): boolean {
+  if (block.tableIds && block.tableIds.length > 0) {
+    return block.tableIds.includes(table.id);
+  }
+  return block.section === undefined || block.section === table.section;
+}
+
+/** Reservation statuses that hold a table on the timeline */
+const BLOCKING_STATUSES = [
+  ReservationStatus.PENDING,
+  ReservationStatus.CONFIRMED,
+  ReservationStatus.SEATED
+];
+
+/**
+ * Checks whether a reservation is a timed hold that ran out without being confirmed
+ * Expired holds stop blocking their tables even before they are swept
+ */
+export function isHoldExpired(reservation: Reservation, now: Date = new Date()): boolean {
+  return reservation.status === ReservationStatus.PENDING &&
+    reservation.holdExpiresAt !== undefined &&
+    new Date(reservation.holdExpiresAt) <= now;
+}
+
+/**
+ * Checks whether a reservation holds its tables on the timeline
+ */
+export function isBlockingReservation(reservation: Reservation, now: Date = new Date()): boolean {
+  return BLOCKING_STATUSES.includes(reservation.status) && !isHoldExpired(reservation, now);
+}
+
+/**
+ * Gets every table a reservation occupies (several for a combined seating)
+ */
+export function getReservationTableIds(reservation: Reservation): UUID[] {
+  if (reservation.combinedTableIds && reservation.combinedTableIds.length > 0) {
+    return reservation.combinedTableIds;
+  }
+  return reservation.tableId ? [reservation.tableId] : [];
+}
+
+/** Bookkeeping fields left out of reservation history */
+const UNAUDITED_FIELDS: (keyof Reservation)[] = [
+  'id', 'createdAt', 'updatedAt', 'version', 'createdBy', 'updatedBy'
+];
+
+/**
+ * Lists the fields that differ between two versions of a reservation
+ * (every set field for a new reservation)
+ */
+function diffReservations(previous: Reservation | undefined, current: Reservation): ReservationFieldChange[] {
+  const fields = new Set([...Object.keys(previous ?? {}), ...Object.keys(current)]) as Set<keyof Reservation>;
+
+  return Array.from(fields)
+    .filter(field => !UNAUDITED_FIELDS.includes(field) && !isDeepStrictEqual(previous?.[field], current[field]))
+    .map(field => ({ field, previous: previous?.[field], current: current[field] }));
+}
+
+/**
+ * Classifies a change by its most significant field
+ */
+function classifyChange(previous: Reservation | undefined, changes: ReservationFieldChange[]): ReservationEventType {
+  if (!previous) {
+    return ReservationEventType.CREATED;
+  }
+
+  const statusChange = changes.find(c => c.field === 'status');
+  if (statusChange) {
+    return statusChange.current === ReservationStatus.CANCELLED
+      ? ReservationEventType.CANCELLED
+      : ReservationEventType.STATUS_CHANGED;
+  }
+
+  if (changes.some(c => c.field === 'tableId' || c.field === 'combinedTableIds')) {
+    return ReservationEventType.TABLE_CHANGED;
+  }
+
+  return ReservationEventType.UPDATED;
+}
+
+/** A reservation with its times parsed to epoch milliseconds */
+interface IndexedReservation {
+  start: number;
+  end: number;
+  reservation: Reservation;
+}
+
+/**
+ * Reservations sorted by start time, with their times parsed once
+ * Time-range lookups binary-search for the first candidate instead of
+ * scanning (and re-parsing) every reservation.
+ */
+class IntervalIndex {
+  private entries: IndexedReservation[] = [];
+  /** Longest reservation indexed so far; bounds how early an overlapping one can start */
+  private maxLengthMs = 0;
+
+  /**
+   * Gets the position of the first entry starting at or after a time
+   */
+  private lowerBound(time: number): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.entries[mid].start < time) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  add(reservation: Reservation): void {
+    const start = Date.parse(reservation.startTime);
+    const end = Date.parse(reservation.endTime);
+    if (isNaN(start) || isNaN(end)) {
+      return;
+    }
+
+    this.entries.splice(this.lowerBound(start + 1), 0, { start, end, reservation });
+    this.maxLengthMs = Math.max(this.maxLengthMs, end - start);
+  }
+
+  remove(reservation: Reservation): void {
+    const start = Date.parse(reservation.startTime);
+    for (let i = this.lowerBound(start); i < this.entries.length && this.entries[i].start === start; i++) {
+      if (this.entries[i].reservation.id === reservation.id) {
+        this.entries.splice(i, 1);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Gets the reservations overlapping a time range, earliest first
+   */
+  findOverlapping(from: number, to: number): Reservation[] {
+    const found: Reservation[] = [];
+    for (let i = this.lowerBound(from - this.maxLengthMs); i < this.entries.length; i++) {
+      const entry = this.entries[i];
+      if (entry.start >= to) {
+        break;
+      }
+      if (entry.end > from) {
+        found.push(entry.reservation);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Gets the reservations starting at or after `from` and before `to`, earliest first
+   */
+  findStartingBetween(from: number, to: number): Reservation[] {
+    return this.entries.slice(this.lowerBound(from), this.lowerBound(to)).map(e => e.reservation);
+  }
+
+  getAll(): Reservation[] {
+    return this.entries.map(e => e.reservation);
+  }
+}
+
+/** Reservation data store with optimistic locking, audit history and interval indexes */
 class ReservationStore extends BaseStore<Reservation> {
+  /** Every reservation by time */
+  private timeIndex = new IntervalIndex();
+  /** Reservations by time for each table they occupy */
+  private tableIndexes: Map<UUID, IntervalIndex> = new Map();
+
   protected createItem(data: Omit<Reservation, 'id' | 'createdAt' | 'updatedAt'>): Reservation {
     const now = nowUTC();
     return {
@@ -219,11 +527,98 @@ class ReservationStore extends BaseStore<Reservation> {
     } as Reservation;
   }
 
+  attach(storage: StorageAdapter<Reservation>): void {
+    super.attach(storage);
+    this.rebuildIndexes();
+  }
+
+  create(data: Omit<Reservation, 'id' | 'createdAt' | 'updatedAt'>, options?: WriteOptions): Reservation {
+    const actor = options?.actor ?? SYSTEM_ACTOR;
+    const reservation = super.create({ ...data, createdBy: actor, updatedBy: actor }, options);
+    this.addToIndexes(reservation);
+    this.recordEvent(undefined, reservation, options);
+    return reservation;
+  }
+
+  update(id: UUID, updates: Partial<Reservation>, options?: WriteOptions): Reservation | undefined {
+    const previous = this.getById(id);
+    const updated = super.update(id, { ...updates, updatedBy: options?.actor ?? SYSTEM_ACTOR }, options);
+    if (previous && updated) {
+      this.removeFromIndexes(previous);
+      this.addToIndexes(updated);
+      this.recordEvent(previous, updated, options);
+    }
+    return updated;
+  }
+
+  delete(id: UUID, options?: WriteOptions): boolean {
+    const existing = this.getById(id);
+    const deleted = super.delete(id, options);
+    if (existing && deleted) {
+      this.removeFromIndexes(existing);
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    super.clear();
+    this.rebuildIndexes();
+  }
+
+  private addToIndexes(reservation: Reservation): void {
+    this.timeIndex.add(reservation);
+    for (const tableId of getReservationTableIds(reservation)) {
+      let index = this.tableIndexes.get(tableId);
+      if (!index) {
+        index = new IntervalIndex();
+        this.tableIndexes.set(tableId, index);
+      }
+      index.add(reservation);
+    }
+  }
+
+  private removeFromIndexes(reservation: Reservation): void {
+    this.timeIndex.remove(reservation);
+    for (const tableId of getReservationTableIds(reservation)) {
+      this.tableIndexes.get(tableId)?.remove(reservation);
+    }
+  }
+
+  private rebuildIndexes(): void {
+    this.timeIndex = new IntervalIndex();
+    this.tableIndexes = new Map();
+    this.getAll().forEach(r => this.addToIndexes(r));
+  }
+
+  /**
+   * Appends the change to the reservation's history (nothing if no field changed)
+   */
+  private recordEvent(previous: Reservation | undefined, current: Reservation, options?: WriteOptions): void {
+    const changes = diffReservations(previous, current);
+    if (changes.length === 0) {
+      return;
+    }
+
+    reservationEventStore.create({
+      reservationId: current.id,
+      type: classifyChange(previous, changes),
+      actor: options?.actor ?? SYSTEM_ACTOR,
+      occurredAt: current.updatedAt,
+      version: current.version,
+      changes
+    });
+  }
+
   /**
    * Update with optimistic locking
    * Prevents race conditions by checking version before update
    */
-  updateWithVersion(id: UUID, updates: Partial<Reservation>, expectedVersion: number): Reservation | null {
+  updateWithVersion(
+    id: UUID,
+    updates: Partial<Reservation>,
+    expectedVersion: number,
+    options?: WriteOptions
+  ): Reservation | null {
     const existing = this.getById(id);
     if (!existing) {
       return null;
@@ -237,7 +632,7 @@ class ReservationStore extends BaseStore<Reservation> {
     const updated = this.update(id, {
       ...updates,
       version: existing.version + 1
-    });
+    }, options);
 
     return updated || null;
   }
@@ -251,15 +646,51 @@ class ReservationStore extends BaseStore<Reservation> {
   }
 
   findByTableId(tableId: UUID): Reservation[] {
-    return this.getAll().filter(r => r.tableId === tableId);
+    return this.tableIndexes.get(tableId)?.getAll() ?? [];
   }
 
+  /**
+   * Gets reservations holding a table during a time range
+   * (anything not cancelled, completed or marked no-show)
+   * Reservations less than `bufferMinutes` before or after the range also
+   * block it: the table needs that long to turn over between parties.
+   */
+  findBlockingByTable(
+    tableId: UUID,
+    startTime: Date,
+    endTime: Date,
+    excludeReservationId?: UUID,
+    bufferMinutes: number = 0
+  ): Reservation[] {
+    const bufferMs = bufferMinutes * 60000;
+    const index = this.tableIndexes.get(tableId);
+    if (!index) {
+      return [];
+    }
+    return index
+      .findOverlapping(startTime.getTime() - bufferMs, endTime.getTime() + bufferMs)
+      .filter(r => r.id !== excludeReservationId && isBlockingReservation(r));
+  }
+
+  /**
+   * Gets timed holds whose expiry has passed but are still PENDING
+   */
+  findExpiredHolds(now: Date = new Date()): Reservation[] {
+    return this.getAll().filter(r => isHoldExpired(r, now));
+  }
+
+  /**
+   * Gets reservations overlapping a time range, earliest first
+   */
   findByTimeRange(startTime: Date, endTime: Date): Reservation[] {
-    return this.getAll().filter(r => {
-      const rStart = new Date(r.startTime);
-      const rEnd = new Date(r.endTime);
-      return rStart < endTime && rEnd > startTime;
-    });
+    return this.timeIndex.findOverlapping(startTime.getTime(), endTime.getTime());
+  }
+
+  /**
+   * Gets reservations starting at or after `from` and before `to`, earliest first
+   */
+  findStartingBetween(from: Date, to: Date): Reservation[] {
+    return this.timeIndex.findStartingBetween(from.getTime(), to.getTime());
   }
 
   findActiveByTable(tableId: UUID): Reservation | undefined {
@@ -269,7 +700,7 @@ class ReservationStore extends BaseStore<Reservation> {
       ReservationStatus.SEATED
     ];
     return this.getAll().find(r => 
-      r.tableId === tableId && activeStatuses.includes(r.status)
+      getReservationTableIds(r).includes(tableId) && activeStatuses.includes(r.status) && !isHoldExpired(r)
     );
   }
 
@@ -299,11 +730,244 @@ class ReservationStore extends BaseStore<Reservation> {
   }
 }
 
+/** Walk-in waitlist store */
+class WaitlistStore extends BaseStore<WaitlistEntry> {
+  protected createItem(data: Omit<WaitlistEntry, 'id' | 'createdAt' | 'updatedAt'>): WaitlistEntry {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  findByStatus(status: WaitlistStatus): WaitlistEntry[] {
+    return this.getAll().filter(e => e.status === status);
+  }
+
+  /**
+   * Gets parties still in the queue (waiting or notified), in arrival order
+   */
+  findActive(): WaitlistEntry[] {
+    return this.getAll()
+      .filter(e => e.status === WaitlistStatus.WAITING || e.status === WaitlistStatus.NOTIFIED)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  findByOfferedTable(tableId: UUID): WaitlistEntry | undefined {
+    return this.getAll().find(e => 
+      e.status === WaitlistStatus.NOTIFIED && e.offeredTableId === tableId
+    );
+  }
+
+  /**
+   * Gets tables currently offered to a notified party (not available to other walk-ins)
+   */
+  findOfferedTableIds(): UUID[] {
+    return this.findByStatus(WaitlistStatus.NOTIFIED)
+      .filter(e => e.offeredTableId)
+      .map(e => e.offeredTableId!);
+  }
+}
+
+/** No-show history store */
+class NoShowStore extends BaseStore<NoShowRecord> {
+  protected createItem(data: Omit<NoShowRecord, 'id' | 'createdAt' | 'updatedAt'>): NoShowRecord {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  findByCustomerId(customerId: UUID): NoShowRecord[] {
+    return this.getAll().filter(r => r.customerId === customerId);
+  }
+
+  findByReservationId(reservationId: UUID): NoShowRecord | undefined {
+    return this.getAll().find(r => r.reservationId === reservationId);
+  }
+}
+
+/** Append-only reservation history store */
+class ReservationEventStore extends BaseStore<ReservationEvent> {
+  protected createItem(data: Omit<ReservationEvent, 'id' | 'createdAt' | 'updatedAt'>): ReservationEvent {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  update(id: UUID): ReservationEvent | undefined {
+    throw new Error(`Cannot change reservation event ${id}: history is append-only`);
+  }
+
+  delete(id: UUID): boolean {
+    throw new Error(`Cannot delete reservation event ${id}: history is append-only`);
+  }
+
+  /**
+   * Gets a reservation's history, oldest first
+   */
+  findByReservationId(reservationId: UUID): ReservationEvent[] {
+    return this.getAll()
+      .filter(e => e.reservationId === reservationId)
+      .sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime() || a.version - b.version);
+  }
+}
+
+/** Staff account store */
+class StaffStore extends BaseStore<StaffUser> {
+  protected createItem(data: Omit<StaffUser, 'id' | 'createdAt' | 'updatedAt'>): StaffUser {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  findByUsername(username: string): StaffUser | undefined {
+    const normalized = username.trim().toLowerCase();
+    return this.getAll().find(u => u.username === normalized);
+  }
+}
+
+/** Staff session store */
+class SessionStore extends BaseStore<StaffSession> {
+  protected createItem(data: Omit<StaffSession, 'id' | 'createdAt' | 'updatedAt'>): StaffSession {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  findByTokenHash(tokenHash: string): StaffSession | undefined {
+    return this.getAll().find(s => s.tokenHash === tokenHash);
+  }
+
+  findByUserId(userId: UUID): StaffSession[] {
+    return this.getAll().filter(s => s.userId === userId);
+  }
+
+  /**
+   * Removes sessions that have run out, returning how many were removed
+   */
+  deleteExpired(now: Date = new Date()): number {
+    const expired = this.getAll().filter(s => new Date(s.expiresAt) <= now);
+    expired.forEach(s => this.delete(s.id));
+    return expired.length;
+  }
+}
+
+/** Idempotency record store */
+class IdempotencyStore extends BaseStore<IdempotencyRecord> {
+  protected createItem(data: Omit<IdempotencyRecord, 'id' | 'createdAt' | 'updatedAt'>): IdempotencyRecord {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  findByKey(scope: string, key: string): IdempotencyRecord | undefined {
+    return this.getAll().find(r => r.scope === scope && r.key === key);
+  }
+
+  /**
+   * Removes records past their replay window, returning how many were removed
+   */
+  deleteExpired(now: Date = new Date()): number {
+    const expired = this.getAll().filter(r => new Date(r.expiresAt) <= now);
+    expired.forEach(r => this.delete(r.id));
+    return expired.length;
+  }
+}
+
+/** Default service: 11:00-22:00 every day, venue in UTC */
+const DEFAULT_SERVICE: ServicePeriod[] = [{ name: 'all-day', open: '11:00', close: '22:00' }];
+const WEEKDAYS: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+/** Restaurant settings store (holds a single record) */
+class SettingsStore extends BaseStore<RestaurantSettings> {
+  protected createItem(data: Omit<RestaurantSettings, 'id' | 'createdAt' | 'updatedAt'>): RestaurantSettings {
+    const now = nowUTC();
+    return {
+      ...data,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Gets the settings, creating the defaults on first use
+   */
+  getSettings(): RestaurantSettings {
+    const existing = this.getAll()[0];
+    if (existing) {
+      return existing;
+    }
+
+    return this.create({
+      timezone: 'UTC',
+      weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, DEFAULT_SERVICE]))
+    });
+  }
+
+  updateSettings(updates: Partial<Omit<RestaurantSettings, 'id' | 'createdAt' | 'updatedAt'>>): RestaurantSettings {
+    return this.update(this.getSettings().id, updates)!;
+  }
+}
+
 /** Singleton instances */
 export const customerStore = new CustomerStore();
 export const tableStore = new TableStore();
 export const waiterStore = new WaiterStore();
+export const shiftStore = new ShiftStore();
+export const blockStore = new BlockStore();
 export const reservationStore = new ReservationStore();
+export const waitlistStore = new WaitlistStore();
+export const settingsStore = new SettingsStore();
+export const noShowStore = new NoShowStore();
+export const reservationEventStore = new ReservationEventStore();
+export const staffStore = new StaffStore();
+export const sessionStore = new SessionStore();
+export const idempotencyStore = new IdempotencyStore();
+
+/**
+ * Attaches every store to adapters created by the given factory
+ * Persisted data (including reservation versions) is loaded immediately
+ */
+export function attachStorage(factory: StorageAdapterFactory): void {
+  customerStore.attach(factory<Customer>('customers'));
+  tableStore.attach(factory<Table>('tables'));
+  waiterStore.attach(factory<Waiter>('waiters'));
+  shiftStore.attach(factory<Shift>('shifts'));
+  blockStore.attach(factory<Block>('blocks'));
+  reservationStore.attach(factory<Reservation>('reservations'));
+  waitlistStore.attach(factory<WaitlistEntry>('waitlist'));
+  settingsStore.attach(factory<RestaurantSettings>('settings'));
+  noShowStore.attach(factory<NoShowRecord>('no-shows'));
+  reservationEventStore.attach(factory<ReservationEvent>('reservation-events'));
+  staffStore.attach(factory<StaffUser>('staff'));
+  sessionStore.attach(factory<StaffSession>('sessions'));
+  idempotencyStore.attach(factory<IdempotencyRecord>('idempotency'));
+}
 
 /** Initialize with sample data (for development/testing) */
 export function initializeSampleData(): void {
@@ -311,15 +975,22 @@ export function initializeSampleData(): void {
   customerStore.clear();
   tableStore.clear();
   waiterStore.clear();
+  shiftStore.clear();
+  blockStore.clear();
   reservationStore.clear();
+  waitlistStore.clear();
+  settingsStore.clear();
+  noShowStore.clear();
+  reservationEventStore.clear();
 
-  // Add sample tables
+  // Add sample tables (2-tops 1-4 and 6-tops 8-10 can be pushed together)
   for (let i = 1; i <= 10; i++) {
     tableStore.create({
       number: i,
       capacity: i <= 4 ? 2 : i <= 7 ? 4 : 6,
       status: TableStatus.AVAILABLE,
-      section: i <= 5 ? 'Main' : 'Patio'
+      section: i <= 5 ? 'Main' : 'Patio',
+      combinationGroup: i <= 4 ? 'main-banquette' : i >= 8 ? 'patio-long' : undefined
     });
   }
 
@@ -339,5 +1010,14 @@ export function resetStores(): void {
   customerStore.clear();
   tableStore.clear();
   waiterStore.clear();
+  shiftStore.clear();
+  blockStore.clear();
   reservationStore.clear();
+  waitlistStore.clear();
+  settingsStore.clear();
+  noShowStore.clear();
+  reservationEventStore.clear();
+  staffStore.clear();
+  sessionStore.clear();
+  idempotencyStore.clear();
 }
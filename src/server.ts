@@ -4,16 +4,23 @@
  */
 
 import express, { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
 import path from 'path';
 import {
   createReservation,
+  createHold,
+  confirmHold,
+  expireHolds,
   getReservation,
   getReservations,
+  updateReservation,
   updateReservationStatus,
   cancelReservation,
+  getReservationHistory,
   checkAvailability,
   getUpcomingReservations,
-  getTodaysReservations
+  getTodaysReservations,
+  ReservationErrorCode
 } from './services/reservationService';
 import {
   handleWalkIn,
@@ -22,17 +29,197 @@ import {
   getWalkInStats,
   getEstimatedWaitTime
 } from './services/walkInService';
+import {
+  addToWaitlist,
+  getWaitlist,
+  getWaitlistEntry,
+  seatWaitlistEntry,
+  markWaitlistEntryLeft
+} from './services/waitlistService';
 import {
   getAvailableSlots,
   getNextAvailableSlot,
+  getAvailabilityCalendar,
   getAvailabilitySummary
 } from './services/availabilityService';
-import { tableStore, waiterStore, initializeSampleData } from './data/store';
-import { ReservationStatus } from './types';
+import { getRestaurantSettings, updateRestaurantSettings } from './services/settingsService';
+import {
+  processLateArrivals,
+  getLateReservations,
+  getCustomerNoShowReport,
+  getNoShowReport
+} from './services/noShowService';
+import { tableStore, waiterStore, initializeSampleData, attachStorage } from './data/store';
+import { createFileStorage } from './data/storage';
+import { registerJob, startScheduler } from './utils/scheduler';
+import { cleanupExpiredLocks, setLockProvider } from './utils/locking';
+import { FileLockProvider } from './utils/lockProvider';
+import {
+  login,
+  logout,
+  authenticate,
+  authorize,
+  getRolePermissions,
+  createStaffUser,
+  updateStaffUser,
+  listStaffUsers,
+  ensureAdminAccount,
+  cleanupExpiredSessions
+} from './services/authService';
+import {
+  getTable,
+  createTable,
+  updateTable,
+  updateTableStatus,
+  deleteTable
+} from './services/tableService';
+import {
+  createWaiter,
+  updateWaiter,
+  deleteWaiter,
+  getWaiterShifts,
+  createShift,
+  updateShift,
+  deleteShift,
+  getWorkingWaiters,
+  getSeatingRotation,
+  syncWaiterStatuses
+} from './services/waiterService';
+import {
+  getBlocks,
+  createBlock,
+  getBlockConflicts,
+  deleteBlock
+} from './services/blockService';
+import {
+  runIdempotent,
+  cleanupExpiredIdempotencyRecords,
+  IdempotentResult,
+  IdempotencyErrorCode
+} from './services/idempotencyService';
+import { ReservationStatus, Permission, StaffProfile } from './types';
 
 const app = express();
 const PORT = 3080;
 
+/** How often expired reservation holds are released */
+const HOLD_SWEEP_INTERVAL_MS = 30 * 1000;
+
+/** How often overdue reservations are flagged late or marked no-show */
+const LATE_ARRIVAL_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** How often expired locks are cleaned up */
+const LOCK_CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/** How often idempotency records past their replay window are removed */
+const IDEMPOTENCY_CLEANUP_INTERVAL_MS = 15 * 60 * 1000;
+
+/** How often expired staff sessions are removed */
+const SESSION_CLEANUP_INTERVAL_MS = 15 * 60 * 1000;
+
+/** How often waiter statuses follow the shift schedule (breaks, shift ends) */
+const WAITER_STATUS_INTERVAL_MS = 60 * 1000;
+
+/** Extra permission needed to move a reservation to these statuses */
+const STATUS_PERMISSIONS: Partial<Record<ReservationStatus, Permission>> = {
+  [ReservationStatus.CANCELLED]: Permission.CANCEL_RESERVATIONS,
+  [ReservationStatus.NO_SHOW]: Permission.MARK_NO_SHOW
+};
+
+/**
+ * Gets the bearer token of a request
+ */
+function getBearerToken<P>(req: Request<P>): string | undefined {
+  const header = req.get('Authorization');
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+}
+
+/**
+ * Requires a signed-in staff member whose role grants the permission
+ * Answers 401 (not signed in) or 403 (not allowed) in the usual error envelope
+ */
+function requirePermission(permission: Permission) {
+  return <P>(req: Request<P>, res: Response, next: NextFunction) => {
+    const auth = authenticate(getBearerToken(req));
+    if (!auth.success) {
+      return res.status(401).json(auth);
+    }
+
+    const allowed = authorize(auth.data!, permission);
+    if (!allowed.success) {
+      return res.status(403).json(allowed);
+    }
+
+    res.locals.staff = auth.data;
+    next();
+  };
+}
+
+/**
+ * Lets only staff holding the permission set an override field on a booking
+ * (e.g. `durationMinutes`); runs after requirePermission, and requests that
+ * leave the field unset pass through
+ */
+function requireOverride(field: string, permission: Permission) {
+  return <P>(req: Request<P>, res: Response, next: NextFunction) => {
+    if (req.body?.[field] === undefined) {
+      return next();
+    }
+
+    const allowed = authorize(res.locals.staff as StaffProfile, permission);
+    if (!allowed.success) {
+      return res.status(403).json(allowed);
+    }
+
+    next();
+  };
+}
+
+/** Override fields of bookings, each reserved to a permission */
+const BOOKING_OVERRIDES = [
+  requireOverride('durationMinutes', Permission.OVERRIDE_DURATION),
+  requireOverride('pacingOverride', Permission.OVERRIDE_PACING)
+];
+
+/** HTTP status of idempotency failures */
+const IDEMPOTENCY_ERROR_STATUS: Record<string, number> = {
+  [IdempotencyErrorCode.INVALID_IDEMPOTENCY_KEY]: 400,
+  [IdempotencyErrorCode.IDEMPOTENCY_IN_PROGRESS]: 409,
+  [IdempotencyErrorCode.IDEMPOTENCY_KEY_REUSED]: 422
+};
+
+/** HTTP status of booking failures: idempotency failures and a full kitchen */
+const BOOKING_ERROR_STATUS: Record<string, number> = {
+  ...IDEMPOTENCY_ERROR_STATUS,
+  [ReservationErrorCode.PACING_LIMIT_REACHED]: 409
+};
+
+/**
+ * Sends the outcome of a create request made with an optional Idempotency-Key
+ * Replayed outcomes get the original status and an Idempotent-Replayed header
+ */
+function sendCreated<T>(
+  res: Response,
+  { result, replayed }: IdempotentResult<T>,
+  errorStatus: Record<string, number> = IDEMPOTENCY_ERROR_STATUS
+): void {
+  if (replayed) {
+    res.set('Idempotent-Replayed', 'true');
+  }
+  if (result.success) {
+    res.status(201).json(result);
+  } else {
+    res.status(errorStatus[result.error?.code ?? ''] ?? 400).json(result);
+  }
+}
+
+/**
+ * Gets the signed-in staff member making a change, as recorded on reservations
+ */
+function getActor(res: Response): string {
+  return (res.locals.staff as StaffProfile).username;
+}
+
 // Middleware
 app.use(express.json());
 
@@ -56,27 +243,118 @@ app.get('/health', (req, res) => {
   res.json({ status: 'healthy', port: PORT });
 });
 
+// ============== AUTH ENDPOINTS ==============
+
+// Sign in
+app.post('/api/v1/auth/login', (req, res) => {
+  const result = login(req.body ?? {});
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(401).json(result);
+  }
+});
+
+// Sign out
+app.post('/api/v1/auth/logout', (req, res) => {
+  const result = logout(getBearerToken(req) ?? '');
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(401).json(result);
+  }
+});
+
+// Get the signed-in staff member and their permissions
+app.get('/api/v1/auth/me', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const staff = res.locals.staff as StaffProfile;
+  res.json({ success: true, data: { user: staff, permissions: getRolePermissions(staff.role) } });
+});
+
+// ============== STAFF ENDPOINTS ==============
+
+// List staff accounts
+app.get('/api/v1/staff', requirePermission(Permission.MANAGE_STAFF), (req, res) => {
+  res.json({ success: true, data: listStaffUsers() });
+});
+
+// Create a staff account
+app.post('/api/v1/staff', requirePermission(Permission.MANAGE_STAFF), (req, res) => {
+  const result = createStaffUser(req.body ?? {});
+  if (result.success) {
+    res.status(201).json(result);
+  } else {
+    res.status(result.error?.code === 'USERNAME_TAKEN' ? 409 : 400).json(result);
+  }
+});
+
+// Update a staff account (name, role, password, active)
+app.patch('/api/v1/staff/:id', requirePermission(Permission.MANAGE_STAFF), (req, res) => {
+  const result = updateStaffUser(req.params.id, req.body ?? {});
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(result.error?.code === 'USER_NOT_FOUND' ? 404 : 400).json(result);
+  }
+});
+
 // ============== RESERVATION ENDPOINTS ==============
 
 // Create a reservation
-app.post('/api/v1/reservations', async (req, res) => {
+app.post('/api/v1/reservations', requirePermission(Permission.MANAGE_RESERVATIONS), ...BOOKING_OVERRIDES, async (req, res) => {
+  try {
+    sendCreated(res, await runIdempotent('create-reservation', req.get('Idempotency-Key'), req.body,
+      () => createReservation(req.body, getActor(res))), BOOKING_ERROR_STATUS);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Failed to create reservation' }
+    });
+  }
+});
+
+// Place a timed hold on a table while details are collected
+app.post('/api/v1/reservations/holds', requirePermission(Permission.MANAGE_RESERVATIONS), ...BOOKING_OVERRIDES, async (req, res) => {
   try {
-    const result = await createReservation(req.body);
+    const result = await createHold(req.body, getActor(res));
     if (result.success) {
       res.status(201).json(result);
     } else {
-      res.status(400).json(result);
+      res.status(result.error?.code === ReservationErrorCode.PACING_LIMIT_REACHED ? 409 : 400).json(result);
     }
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: { code: 'SERVER_ERROR', message: 'Failed to create reservation' }
+      error: { code: 'SERVER_ERROR', message: 'Failed to place hold' }
     });
   }
 });
 
+// Confirm a timed hold
+app.post('/api/v1/reservations/:id/confirm', requirePermission(Permission.MANAGE_RESERVATIONS), (req, res) => {
+  const { version } = req.body;
+
+  if (version === undefined) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: 'version is required' }
+    });
+  }
+
+  const result = confirmHold(req.params.id, req.body, getActor(res));
+  if (result.success) {
+    res.json(result);
+  } else {
+    const code = result.error?.code;
+    const status = code === 'RESERVATION_NOT_FOUND' ? 404
+      : code === 'HOLD_EXPIRED' || code === 'CONCURRENT_MODIFICATION' ? 409
+      : 400;
+    res.status(status).json(result);
+  }
+});
+
 // Get all reservations
-app.get('/api/v1/reservations', (req, res) => {
+app.get('/api/v1/reservations', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const { status, date, tableId, customerId } = req.query;
   
   const filters: any = {};
@@ -90,20 +368,25 @@ app.get('/api/v1/reservations', (req, res) => {
 });
 
 // Get upcoming reservations
-app.get('/api/v1/reservations/upcoming', (req, res) => {
+app.get('/api/v1/reservations/upcoming', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const hours = req.query.hours ? parseInt(req.query.hours as string) : 24;
   const reservations = getUpcomingReservations(hours);
   res.json({ success: true, data: reservations });
 });
 
 // Get today's reservations
-app.get('/api/v1/reservations/today', (req, res) => {
+app.get('/api/v1/reservations/today', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const reservations = getTodaysReservations();
   res.json({ success: true, data: reservations });
 });
 
+// Get confirmed reservations whose party is running late
+app.get('/api/v1/reservations/late', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  res.json({ success: true, data: getLateReservations() });
+});
+
 // Get a specific reservation
-app.get('/api/v1/reservations/:id', (req, res) => {
+app.get('/api/v1/reservations/:id', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const result = getReservation(req.params.id);
   if (result.success) {
     res.json(result);
@@ -112,8 +395,48 @@ app.get('/api/v1/reservations/:id', (req, res) => {
   }
 });
 
+// Get the change history of a reservation
+app.get('/api/v1/reservations/:id/history', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const result = getReservationHistory(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(404).json(result);
+  }
+});
+
+// Modify or reschedule a reservation
+app.patch('/api/v1/reservations/:id', requirePermission(Permission.MANAGE_RESERVATIONS), ...BOOKING_OVERRIDES, async (req, res) => {
+  const { version } = req.body;
+
+  if (version === undefined) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: 'version is required' }
+    });
+  }
+
+  try {
+    const result = await updateReservation(req.params.id, req.body, getActor(res));
+    if (result.success) {
+      res.json(result);
+    } else {
+      const code = result.error?.code;
+      const status = code === 'RESERVATION_NOT_FOUND' || code === 'TABLE_NOT_FOUND' ? 404
+        : code === 'SLOT_CONFLICT' || code === 'CONCURRENT_MODIFICATION' || code === 'PACING_LIMIT_REACHED' ? 409
+        : 400;
+      res.status(status).json(result);
+    }
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Failed to update reservation' }
+    });
+  }
+});
+
 // Update reservation status
-app.patch('/api/v1/reservations/:id/status', (req, res) => {
+app.patch('/api/v1/reservations/:id/status', requirePermission(Permission.UPDATE_RESERVATION_STATUS), (req, res) => {
   const { status, version } = req.body;
   
   if (!status || version === undefined) {
@@ -123,7 +446,15 @@ app.patch('/api/v1/reservations/:id/status', (req, res) => {
     });
   }
 
-  const result = updateReservationStatus(req.params.id, status, version);
+  const statusPermission = STATUS_PERMISSIONS[status as ReservationStatus];
+  if (statusPermission) {
+    const allowed = authorize(res.locals.staff, statusPermission);
+    if (!allowed.success) {
+      return res.status(403).json(allowed);
+    }
+  }
+
+  const result = updateReservationStatus(req.params.id, status, version, getActor(res));
   if (result.success) {
     res.json(result);
   } else {
@@ -132,7 +463,7 @@ app.patch('/api/v1/reservations/:id/status', (req, res) => {
 });
 
 // Cancel a reservation
-app.delete('/api/v1/reservations/:id', (req, res) => {
+app.delete('/api/v1/reservations/:id', requirePermission(Permission.CANCEL_RESERVATIONS), (req, res) => {
   const { version } = req.body;
   
   if (version === undefined) {
@@ -142,7 +473,7 @@ app.delete('/api/v1/reservations/:id', (req, res) => {
     });
   }
 
-  const result = cancelReservation(req.params.id, version);
+  const result = cancelReservation(req.params.id, version, getActor(res));
   if (result.success) {
     res.json(result);
   } else {
@@ -153,14 +484,10 @@ app.delete('/api/v1/reservations/:id', (req, res) => {
 // ============== WALK-IN ENDPOINTS ==============
 
 // Handle a walk-in
-app.post('/api/v1/walk-ins', async (req, res) => {
+app.post('/api/v1/walk-ins', requirePermission(Permission.MANAGE_WALK_INS), async (req, res) => {
   try {
-    const result = await handleWalkIn(req.body);
-    if (result.success) {
-      res.status(201).json(result);
-    } else {
-      res.status(400).json(result);
-    }
+    sendCreated(res, await runIdempotent('walk-in', req.get('Idempotency-Key'), req.body,
+      () => handleWalkIn(req.body, getActor(res))));
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -170,7 +497,7 @@ app.post('/api/v1/walk-ins', async (req, res) => {
 });
 
 // Check if walk-in can be accommodated
-app.get('/api/v1/walk-ins/check', (req, res) => {
+app.get('/api/v1/walk-ins/check', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const partySize = parseInt(req.query.partySize as string);
   
   if (isNaN(partySize)) {
@@ -185,19 +512,19 @@ app.get('/api/v1/walk-ins/check', (req, res) => {
 });
 
 // Get current walk-ins
-app.get('/api/v1/walk-ins/current', (req, res) => {
+app.get('/api/v1/walk-ins/current', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const walkIns = getCurrentWalkIns();
   res.json({ success: true, data: walkIns });
 });
 
 // Get walk-in statistics
-app.get('/api/v1/walk-ins/stats', (req, res) => {
+app.get('/api/v1/walk-ins/stats', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const stats = getWalkInStats();
   res.json({ success: true, data: stats });
 });
 
 // Get estimated wait time
-app.get('/api/v1/walk-ins/wait-time', (req, res) => {
+app.get('/api/v1/walk-ins/wait-time', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const partySize = parseInt(req.query.partySize as string);
   
   if (isNaN(partySize)) {
@@ -211,17 +538,72 @@ app.get('/api/v1/walk-ins/wait-time', (req, res) => {
   res.json(result);
 });
 
+// ============== WAITLIST ENDPOINTS ==============
+
+// Add a walk-in party to the waitlist
+app.post('/api/v1/waitlist', requirePermission(Permission.MANAGE_WALK_INS), (req, res) => {
+  const result = addToWaitlist(req.body);
+  if (result.success) {
+    res.status(201).json(result);
+  } else {
+    res.status(400).json(result);
+  }
+});
+
+// Get the current waitlist queue
+app.get('/api/v1/waitlist', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const queue = getWaitlist();
+  res.json({ success: true, data: queue });
+});
+
+// Get a waitlist entry with its queue position
+app.get('/api/v1/waitlist/:id', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const result = getWaitlistEntry(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(404).json(result);
+  }
+});
+
+// Seat a notified party at their offered table
+app.post('/api/v1/waitlist/:id/seat', requirePermission(Permission.MANAGE_WALK_INS), async (req, res) => {
+  try {
+    const result = await seatWaitlistEntry(req.params.id, getActor(res));
+    if (result.success) {
+      res.json(result);
+    } else {
+      res.status(result.error?.code === 'ENTRY_NOT_FOUND' ? 404 : 409).json(result);
+    }
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Failed to seat waitlist party' }
+    });
+  }
+});
+
+// Record that a party left the waitlist
+app.post('/api/v1/waitlist/:id/leave', requirePermission(Permission.MANAGE_WALK_INS), (req, res) => {
+  const result = markWaitlistEntryLeft(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(result.error?.code === 'ENTRY_NOT_FOUND' ? 404 : 409).json(result);
+  }
+});
+
 // ============== AVAILABILITY ENDPOINTS ==============
 
 // Check availability for a time slot
-app.post('/api/v1/availability/check', (req, res) => {
+app.post('/api/v1/availability/check', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const result = checkAvailability(req.body);
   res.json(result);
 });
 
 // Get available slots for a date
-app.get('/api/v1/availability/slots', (req, res) => {
-  const { date, partySize, timezone, duration } = req.query;
+app.get('/api/v1/availability/slots', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const { date, partySize, timezone, duration, experience } = req.query;
   
   if (!date || !partySize) {
     return res.status(400).json({
@@ -234,16 +616,42 @@ app.get('/api/v1/availability/slots', (req, res) => {
     date as string,
     parseInt(partySize as string),
     timezone as string,
-    duration ? parseInt(duration as string) : undefined
+    duration ? parseInt(duration as string) : undefined,
+    experience as string | undefined
   );
   res.json(result);
 });
 
+// Get how bookable each day of a month is (OPEN, LIMITED, FULL, CLOSED)
+app.get('/api/v1/availability/calendar', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const { month, partySize, duration, experience } = req.query;
+
+  if (!month || !partySize) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: 'month and partySize are required' }
+    });
+  }
+
+  const result = getAvailabilityCalendar(
+    month as string,
+    parseInt(partySize as string),
+    duration ? parseInt(duration as string) : undefined,
+    experience as string | undefined
+  );
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(400).json(result);
+  }
+});
+
 // Get next available slot
-app.get('/api/v1/availability/next', (req, res) => {
+app.get('/api/v1/availability/next', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const partySize = parseInt(req.query.partySize as string);
   const fromTime = req.query.fromTime as string;
   const duration = req.query.duration ? parseInt(req.query.duration as string) : undefined;
+  const experience = req.query.experience as string | undefined;
   
   if (isNaN(partySize)) {
     return res.status(400).json({
@@ -252,12 +660,12 @@ app.get('/api/v1/availability/next', (req, res) => {
     });
   }
 
-  const result = getNextAvailableSlot(partySize, fromTime, duration);
+  const result = getNextAvailableSlot(partySize, fromTime, duration, experience);
   res.json(result);
 });
 
 // Get availability summary
-app.get('/api/v1/availability/summary', (req, res) => {
+app.get('/api/v1/availability/summary', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const { date, timezone } = req.query;
   
   if (!date) {
@@ -271,36 +679,295 @@ app.get('/api/v1/availability/summary', (req, res) => {
   res.json(result);
 });
 
+// ============== SETTINGS ENDPOINTS ==============
+
+// Get restaurant settings (timezone, opening hours)
+app.get('/api/v1/settings', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  res.json({ success: true, data: getRestaurantSettings() });
+});
+
+// Update restaurant settings
+app.patch('/api/v1/settings', requirePermission(Permission.MANAGE_SETTINGS), (req, res) => {
+  const result = updateRestaurantSettings(req.body);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(400).json(result);
+  }
+});
+
+// ============== BLOCK ENDPOINTS ==============
+
+// List closures and blocks (optionally those overlapping ?from=&to=)
+app.get('/api/v1/blocks', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  res.json({ success: true, data: getBlocks(req.query.from as string, req.query.to as string) });
+});
+
+// Close the restaurant for a day or block it, a section or tables for a time range
+app.post('/api/v1/blocks', requirePermission(Permission.MANAGE_SETTINGS), (req, res) => {
+  const result = createBlock(req.body ?? {}, getActor(res));
+  if (result.success) {
+    res.status(201).json(result);
+  } else {
+    res.status(400).json(result);
+  }
+});
+
+// Get the reservations a block collides with
+app.get('/api/v1/blocks/:id/conflicts', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const result = getBlockConflicts(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(404).json(result);
+  }
+});
+
+// Lift a block
+app.delete('/api/v1/blocks/:id', requirePermission(Permission.MANAGE_SETTINGS), (req, res) => {
+  const result = deleteBlock(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(404).json(result);
+  }
+});
+
+// ============== REPORT ENDPOINTS ==============
+
+// Get no-show rates of customers with at least one no-show
+app.get('/api/v1/reports/no-shows', requirePermission(Permission.VIEW_REPORTS), (req, res) => {
+  res.json({ success: true, data: getNoShowReport() });
+});
+
+// Get the no-show history of one customer
+app.get('/api/v1/customers/:id/no-shows', requirePermission(Permission.VIEW_REPORTS), (req, res) => {
+  const result = getCustomerNoShowReport(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(404).json(result);
+  }
+});
+
 // ============== TABLE ENDPOINTS ==============
 
 // Get all tables
-app.get('/api/v1/tables', (req, res) => {
+app.get('/api/v1/tables', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const tables = tableStore.getAll();
   res.json({ success: true, data: tables });
 });
 
 // Get available tables
-app.get('/api/v1/tables/available', (req, res) => {
+app.get('/api/v1/tables/available', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const tables = tableStore.findAvailable();
   res.json({ success: true, data: tables });
 });
 
+// Get a table
+app.get('/api/v1/tables/:id', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const result = getTable(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(404).json(result);
+  }
+});
+
+// Add a table
+app.post('/api/v1/tables', requirePermission(Permission.MANAGE_TABLES), (req, res) => {
+  const result = createTable(req.body ?? {});
+  if (result.success) {
+    res.status(201).json(result);
+  } else {
+    res.status(result.error?.code === 'DUPLICATE_TABLE_NUMBER' ? 409 : 400).json(result);
+  }
+});
+
+// Change a table's number, capacity, section or combination group
+app.patch('/api/v1/tables/:id', requirePermission(Permission.MANAGE_TABLES), (req, res) => {
+  const result = updateTable(req.params.id, req.body ?? {});
+  if (result.success) {
+    res.json(result);
+  } else {
+    const code = result.error?.code;
+    const status = code === 'TABLE_NOT_FOUND' ? 404
+      : code === 'DUPLICATE_TABLE_NUMBER' || code === 'CAPACITY_CONFLICT' ? 409
+      : 400;
+    res.status(status).json(result);
+  }
+});
+
+// Set a table's status by hand (OUT_OF_SERVICE needs a reason)
+app.patch('/api/v1/tables/:id/status', requirePermission(Permission.MANAGE_TABLES), (req, res) => {
+  const result = updateTableStatus(req.params.id, req.body ?? {});
+  if (result.success) {
+    res.json(result);
+  } else {
+    const code = result.error?.code;
+    res.status(code === 'TABLE_NOT_FOUND' ? 404 : code === 'TABLE_IN_USE' ? 409 : 400).json(result);
+  }
+});
+
+// Remove a table (?reassign=true moves its upcoming reservations first)
+app.delete('/api/v1/tables/:id', requirePermission(Permission.MANAGE_TABLES), async (req, res) => {
+  try {
+    const result = await deleteTable(req.params.id, { reassign: req.query.reassign === 'true' }, getActor(res));
+    if (result.success) {
+      res.json(result);
+    } else {
+      res.status(result.error?.code === 'TABLE_NOT_FOUND' ? 404 : 409).json(result);
+    }
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Failed to remove table' }
+    });
+  }
+});
+
 // ============== WAITER ENDPOINTS ==============
 
 // Get all waiters
-app.get('/api/v1/waiters', (req, res) => {
+app.get('/api/v1/waiters', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const waiters = waiterStore.getAll();
   res.json({ success: true, data: waiters });
 });
 
 // Get available waiters
-app.get('/api/v1/waiters/available', (req, res) => {
+app.get('/api/v1/waiters/available', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
   const waiters = waiterStore.findAvailable();
   res.json({ success: true, data: waiters });
 });
 
-// Initialize sample data
-initializeSampleData();
+// Get who is working, with their shifts (?from=&to= for a service, ?from= alone for a moment)
+app.get('/api/v1/waiters/working', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const from = req.query.from ? new Date(req.query.from as string) : new Date();
+  const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+  if (isNaN(from.getTime()) || (to && isNaN(to.getTime()))) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: 'from and to must be ISO datetimes' }
+    });
+  }
+
+  res.json({ success: true, data: getWorkingWaiters(from, to) });
+});
+
+// Get the seating rotation: who takes the next party (?section= puts that section's waiters first)
+app.get('/api/v1/waiters/rotation', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const section = req.query.section as string | undefined;
+  res.json({ success: true, data: getSeatingRotation(new Date(), section || undefined) });
+});
+
+// Add a waiter
+app.post('/api/v1/waiters', requirePermission(Permission.MANAGE_WAITERS), (req, res) => {
+  const result = createWaiter(req.body ?? {});
+  if (result.success) {
+    res.status(201).json(result);
+  } else {
+    res.status(400).json(result);
+  }
+});
+
+// Rename a waiter
+app.patch('/api/v1/waiters/:id', requirePermission(Permission.MANAGE_WAITERS), (req, res) => {
+  const result = updateWaiter(req.params.id, req.body ?? {});
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(result.error?.code === 'WAITER_NOT_FOUND' ? 404 : 400).json(result);
+  }
+});
+
+// Remove a waiter and their shifts
+app.delete('/api/v1/waiters/:id', requirePermission(Permission.MANAGE_WAITERS), (req, res) => {
+  const result = deleteWaiter(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(result.error?.code === 'WAITER_NOT_FOUND' ? 404 : 409).json(result);
+  }
+});
+
+// ============== SHIFT ENDPOINTS ==============
+
+// Get a waiter's shifts
+app.get('/api/v1/waiters/:id/shifts', requirePermission(Permission.VIEW_FLOOR), (req, res) => {
+  const result = getWaiterShifts(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(404).json(result);
+  }
+});
+
+// Schedule a shift
+app.post('/api/v1/waiters/:id/shifts', requirePermission(Permission.MANAGE_WAITERS), (req, res) => {
+  const result = createShift(req.params.id, req.body ?? {});
+  if (result.success) {
+    res.status(201).json(result);
+  } else {
+    const code = result.error?.code;
+    res.status(code === 'WAITER_NOT_FOUND' ? 404 : code === 'SHIFT_OVERLAP' ? 409 : 400).json(result);
+  }
+});
+
+// Change a shift's times, section or breaks
+app.patch('/api/v1/shifts/:id', requirePermission(Permission.MANAGE_WAITERS), (req, res) => {
+  const result = updateShift(req.params.id, req.body ?? {});
+  if (result.success) {
+    res.json(result);
+  } else {
+    const code = result.error?.code;
+    res.status(code === 'SHIFT_NOT_FOUND' ? 404 : code === 'SHIFT_OVERLAP' ? 409 : 400).json(result);
+  }
+});
+
+// Remove a shift
+app.delete('/api/v1/shifts/:id', requirePermission(Permission.MANAGE_WAITERS), (req, res) => {
+  const result = deleteShift(req.params.id);
+  if (result.success) {
+    res.json(result);
+  } else {
+    res.status(404).json(result);
+  }
+});
+
+// Use durable storage when a data directory is configured
+if (process.env.DATA_DIR) {
+  attachStorage(createFileStorage(process.env.DATA_DIR));
+}
+
+// Share locks between processes when a lock directory is configured
+if (process.env.LOCK_DIR) {
+  setLockProvider(new FileLockProvider(path.join(process.env.LOCK_DIR, 'locks.json')));
+}
+
+// Initialize sample data (only when nothing was persisted)
+if (tableStore.count() === 0) {
+  initializeSampleData();
+}
+
+// Create the first admin account (ADMIN_PASSWORD, or a generated one written to a file only the owner can read)
+const admin = ensureAdminAccount(process.env.ADMIN_PASSWORD);
+if (admin.password) {
+  const passwordFile = path.resolve(process.env.DATA_DIR ?? '.', 'admin-password.txt');
+  fs.writeFileSync(passwordFile, `${admin.password}\n`, { mode: 0o600 });
+  fs.chmodSync(passwordFile, 0o600);
+  console.log(`Created staff account "admin"; its password is in ${passwordFile}`);
+}
+
+// Background jobs: release expired holds, mark no-shows, drop stale locks, sessions and idempotency records,
+// and keep waiter statuses in step with the shift schedule
+registerJob({ name: 'expire-holds', intervalMs: HOLD_SWEEP_INTERVAL_MS, run: now => { expireHolds(now); } });
+registerJob({ name: 'late-arrivals', intervalMs: LATE_ARRIVAL_SWEEP_INTERVAL_MS, run: now => { processLateArrivals(now); } });
+registerJob({ name: 'lock-cleanup', intervalMs: LOCK_CLEANUP_INTERVAL_MS, run: () => { cleanupExpiredLocks(); } });
+registerJob({ name: 'idempotency-cleanup', intervalMs: IDEMPOTENCY_CLEANUP_INTERVAL_MS, run: now => { cleanupExpiredIdempotencyRecords(now); } });
+registerJob({ name: 'session-cleanup', intervalMs: SESSION_CLEANUP_INTERVAL_MS, run: now => { cleanupExpiredSessions(now); } });
+registerJob({ name: 'waiter-status', intervalMs: WAITER_STATUS_INTERVAL_MS, run: now => { syncWaiterStatuses(now); } });
+startScheduler();
 
 // Start server
 app.listen(PORT, () => {
@@ -308,16 +975,34 @@ app.listen(PORT, () => {
   console.log(`📍 Health check: http://localhost:${PORT}/health`);
   console.log(`📍 API base: http://localhost:${PORT}/api/v1`);
   console.log('');
-  console.log('Available endpoints:');
+  console.log('Available endpoints (staff sign-in required):');
+  console.log('  POST   /api/v1/auth/login            - Sign in (returns bearer token)');
+  console.log('  GET    /api/v1/staff                 - List staff accounts');
   console.log('  POST   /api/v1/reservations          - Create reservation');
+  console.log('  POST   /api/v1/reservations/holds    - Place timed hold');
+  console.log('  POST   /api/v1/reservations/:id/confirm - Confirm hold');
   console.log('  GET    /api/v1/reservations          - List reservations');
   console.log('  GET    /api/v1/reservations/:id      - Get reservation');
+  console.log('  GET    /api/v1/reservations/:id/history - Reservation change history');
+  console.log('  PATCH  /api/v1/reservations/:id      - Modify/reschedule reservation');
   console.log('  PATCH  /api/v1/reservations/:id/status - Update status');
   console.log('  DELETE /api/v1/reservations/:id      - Cancel reservation');
+  console.log('  GET    /api/v1/reservations/late     - Late parties');
+  console.log('  GET    /api/v1/reports/no-shows      - No-show rates per customer');
   console.log('  POST   /api/v1/walk-ins              - Handle walk-in');
   console.log('  GET    /api/v1/walk-ins/check        - Check walk-in availability');
+  console.log('  POST   /api/v1/waitlist              - Add party to waitlist');
+  console.log('  GET    /api/v1/waitlist              - View waitlist queue');
   console.log('  GET    /api/v1/availability/slots    - Get available slots');
+  console.log('  GET    /api/v1/availability/calendar - Day-by-day availability for a month');
+  console.log('  POST   /api/v1/blocks                - Add closure or block');
+  console.log('  GET    /api/v1/blocks/:id/conflicts  - Reservations colliding with a block');
   console.log('  GET    /api/v1/tables                - List tables');
+  console.log('  POST   /api/v1/tables                - Add table');
+  console.log('  DELETE /api/v1/tables/:id            - Remove table');
+  console.log('  GET    /api/v1/waiters/working       - Waiters on shift');
+  console.log('  GET    /api/v1/waiters/rotation      - Seating rotation');
+  console.log('  POST   /api/v1/waiters/:id/shifts    - Schedule shift');
 });
 
 export default app;
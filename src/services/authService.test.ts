@@ -0,0 +1,162 @@
+/**
+ * Tests for Auth Service
+ * Task #3: System Reliability and Usability
+ *
+ * Staff sign in with a password and act within the permissions of their
+ * role; requests without a valid session are rejected.
+ */
+
+import {
+  createStaffUser,
+  updateStaffUser,
+  listStaffUsers,
+  login,
+  logout,
+  authenticate,
+  authorize,
+  hasPermission,
+  ensureAdminAccount,
+  cleanupExpiredSessions,
+  AuthErrorCode,
+  SESSION_TTL_HOURS
+} from '../services/authService';
+import { resetStores, staffStore, sessionStore } from '../data/store';
+import { Permission, StaffRole } from '../types';
+
+/** Creates an account and signs it in, returning the session token */
+function signIn(username: string, role: StaffRole): string {
+  createStaffUser({ username, name: username, role, password: 'correct-horse' });
+  return login({ username, password: 'correct-horse' }).data!.token;
+}
+
+describe('Auth Service', () => {
+  beforeEach(() => {
+    resetStores();
+  });
+
+  describe('Staff accounts', () => {
+    it('should create an account without exposing the password hash', () => {
+      const result = createStaffUser({
+        username: 'Anna.Host',
+        name: 'Anna',
+        role: StaffRole.HOST,
+        password: 'correct-horse'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.username).toBe('anna.host');
+      expect(result.data).not.toHaveProperty('passwordHash');
+      expect(staffStore.getById(result.data!.id)!.passwordHash).not.toContain('correct-horse');
+      expect(listStaffUsers().map(u => u.username)).toEqual(['anna.host']);
+    });
+
+    it('should reject duplicate usernames, unknown roles and short passwords', () => {
+      createStaffUser({ username: 'anna', name: 'Anna', role: StaffRole.HOST, password: 'correct-horse' });
+
+      expect(createStaffUser({ username: 'ANNA', name: 'Other', role: StaffRole.HOST, password: 'correct-horse' })
+        .error?.code).toBe(AuthErrorCode.USERNAME_TAKEN);
+      expect(createStaffUser({ username: 'bob', name: 'Bob', role: 'CHEF' as StaffRole, password: 'correct-horse' })
+        .error?.code).toBe(AuthErrorCode.INVALID_ROLE);
+      expect(createStaffUser({ username: 'cyd', name: 'Cyd', role: StaffRole.SERVER, password: 'short' })
+        .error?.code).toBe(AuthErrorCode.WEAK_PASSWORD);
+    });
+
+    it('should create the first admin only when no account exists', () => {
+      const first = ensureAdminAccount();
+      const second = ensureAdminAccount();
+
+      expect(first.created).toBe(true);
+      expect(first.password).toBeDefined();
+      expect(second.created).toBe(false);
+      expect(login({ username: 'admin', password: first.password! }).success).toBe(true);
+    });
+  });
+
+  describe('Sessions', () => {
+    it('should sign in with the right password and resolve the token', () => {
+      const token = signIn('anna', StaffRole.HOST);
+
+      const result = authenticate(token);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.username).toBe('anna');
+      expect(sessionStore.getAll()[0].tokenHash).not.toBe(token);
+    });
+
+    it('should reject a wrong password and a missing or unknown token', () => {
+      createStaffUser({ username: 'anna', name: 'Anna', role: StaffRole.HOST, password: 'correct-horse' });
+
+      expect(login({ username: 'anna', password: 'wrong-horse' }).error?.code).toBe(AuthErrorCode.INVALID_CREDENTIALS);
+      expect(login({ username: 'nobody', password: 'correct-horse' }).error?.code).toBe(AuthErrorCode.INVALID_CREDENTIALS);
+      expect(authenticate(undefined).error?.code).toBe(AuthErrorCode.UNAUTHENTICATED);
+      expect(authenticate('not-a-token').error?.code).toBe(AuthErrorCode.UNAUTHENTICATED);
+    });
+
+    it('should expire sessions after the session lifetime', () => {
+      const token = signIn('anna', StaffRole.HOST);
+      const later = new Date(Date.now() + (SESSION_TTL_HOURS + 1) * 3600000);
+
+      expect(authenticate(token, later).error?.code).toBe(AuthErrorCode.SESSION_EXPIRED);
+      expect(authenticate(token).error?.code).toBe(AuthErrorCode.UNAUTHENTICATED);
+    });
+
+    it('should clean up expired sessions', () => {
+      signIn('anna', StaffRole.HOST);
+
+      expect(cleanupExpiredSessions(new Date())).toBe(0);
+      expect(cleanupExpiredSessions(new Date(Date.now() + (SESSION_TTL_HOURS + 1) * 3600000))).toBe(1);
+      expect(sessionStore.count()).toBe(0);
+    });
+
+    it('should end sessions on logout and when the account is deactivated', () => {
+      const first = signIn('anna', StaffRole.HOST);
+      const second = login({ username: 'anna', password: 'correct-horse' }).data!.token;
+
+      expect(logout(first).success).toBe(true);
+      expect(authenticate(first).success).toBe(false);
+      expect(authenticate(second).success).toBe(true);
+
+      const user = staffStore.findByUsername('anna')!;
+      updateStaffUser(user.id, { active: false });
+
+      expect(authenticate(second).success).toBe(false);
+      expect(login({ username: 'anna', password: 'correct-horse' }).success).toBe(false);
+    });
+  });
+
+  describe('Permissions', () => {
+    it('should let only managers and admins mark no-shows, edit tables and override durations or pacing', () => {
+      const managerOnly = [
+        Permission.MARK_NO_SHOW, Permission.MANAGE_TABLES, Permission.OVERRIDE_DURATION, Permission.OVERRIDE_PACING
+      ];
+      for (const permission of managerOnly) {
+        expect(hasPermission(StaffRole.SERVER, permission)).toBe(false);
+        expect(hasPermission(StaffRole.HOST, permission)).toBe(false);
+        expect(hasPermission(StaffRole.MANAGER, permission)).toBe(true);
+        expect(hasPermission(StaffRole.ADMIN, permission)).toBe(true);
+      }
+    });
+
+    it('should let hosts book and cancel but not servers', () => {
+      expect(hasPermission(StaffRole.HOST, Permission.MANAGE_RESERVATIONS)).toBe(true);
+      expect(hasPermission(StaffRole.HOST, Permission.CANCEL_RESERVATIONS)).toBe(true);
+      expect(hasPermission(StaffRole.SERVER, Permission.CANCEL_RESERVATIONS)).toBe(false);
+      expect(hasPermission(StaffRole.SERVER, Permission.UPDATE_RESERVATION_STATUS)).toBe(true);
+    });
+
+    it('should reserve staff management for admins', () => {
+      expect(hasPermission(StaffRole.MANAGER, Permission.MANAGE_STAFF)).toBe(false);
+      expect(hasPermission(StaffRole.ADMIN, Permission.MANAGE_STAFF)).toBe(true);
+    });
+
+    it('should return a forbidden error naming the missing permission', () => {
+      const host = authenticate(signIn('anna', StaffRole.HOST)).data!;
+
+      const result = authorize(host, Permission.MARK_NO_SHOW);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(AuthErrorCode.FORBIDDEN);
+      expect(result.error?.details).toEqual({ role: StaffRole.HOST, required: Permission.MARK_NO_SHOW });
+    });
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Auth Service
+ * Task #3: System Reliability and Usability
+ *
+ * Staff accounts and access control:
+ * - Staff accounts with a role (host, server, manager, admin)
+ * - Password login issuing bearer tokens for time-limited sessions
+ * - Per-role permissions checked by the API before each action
+ *
+ * Passwords are stored as salted scrypt hashes and session tokens only as
+ * SHA-256 digests, so a leaked data directory does not expose credentials.
+ */
+
+import crypto from 'crypto';
+import {
+  UUID,
+  StaffUser,
+  StaffProfile,
+  StaffRole,
+  Permission,
+  LoginRequest,
+  CreateStaffUserRequest,
+  UpdateStaffUserRequest,
+  ISODateTime,
+  Result
+} from '../types';
+import { staffStore, sessionStore } from '../data/store';
+
+/** Auth error codes */
+export enum AuthErrorCode {
+  UNAUTHENTICATED = 'UNAUTHENTICATED',
+  SESSION_EXPIRED = 'SESSION_EXPIRED',
+  INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
+  FORBIDDEN = 'FORBIDDEN',
+  USER_NOT_FOUND = 'USER_NOT_FOUND',
+  USERNAME_TAKEN = 'USERNAME_TAKEN',
+  INVALID_USERNAME = 'INVALID_USERNAME',
+  INVALID_NAME = 'INVALID_NAME',
+  INVALID_ROLE = 'INVALID_ROLE',
+  WEAK_PASSWORD = 'WEAK_PASSWORD'
+}
+
+/** Sessions last one long shift */
+export const SESSION_TTL_HOURS = 12;
+
+/** Shortest accepted password */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** Username of the account created on first start */
+export const BOOTSTRAP_ADMIN_USERNAME = 'admin';
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+const SCRYPT_KEY_LENGTH = 64;
+
+/** Everything front-of-house staff do during service */
+const FLOOR_PERMISSIONS: Permission[] = [
+  Permission.VIEW_FLOOR,
+  Permission.UPDATE_RESERVATION_STATUS,
+  Permission.MANAGE_WALK_INS
+];
+
+/** Permissions granted to each role */
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  [StaffRole.SERVER]: FLOOR_PERMISSIONS,
+  [StaffRole.HOST]: [
+    ...FLOOR_PERMISSIONS,
+    Permission.MANAGE_RESERVATIONS,
+    Permission.CANCEL_RESERVATIONS
+  ],
+  [StaffRole.MANAGER]: [
+    ...FLOOR_PERMISSIONS,
+    Permission.MANAGE_RESERVATIONS,
+    Permission.CANCEL_RESERVATIONS,
+    Permission.OVERRIDE_DURATION,
+    Permission.OVERRIDE_PACING,
+    Permission.MARK_NO_SHOW,
+    Permission.MANAGE_TABLES,
+    Permission.MANAGE_WAITERS,
+    Permission.MANAGE_SETTINGS,
+    Permission.VIEW_REPORTS
+  ],
+  [StaffRole.ADMIN]: Object.values(Permission)
+};
+
+/** Session issued at login */
+export interface LoginResult {
+  /** Bearer token for the Authorization header */
+  token: string;
+  expiresAt: ISODateTime;
+  user: StaffProfile;
+}
+
+/**
+ * Checks whether a role grants a permission
+ */
+export function hasPermission(role: StaffRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Gets the permissions granted to a role
+ */
+export function getRolePermissions(role: StaffRole): Permission[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
+
+/**
+ * Hashes a password with a random salt
+ */
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+/**
+ * Checks a password against a stored hash in constant time
+ */
+function verifyPassword(password: string, passwordHash: string): boolean {
+  const [salt, hash] = passwordHash.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Digests a session token for storage and lookup
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Strips the password hash from an account
+ */
+function toProfile(user: StaffUser): StaffProfile {
+  const { passwordHash: _passwordHash, ...profile } = user;
+  return profile;
+}
+
+/**
+ * Builds a failed result for an error code
+ */
+function failure<T>(code: AuthErrorCode): Result<T> {
+  return { success: false, error: { code, message: getErrorMessage(code) } };
+}
+
+/**
+ * Validates the fields shared by account creation and updates
+ */
+function validateAccountFields(request: UpdateStaffUserRequest): AuthErrorCode | undefined {
+  if (request.name !== undefined && request.name.trim().length === 0) {
+    return AuthErrorCode.INVALID_NAME;
+  }
+  if (request.role !== undefined && !Object.values(StaffRole).includes(request.role)) {
+    return AuthErrorCode.INVALID_ROLE;
+  }
+  if (request.password !== undefined && request.password.length < MIN_PASSWORD_LENGTH) {
+    return AuthErrorCode.WEAK_PASSWORD;
+  }
+  return undefined;
+}
+
+/**
+ * Creates a staff account
+ */
+export function createStaffUser(request: CreateStaffUserRequest): Result<StaffProfile> {
+  const username = (request.username ?? '').trim().toLowerCase();
+  if (!USERNAME_PATTERN.test(username)) {
+    return failure(AuthErrorCode.INVALID_USERNAME);
+  }
+
+  const invalid = validateAccountFields({
+    name: request.name ?? '',
+    role: request.role,
+    password: request.password ?? ''
+  });
+  if (invalid) {
+    return failure(invalid);
+  }
+
+  if (staffStore.findByUsername(username)) {
+    return failure(AuthErrorCode.USERNAME_TAKEN);
+  }
+
+  const user = staffStore.create({
+    username,
+    name: request.name.trim(),
+    role: request.role,
+    passwordHash: hashPassword(request.password),
+    active: true
+  });
+
+  return { success: true, data: toProfile(user) };
+}
+
+/**
+ * Updates a staff account
+ * Deactivating an account or changing its password or role ends its sessions.
+ */
+export function updateStaffUser(id: UUID, request: UpdateStaffUserRequest): Result<StaffProfile> {
+  const existing = staffStore.getById(id);
+  if (!existing) {
+    return failure(AuthErrorCode.USER_NOT_FOUND);
+  }
+
+  const invalid = validateAccountFields(request);
+  if (invalid) {
+    return failure(invalid);
+  }
+
+  const updated = staffStore.update(id, {
+    ...(request.name !== undefined && { name: request.name.trim() }),
+    ...(request.role !== undefined && { role: request.role }),
+    ...(request.active !== undefined && { active: request.active }),
+    ...(request.password !== undefined && { passwordHash: hashPassword(request.password) })
+  })!;
+
+  const roleChanged = request.role !== undefined && request.role !== existing.role;
+  if (!updated.active || request.password !== undefined || roleChanged) {
+    sessionStore.findByUserId(id).forEach(s => sessionStore.delete(s.id));
+  }
+
+  return { success: true, data: toProfile(updated) };
+}
+
+/**
+ * Lists staff accounts, by username
+ */
+export function listStaffUsers(): StaffProfile[] {
+  return staffStore.getAll()
+    .map(toProfile)
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+/**
+ * Signs a staff member in, issuing a session token
+ * Unknown users, wrong passwords and inactive accounts fail alike.
+ */
+export function login(request: LoginRequest): Result<LoginResult> {
+  const user = staffStore.findByUsername(request.username ?? '');
+
+  if (!user || !user.active || !verifyPassword(request.password ?? '', user.passwordHash)) {
+    return failure(AuthErrorCode.INVALID_CREDENTIALS);
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 3600000).toISOString();
+  sessionStore.create({ tokenHash: hashToken(token), userId: user.id, expiresAt });
+
+  return { success: true, data: { token, expiresAt, user: toProfile(user) } };
+}
+
+/**
+ * Ends the session of a token
+ */
+export function logout(token: string): Result<void> {
+  const session = sessionStore.findByTokenHash(hashToken(token));
+  if (!session) {
+    return failure(AuthErrorCode.UNAUTHENTICATED);
+  }
+
+  sessionStore.delete(session.id);
+  return { success: true };
+}
+
+/**
+ * Resolves a session token to the signed-in staff member
+ */
+export function authenticate(token: string | undefined, now: Date = new Date()): Result<StaffProfile> {
+  if (!token) {
+    return failure(AuthErrorCode.UNAUTHENTICATED);
+  }
+
+  const session = sessionStore.findByTokenHash(hashToken(token));
+  if (!session) {
+    return failure(AuthErrorCode.UNAUTHENTICATED);
+  }
+
+  if (new Date(session.expiresAt) <= now) {
+    sessionStore.delete(session.id);
+    return failure(AuthErrorCode.SESSION_EXPIRED);
+  }
+
+  const user = staffStore.getById(session.userId);
+  if (!user || !user.active) {
+    sessionStore.delete(session.id);
+    return failure(AuthErrorCode.UNAUTHENTICATED);
+  }
+
+  return { success: true, data: toProfile(user) };
+}
+
+/**
+ * Checks that a staff member may perform an action
+ */
+export function authorize(user: StaffProfile, permission: Permission): Result<StaffProfile> {
+  if (!hasPermission(user.role, permission)) {
+    return {
+      success: false,
+      error: {
+        code: AuthErrorCode.FORBIDDEN,
+        message: getErrorMessage(AuthErrorCode.FORBIDDEN),
+        details: { role: user.role, required: permission }
+      }
+    };
+  }
+
+  return { success: true, data: user };
+}
+
+/**
+ * Creates the first admin account when no staff account exists
+ * Without a configured password a random one is generated and returned once.
+ */
+export function ensureAdminAccount(password?: string): { created: boolean; password?: string } {
+  if (staffStore.count() > 0) {
+    return { created: false };
+  }
+
+  const adminPassword = password || crypto.randomBytes(12).toString('base64url');
+  const result = createStaffUser({
+    username: BOOTSTRAP_ADMIN_USERNAME,
+    name: 'Administrator',
+    role: StaffRole.ADMIN,
+    password: adminPassword
+  });
+  if (!result.success) {
+    throw new Error(`Cannot create admin account: ${result.error!.message}`);
+  }
+
+  return { created: true, password: password ? undefined : adminPassword };
+}
+
+/**
+ * Removes sessions that have run out (runs from the background scheduler)
+ */
+export function cleanupExpiredSessions(now: Date = new Date()): number {
+  return sessionStore.deleteExpired(now);
+}
+
+/**
+ * Gets human-readable error message
+ */
+function getErrorMessage(code: AuthErrorCode): string {
+  const messages: Record<AuthErrorCode, string> = {
+    [AuthErrorCode.UNAUTHENTICATED]: 'Please sign in to continue.',
+    [AuthErrorCode.SESSION_EXPIRED]: 'Your session has expired. Please sign in again.',
+    [AuthErrorCode.INVALID_CREDENTIALS]: 'Incorrect username or password.',
+    [AuthErrorCode.FORBIDDEN]: 'Your role does not allow this action.',
+    [AuthErrorCode.USER_NOT_FOUND]: 'Staff account not found.',
+    [AuthErrorCode.USERNAME_TAKEN]: 'That username is already in use.',
+    [AuthErrorCode.INVALID_USERNAME]: 'Username must be 3-32 characters: letters, digits, dots, dashes or underscores.',
+    [AuthErrorCode.INVALID_NAME]: 'Name is required.',
+    [AuthErrorCode.INVALID_ROLE]: `Role must be one of ${Object.values(StaffRole).join(', ')}.`,
+    [AuthErrorCode.WEAK_PASSWORD]: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`
+  };
+  return messages[code] || 'An unknown error occurred';
+}
@@ -0,0 +1,343 @@
+/**
+ * Tests for Availability Service
+ * Task #1: Reservation Management - Calculating availability
+ * Task #8: Timezone-Safe Scheduling
+ *
+ * Slots follow the venue's per-weekday service periods, interpreted in the
+ * venue's own timezone (so they stay put across DST changes).
+ */
+
+import {
+  getAvailableSlots,
+  getNextAvailableSlot,
+  getAvailabilitySummary,
+  getAvailabilityCalendar,
+  suggestAlternatives
+} from '../services/availabilityService';
+import { updateRestaurantSettings, SettingsErrorCode } from '../services/settingsService';
+import { createHold, createReservation } from '../services/reservationService';
+import { createBlock } from '../services/blockService';
+import {
+  initializeSampleData,
+  resetStores,
+  reservationStore,
+  tableStore
+} from '../data/store';
+import {
+  AlternativeKind,
+  AlternativeSlot,
+  CalendarDayStatus,
+  ReservationStatus,
+  ServicePeriod,
+  TableStatus
+} from '../types';
+
+/** Lunch and dinner service with last seatings */
+const SPLIT_SERVICE: ServicePeriod[] = [
+  { name: 'lunch', open: '12:00', close: '14:30', lastSeating: '14:00' },
+  { name: 'dinner', open: '17:30', close: '22:00', lastSeating: '21:00' }
+];
+
+/** Unique start times of a slot list */
+function startTimes(slots: { startTime: string }[]): string[] {
+  return Array.from(new Set(slots.map(s => s.startTime))).sort();
+}
+
+describe('Availability Service', () => {
+  beforeEach(() => {
+    resetStores();
+    initializeSampleData();
+    updateRestaurantSettings({
+      timezone: 'Europe/Copenhagen',
+      weeklyHours: {
+        monday: [],
+        tuesday: SPLIT_SERVICE,
+        wednesday: SPLIT_SERVICE,
+        thursday: SPLIT_SERVICE,
+        friday: SPLIT_SERVICE,
+        saturday: SPLIT_SERVICE,
+        sunday: SPLIT_SERVICE
+      }
+    });
+  });
+
+  describe('Task #8: Operating hours in the venue timezone', () => {
+    it('should generate slots from local service periods in summer', () => {
+      const result = getAvailableSlots('2027-07-14', 2);
+
+      expect(result.success).toBe(true);
+      const times = startTimes(result.data!);
+      // 12:00 CEST is 10:00 UTC; dinner last seating 21:00 CEST is 19:00 UTC
+      expect(times[0]).toBe('2027-07-14T10:00:00.000Z');
+      expect(times).toContain('2027-07-14T12:00:00.000Z');
+      expect(times).not.toContain('2027-07-14T12:30:00.000Z');
+      expect(times).toContain('2027-07-14T15:30:00.000Z');
+      expect(times[times.length - 1]).toBe('2027-07-14T19:00:00.000Z');
+    });
+
+    it('should keep local opening times in winter', () => {
+      const times = startTimes(getAvailableSlots('2027-01-13', 2).data!);
+
+      // 12:00 CET is 11:00 UTC
+      expect(times[0]).toBe('2027-01-13T11:00:00.000Z');
+      expect(times[times.length - 1]).toBe('2027-01-13T20:00:00.000Z');
+    });
+
+    it('should follow the DST change on the day it happens', () => {
+      // Clocks go forward in the early hours of 2027-03-28; lunch opens at 12:00 CEST
+      const times = startTimes(getAvailableSlots('2027-03-28', 2).data!);
+
+      expect(times[0]).toBe('2027-03-28T10:00:00.000Z');
+    });
+
+    it('should return no slots on a closed weekday', () => {
+      const result = getAvailableSlots('2027-07-12', 2);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.length).toBe(0);
+    });
+
+    it('should find the next slot once the restaurant opens', () => {
+      // Monday morning; closed all Monday, so the next slot is Tuesday lunch
+      const result = getNextAvailableSlot(2, '2027-07-12T08:00:00.000Z');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.startTime).toBe('2027-07-13T10:00:00.000Z');
+    });
+
+    it('should report peak hours in venue-local hours', () => {
+      const table = tableStore.findByNumber(1)!;
+      reservationStore.create({
+        customerId: 'c1',
+        customerName: 'Dinner Guest',
+        partySize: 2,
+        tableId: table.id,
+        startTime: '2027-07-14T17:00:00.000Z', // 19:00 in Copenhagen
+        endTime: '2027-07-14T18:30:00.000Z',
+        status: ReservationStatus.CONFIRMED,
+        isWalkIn: false,
+        timezone: 'Europe/Copenhagen',
+        version: 1
+      });
+
+      const result = getAvailabilitySummary('2027-07-14');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.bookedSlots).toBe(1);
+      expect(result.data!.peakHours[0]).toEqual({ hour: 19, bookings: 1 });
+    });
+  });
+
+  describe('Timed holds', () => {
+    it('should count a held table as unavailable', async () => {
+      const table = tableStore.findByNumber(1)!;
+      const hold = await createHold({
+        customerName: 'Online Booking',
+        partySize: 2,
+        startTime: '2027-07-14T10:00:00.000Z',
+        preferredTableId: table.id
+      });
+      expect(hold.success).toBe(true);
+
+      const slots = getAvailableSlots('2027-07-14', 2).data!;
+      const heldSlot = slots.filter(s => s.startTime === '2027-07-14T10:00:00.000Z');
+
+      expect(heldSlot.length).toBeGreaterThan(0);
+      expect(heldSlot.map(s => s.tableId)).not.toContain(table.id);
+    });
+  });
+
+  describe('Duration rules', () => {
+    it('should end each slot when the duration rules for its service period say', () => {
+      updateRestaurantSettings({
+        durationPolicy: { defaultMinutes: 90, rules: [{ maxPartySize: 2, servicePeriod: 'lunch', minutes: 75 }] }
+      });
+
+      const slots = getAvailableSlots('2027-07-14', 2).data!;
+      const lunch = slots.find(s => s.startTime === '2027-07-14T10:00:00.000Z')!;
+      const dinner = slots.find(s => s.startTime === '2027-07-14T16:00:00.000Z')!;
+
+      expect(lunch.endTime).toBe('2027-07-14T11:15:00.000Z');
+      expect(dinner.endTime).toBe('2027-07-14T17:30:00.000Z');
+    });
+  });
+
+  describe('Kitchen pacing', () => {
+    it('should drop slots whose pacing window is full for the service period', async () => {
+      updateRestaurantSettings({ pacing: { byServicePeriod: { lunch: { maxParties: 1 } } } });
+      await createHold({ customerName: 'Early Lunch', partySize: 2, startTime: '2027-07-14T10:00:00.000Z' });
+      await createHold({ customerName: 'Early Dinner', partySize: 2, startTime: '2027-07-14T16:00:00.000Z' });
+
+      const times = startTimes(getAvailableSlots('2027-07-14', 2).data!);
+
+      expect(times).not.toContain('2027-07-14T10:00:00.000Z');
+      expect(times).toContain('2027-07-14T10:30:00.000Z');
+      expect(times).toContain('2027-07-14T16:00:00.000Z');
+    });
+  });
+
+  describe('Alternatives to a fully booked time', () => {
+    /** 19:00 CEST on a Wednesday */
+    const DINNER_TIME = '2027-07-14T17:00:00.000Z';
+
+    /** Leaves only the given tables in service and books table 1 at dinner time */
+    async function bookOnlyTable(...inService: number[]): Promise<void> {
+      tableStore.getAll()
+        .filter(t => !inService.includes(t.number))
+        .forEach(t => tableStore.update(t.id, { status: TableStatus.OUT_OF_SERVICE }));
+      await createReservation({
+        customerName: 'First In',
+        partySize: 2,
+        startTime: DINNER_TIME,
+        preferredTableId: tableStore.findByNumber(1)!.id
+      });
+    }
+
+    it('should rank nearby times, then the same time on adjacent days', async () => {
+      await bookOnlyTable(1);
+
+      const result = await createReservation({ customerName: 'Too Late', partySize: 2, startTime: DINNER_TIME });
+
+      expect(result.error?.code).toBe('NO_AVAILABILITY');
+      const alternatives = result.error!.details!.alternatives as AlternativeSlot[];
+      expect(alternatives.map(a => [a.kind, a.startTime])).toEqual([
+        // Dinner opens 17:30 CEST; the booking holds the table until 20:30 CEST
+        [AlternativeKind.EARLIER, '2027-07-14T15:30:00.000Z'],
+        [AlternativeKind.LATER, '2027-07-14T18:30:00.000Z'],
+        [AlternativeKind.LATER, '2027-07-14T19:00:00.000Z'],
+        // Last lunch seating
+        [AlternativeKind.EARLIER, '2027-07-14T12:00:00.000Z'],
+        [AlternativeKind.ADJACENT_DAY, '2027-07-13T17:00:00.000Z'],
+        [AlternativeKind.ADJACENT_DAY, '2027-07-15T17:00:00.000Z']
+      ]);
+      expect(alternatives[0].minutesFromRequested).toBe(-90);
+    });
+
+    it('should suggest combined tables on adjacent days to a party no single table seats', async () => {
+      // Only the pushed-together 2-tops of the main banquette can seat eight
+      tableStore.getAll()
+        .filter(t => t.number > 4)
+        .forEach(t => tableStore.update(t.id, { status: TableStatus.OUT_OF_SERVICE }));
+      const first = await createReservation({ customerName: 'Big Table', partySize: 8, startTime: DINNER_TIME });
+      expect(first.data!.combinedTableIds).toHaveLength(4);
+
+      const adjacent = suggestAlternatives(DINNER_TIME, 8).filter(a => a.kind === AlternativeKind.ADJACENT_DAY);
+
+      expect(adjacent.map(a => [a.startTime, a.combinedTableNumbers])).toEqual([
+        ['2027-07-13T17:00:00.000Z', [1, 2, 3, 4]],
+        ['2027-07-15T17:00:00.000Z', [1, 2, 3, 4]]
+      ]);
+    });
+
+    it('should suggest the nearest time in a section not offered yet', async () => {
+      await bookOnlyTable(1, 6);
+      createBlock({
+        section: 'Patio',
+        startTime: '2027-07-14T10:00:00.000Z',
+        endTime: '2027-07-14T18:45:00.000Z',
+        reason: 'Private party'
+      });
+
+      const alternatives = suggestAlternatives(DINNER_TIME, 2);
+
+      const patio = alternatives.filter(a => a.section === 'Patio');
+      expect(patio.map(a => [a.kind, a.startTime])).toEqual([
+        [AlternativeKind.OTHER_SECTION, '2027-07-14T19:00:00.000Z']
+      ]);
+      const nearby = alternatives.filter(a => a.kind === AlternativeKind.EARLIER || a.kind === AlternativeKind.LATER);
+      expect(nearby.every(a => a.section === 'Main')).toBe(true);
+    });
+  });
+
+  describe('Month calendar', () => {
+    /** Blocks both sections of the floor for a range of a day */
+    function blockFloor(startTime: string, endTime: string): void {
+      for (const section of ['Main', 'Patio']) {
+        createBlock({ section, startTime, endTime, reason: 'Private event' });
+      }
+    }
+
+    it('should count the same start times as the day-by-day slots', async () => {
+      await createHold({ customerName: 'Booked', partySize: 2, startTime: '2027-07-14T17:00:00.000Z' });
+
+      const calendar = getAvailabilityCalendar('2027-07', 2).data!;
+
+      expect(calendar).toHaveLength(31);
+      for (const day of calendar) {
+        expect(day.availableStartTimes).toBe(startTimes(getAvailableSlots(day.date, 2).data!).length);
+      }
+      // Five lunch and eight dinner start times
+      expect(calendar.find(d => d.date === '2027-07-14')).toEqual({
+        date: '2027-07-14', status: CalendarDayStatus.OPEN, availableStartTimes: 13, totalStartTimes: 13
+      });
+    });
+
+    it('should mark closed, full and limited days', () => {
+      createBlock({ date: '2027-07-14', reason: 'Holiday' });
+      blockFloor('2027-07-15T00:00:00.000Z', '2027-07-16T00:00:00.000Z');
+      blockFloor('2027-07-16T14:00:00.000Z', '2027-07-17T00:00:00.000Z');
+
+      const status = (date: string) => getAvailabilityCalendar('2027-07', 2).data!.find(d => d.date === date)!;
+
+      // Mondays are closed
+      expect(status('2027-07-12').status).toBe(CalendarDayStatus.CLOSED);
+      expect(status('2027-07-14').status).toBe(CalendarDayStatus.CLOSED);
+      expect(status('2027-07-15').status).toBe(CalendarDayStatus.FULL);
+      expect(status('2027-07-16')).toMatchObject({
+        status: CalendarDayStatus.LIMITED, availableStartTimes: 5, totalStartTimes: 13
+      });
+    });
+
+    it('should mark days that are over as past, not full', () => {
+      // 22:00 CEST on a Wednesday, after the last dinner seating
+      jest.useFakeTimers({ now: new Date('2027-07-14T20:00:00.000Z') });
+      try {
+        const calendar = getAvailabilityCalendar('2027-07', 2).data!;
+        const status = (date: string) => calendar.find(d => d.date === date)!.status;
+
+        expect(status('2027-07-01')).toBe(CalendarDayStatus.PAST);
+        expect(status('2027-07-12')).toBe(CalendarDayStatus.CLOSED);
+        expect(status('2027-07-14')).toBe(CalendarDayStatus.PAST);
+        expect(status('2027-07-15')).toBe(CalendarDayStatus.OPEN);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject a malformed month', () => {
+      expect(getAvailabilityCalendar('2027-13', 2).error?.code).toBe('INVALID_MONTH');
+    });
+  });
+
+  describe('Task #8: Restaurant settings validation', () => {
+    it('should reject an unknown timezone', () => {
+      const result = updateRestaurantSettings({ timezone: 'Mars/Olympus' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(SettingsErrorCode.INVALID_TIMEZONE);
+    });
+
+    it('should reject overlapping service periods', () => {
+      const result = updateRestaurantSettings({
+        weeklyHours: {
+          friday: [
+            { open: '12:00', close: '15:00' },
+            { open: '14:00', close: '22:00' }
+          ]
+        }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(SettingsErrorCode.INVALID_OPENING_HOURS);
+    });
+
+    it('should reject a last seating after closing', () => {
+      const result = updateRestaurantSettings({
+        weeklyHours: { friday: [{ open: '17:00', close: '22:00', lastSeating: '22:30' }] }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(SettingsErrorCode.INVALID_OPENING_HOURS);
+    });
+  });
+});
@@ -7,6 +7,7 @@
  * - Real-time availability checking
  * - Optimized table suggestions
  * - Prevents overbooking
+ * - Kitchen pacing: caps on the covers and parties starting together
  */
 
 import {
@@ -15,27 +16,193 @@ import {
   TableStatus,
   AvailabilityRequest,
   AvailabilitySlot,
+  AlternativeKind,
+  AlternativeSlot,
+  Block,
+  CalendarDay,
+  CalendarDayStatus,
+  PacingLimit,
   Result
 } from '../types';
-import { reservationStore, tableStore } from '../data/store';
+import {
+  reservationStore,
+  tableStore,
+  blockStore,
+  blockCoversTable,
+  getReservationTableIds,
+  isBlockingReservation,
+  isHoldExpired
+} from '../data/store';
 import {
   calculateEndTime,
   doTimeRangesOverlap,
   isValidTimezone,
-  DEFAULT_TIMEZONE,
-  DEFAULT_DURATION_MINUTES,
   addMinutes,
-  getDayBoundsInTimezone
+  getDayBoundsInTimezone,
+  getZonedDateParts,
+  getLocalDateString,
+  addDaysToDateString,
+  zonedTimeToUtc
 } from '../utils/timezone';
 import { ReservationStatus } from '../types';
+import {
+  getVenueTimezone,
+  getServiceWindows,
+  getServiceWindowsBetween,
+  getSlotStartTimes,
+  isWithinServiceHours,
+  getTurnoverBufferMinutes,
+  getSeatingDuration,
+  getPacingLimit
+} from './settingsService';
+import { findTableCombinations, toCombinationSlot } from '../utils/tableCombinations';
+import { TIMESLOT_BUCKET_MINUTES } from '../utils/locking';
 
 /** Time slot configuration */
 const SLOT_DURATION_MINUTES = 30;
-const OPERATING_HOURS_START = 11; // 11 AM
-const OPERATING_HOURS_END = 22; // 10 PM
+
+/** How far ahead getNextAvailableSlot searches */
+const NEXT_SLOT_SEARCH_DAYS = 7;
+
+/** Nearest free start times suggested on each side of a fully booked one */
+const ALTERNATIVES_PER_SIDE = 2;
+
+/** Share of a day's remaining start times below which the calendar shows it LIMITED */
+const LIMITED_AVAILABILITY_RATIO = 0.5;
+
+/**
+ * Width of a kitchen pacing window; matches the booking lock buckets so that
+ * bookings competing for the same window are serialized
+ */
+export const PACING_INTERVAL_MINUTES = TIMESLOT_BUCKET_MINUTES;
+
+/** Reservations that no longer reach the kitchen */
+const UNPACED_STATUSES = [ReservationStatus.CANCELLED, ReservationStatus.NO_SHOW];
+
+/** Covers and parties starting in one pacing window */
+export interface PacingLoad {
+  /** Start of the window */
+  windowStart: string;
+  covers: number;
+  parties: number;
+}
+
+/**
+ * Gets the covers and parties due to start in the pacing window of a time
+ */
+export function getPacingLoad(startTime: Date | string, excludeReservationId?: UUID): PacingLoad {
+  const intervalMs = PACING_INTERVAL_MINUTES * 60000;
+  const windowStart = new Date(Math.floor(new Date(startTime).getTime() / intervalMs) * intervalMs);
+  const starting = reservationStore
+    .findStartingBetween(windowStart, addMinutes(windowStart, PACING_INTERVAL_MINUTES))
+    .filter(r => r.id !== excludeReservationId && !UNPACED_STATUSES.includes(r.status) && !isHoldExpired(r));
+
+  return {
+    windowStart: windowStart.toISOString(),
+    covers: starting.reduce((sum, r) => sum + r.partySize, 0),
+    parties: starting.length
+  };
+}
+
+/**
+ * Checks whether the kitchen can take another party starting at a time
+ */
+export function isWithinPacing(startTime: Date | string, partySize: number, excludeReservationId?: UUID): boolean {
+  const limit = getPacingLimit(startTime);
+  if (limit.maxCovers === undefined && limit.maxParties === undefined) {
+    return true;
+  }
+
+  return fitsPacingLimit(limit, getPacingLoad(startTime, excludeReservationId), partySize);
+}
+
+/**
+ * Checks whether one more party fits a pacing limit on top of a window's load
+ */
+function fitsPacingLimit(
+  { maxCovers, maxParties }: PacingLimit,
+  load: { covers: number; parties: number },
+  partySize: number
+): boolean {
+  return (maxCovers === undefined || load.covers + partySize <= maxCovers) &&
+    (maxParties === undefined || load.parties + 1 <= maxParties);
+}
+
+/**
+ * Reservations, blocks and pacing load of a time range read once, so that
+ * many slots can be checked without scanning the stores for each
+ */
+interface AvailabilitySnapshot {
+  isTableFree(table: Table, start: Date, end: Date): boolean;
+  isWithinPacing(start: Date, partySize: number): boolean;
+}
+
+/**
+ * Takes an availability snapshot of a time range; answers match
+ * isTableAvailable and isWithinPacing for slots inside the range
+ */
+function createAvailabilitySnapshot(from: Date, to: Date): AvailabilitySnapshot {
+  const reservations = reservationStore.findByTimeRange(from, to);
+  const blocks = blockStore.findOverlapping(from, to);
+  const intervalMs = PACING_INTERVAL_MINUTES * 60000;
+  const windowOf = (time: Date | string) => Math.floor(new Date(time).getTime() / intervalMs) * intervalMs;
+
+  const bookingsByTable = new Map<UUID, { start: number; end: number }[]>();
+  const pacingLoads = new Map<number, { covers: number; parties: number }>();
+  for (const reservation of reservations) {
+    if (isBlockingReservation(reservation)) {
+      for (const tableId of getReservationTableIds(reservation)) {
+        const bookings = bookingsByTable.get(tableId) ?? [];
+        bookings.push({
+          start: new Date(reservation.startTime).getTime(),
+          end: new Date(reservation.endTime).getTime()
+        });
+        bookingsByTable.set(tableId, bookings);
+      }
+    }
+
+    if (!UNPACED_STATUSES.includes(reservation.status) && !isHoldExpired(reservation)) {
+      const window = windowOf(reservation.startTime);
+      const load = pacingLoads.get(window) ?? { covers: 0, parties: 0 };
+      pacingLoads.set(window, { covers: load.covers + reservation.partySize, parties: load.parties + 1 });
+    }
+  }
+
+  const buffers = new Map<UUID, number>();
+  const getBufferMs = (table: Table) => {
+    if (!buffers.has(table.id)) {
+      buffers.set(table.id, getTurnoverBufferMinutes(table) * 60000);
+    }
+    return buffers.get(table.id)!;
+  };
+
+  return {
+    isTableFree(table, start, end) {
+      if (table.status === TableStatus.OUT_OF_SERVICE) {
+        return false;
+      }
+      if (blocks.some(b => blockCoversTable(b, table) && new Date(b.startTime) < end && new Date(b.endTime) > start)) {
+        return false;
+      }
+
+      const bufferMs = getBufferMs(table);
+      return !(bookingsByTable.get(table.id) ?? []).some(b =>
+        b.start < end.getTime() + bufferMs && b.end > start.getTime() - bufferMs);
+    },
+
+    isWithinPacing(start, partySize) {
+      const limit = getPacingLimit(start);
+      if (limit.maxCovers === undefined && limit.maxParties === undefined) {
+        return true;
+      }
+      return fitsPacingLimit(limit, pacingLoads.get(windowOf(start)) ?? { covers: 0, parties: 0 }, partySize);
+    }
+  };
+}
 
 /**
  * Checks if a specific table is available for a time range
+ * (in service, not blocked and free of reservations)
  */
 export function isTableAvailable(
   tableId: UUID,
@@ -48,26 +215,27 @@ export function isTableAvailable(
     return false;
   }
 
-  const overlappingReservations = reservationStore
-    .findByTimeRange(new Date(startTime), new Date(endTime))
-    .filter(r => 
-      r.tableId === tableId &&
-      r.status !== ReservationStatus.CANCELLED &&
-      r.status !== ReservationStatus.COMPLETED &&
-      r.status !== ReservationStatus.NO_SHOW
-    );
+  if (blockStore.findBlockingTable(table, new Date(startTime), new Date(endTime)).length > 0) {
+    return false;
+  }
 
-  return overlappingReservations.length === 0;
+  return reservationStore
+    .findBlockingByTable(tableId, new Date(startTime), new Date(endTime), undefined, getTurnoverBufferMinutes(table))
+    .length === 0;
 }
 
 /**
  * Gets all available time slots for a date
+ * Slots follow the venue's service periods; the date is read as a calendar
+ * day in `timezone` (the venue timezone by default). Without an explicit
+ * duration each slot lasts as long as the duration rules give the party.
  */
 export function getAvailableSlots(
   date: string,
   partySize: number,
-  timezone: string = DEFAULT_TIMEZONE,
-  durationMinutes: number = DEFAULT_DURATION_MINUTES
+  timezone: string = getVenueTimezone(),
+  durationMinutes?: number,
+  experience?: string
 ): Result<AvailabilitySlot[]> {
   if (!isValidTimezone(timezone)) {
     return {
@@ -91,11 +259,13 @@ export function getAvailableSlots(
 
   const { start: dayStart, end: dayEnd } = getDayBoundsInTimezone(date, timezone);
   
-  // Get suitable tables
+  // Get suitable tables; larger parties may still fit at combined tables
   const suitableTables = tableStore.findByCapacity(partySize)
     .filter(t => t.status !== TableStatus.OUT_OF_SERVICE);
+  const combinableTables = tableStore.getAll()
+    .filter(t => t.combinationGroup && t.status !== TableStatus.OUT_OF_SERVICE);
 
-  if (suitableTables.length === 0) {
+  if (suitableTables.length === 0 && combinableTables.length === 0) {
     return {
       success: true,
       data: []
@@ -103,27 +273,34 @@ export function getAvailableSlots(
   }
 
   const slots: AvailabilitySlot[] = [];
-  
-  // Generate time slots for operating hours
-  const operatingStart = new Date(dayStart);
-  operatingStart.setUTCHours(OPERATING_HOURS_START, 0, 0, 0);
-  
-  const operatingEnd = new Date(dayStart);
-  operatingEnd.setUTCHours(OPERATING_HOURS_END, 0, 0, 0);
-
   const now = new Date();
-  let currentSlot = new Date(operatingStart);
 
-  while (currentSlot < operatingEnd) {
-    const slotStart = currentSlot.toISOString();
-    const slotEnd = addMinutes(currentSlot, durationMinutes).toISOString();
+  // One indexed range query for the day; seatings and turnover buffers reach past its edges
+  const snapshot = createAvailabilitySnapshot(addMinutes(dayStart, -24 * 60), addMinutes(dayEnd, 24 * 60));
+
+  // Generate time slots for each service period that falls on the day
+  for (const window of getServiceWindowsBetween(dayStart, dayEnd)) {
+    for (const slotTime of getSlotStartTimes(window, SLOT_DURATION_MINUTES)) {
+      // Skip past time slots and slots belonging to the neighbouring days
+      if (slotTime <= now || slotTime < dayStart || slotTime > dayEnd) {
+        continue;
+      }
+
+      // A fully paced slot is not offered, whatever tables are free
+      if (!snapshot.isWithinPacing(slotTime, partySize)) {
+        continue;
+      }
 
-    // Skip past time slots
-    if (currentSlot > now) {
+      const slotEndTime = addMinutes(slotTime, durationMinutes ?? getSeatingDuration(partySize, slotTime, experience));
+      const slotStart = slotTime.toISOString();
+      const slotEnd = slotEndTime.toISOString();
+
+      let singleTableFree = false;
       for (const table of suitableTables) {
-        const isAvailable = isTableAvailable(table.id, slotStart, slotEnd);
+        const isAvailable = snapshot.isTableFree(table, slotTime, slotEndTime);
         
         if (isAvailable) {
+          singleTableFree = true;
           slots.push({
             tableId: table.id,
             tableNumber: table.number,
@@ -134,9 +311,16 @@ export function getAvailableSlots(
           });
         }
       }
-    }
 
-    currentSlot = addMinutes(currentSlot, SLOT_DURATION_MINUTES);
+      // Offer the best table combination only when no single table fits
+      if (!singleTableFree) {
+        const freeTables = combinableTables.filter(t => snapshot.isTableFree(t, slotTime, slotEndTime));
+        const [best] = findTableCombinations(freeTables, partySize);
+        if (best) {
+          slots.push(toCombinationSlot(best, slotStart, slotEnd));
+        }
+      }
+    }
   }
 
   return { success: true, data: slots };
@@ -144,11 +328,13 @@ export function getAvailableSlots(
 
 /**
  * Gets the next available slot for a party size
+ * Only start times inside the venue's service periods are considered
  */
 export function getNextAvailableSlot(
   partySize: number,
   fromTime: string = new Date().toISOString(),
-  durationMinutes: number = DEFAULT_DURATION_MINUTES
+  durationMinutes?: number,
+  experience?: string
 ): Result<AvailabilitySlot | null> {
   const suitableTables = tableStore.findByCapacity(partySize)
     .filter(t => t.status !== TableStatus.OUT_OF_SERVICE);
@@ -160,64 +346,242 @@ export function getNextAvailableSlot(
     };
   }
 
-  // Check current time first
-  const now = new Date(fromTime);
-  const endTime = addMinutes(now, durationMinutes);
+  const findTableAt = (start: Date): AvailabilitySlot | null => {
+    if (!isWithinPacing(start, partySize)) {
+      return null;
+    }
 
-  for (const table of suitableTables) {
-    if (isTableAvailable(table.id, now.toISOString(), endTime.toISOString())) {
-      return {
-        success: true,
-        data: {
+    const end = addMinutes(start, durationMinutes ?? getSeatingDuration(partySize, start, experience));
+
+    for (const table of suitableTables) {
+      if (isTableAvailable(table.id, start.toISOString(), end.toISOString())) {
+        return {
           tableId: table.id,
           tableNumber: table.number,
           tableCapacity: table.capacity,
-          startTime: now.toISOString(),
-          endTime: endTime.toISOString(),
+          startTime: start.toISOString(),
+          endTime: end.toISOString(),
           isAvailable: true
+        };
+      }
+    }
+
+    return null;
+  };
+
+  // Check the requested time first
+  const from = new Date(fromTime);
+  if (isWithinServiceHours(from)) {
+    const slot = findTableAt(from);
+    if (slot) {
+      return { success: true, data: slot };
+    }
+  }
+
+  // Then walk the service period slots that follow (starting a day early for periods past midnight)
+  const firstDate = addDaysToDateString(getLocalDateString(from, getVenueTimezone()), -1);
+
+  for (let day = 0; day <= NEXT_SLOT_SEARCH_DAYS + 1; day++) {
+    for (const window of getServiceWindows(addDaysToDateString(firstDate, day))) {
+      for (const slotTime of getSlotStartTimes(window, SLOT_DURATION_MINUTES)) {
+        if (slotTime <= from) continue;
+
+        const slot = findTableAt(slotTime);
+        if (slot) {
+          return { success: true, data: slot };
         }
-      };
+      }
     }
   }
 
-  // Find next available slot
-  let checkTime = addMinutes(now, SLOT_DURATION_MINUTES);
-  const maxSearchHours = 24;
-  const searchEnd = addMinutes(now, maxSearchHours * 60);
+  return { success: true, data: null };
+}
 
-  while (checkTime < searchEnd) {
-    const slotEnd = addMinutes(checkTime, durationMinutes);
-    
-    for (const table of suitableTables) {
-      if (isTableAvailable(table.id, checkTime.toISOString(), slotEnd.toISOString())) {
-        return {
-          success: true,
-          data: {
-            tableId: table.id,
-            tableNumber: table.number,
-            tableCapacity: table.capacity,
-            startTime: checkTime.toISOString(),
-            endTime: slotEnd.toISOString(),
-            isAvailable: true
-          }
-        };
+/**
+ * Suggests bookable alternatives to a fully booked request, ranked:
+ * 1. The nearest start times before and after it on the same day
+ * 2. The nearest start time in each section not offered yet
+ * 3. The same time on the previous and next day
+ * `section` (e.g. of a preferred table) is favoured for same-day times.
+ */
+export function suggestAlternatives(
+  startTime: string,
+  partySize: number,
+  options: { durationMinutes?: number; experience?: string; section?: string } = {}
+): AlternativeSlot[] {
+  const requested = new Date(startTime);
+  const timezone = getVenueTimezone();
+  const localDate = getLocalDateString(requested, timezone);
+
+  const toAlternative = (slot: AvailabilitySlot, kind: AlternativeKind): AlternativeSlot => ({
+    ...slot,
+    kind,
+    section: tableStore.getById(slot.tableId)?.section,
+    minutesFromRequested: Math.round((new Date(slot.startTime).getTime() - requested.getTime()) / 60000)
+  });
+  const distance = (slot: AvailabilitySlot) => Math.abs(new Date(slot.startTime).getTime() - requested.getTime());
+  const preference = (slot: AvailabilitySlot) =>
+    (tableStore.getById(slot.tableId)?.section === options.section ? 0 : 1) * 1000 + slot.tableCapacity;
+
+  // Slots of a venue-local day, single tables and table combinations alike
+  const slotsOn = (date: string) =>
+    getAvailableSlots(date, partySize, timezone, options.durationMinutes, options.experience).data ?? [];
+  const sameDay = slotsOn(localDate).filter(slot => new Date(slot.startTime).getTime() !== requested.getTime());
+
+  // One slot per start time: the preferred section, then the smallest table
+  const bestByTime = (slots: AvailabilitySlot[]) => {
+    const best = new Map<string, AvailabilitySlot>();
+    for (const slot of slots) {
+      const current = best.get(slot.startTime);
+      if (!current || preference(slot) < preference(current)) {
+        best.set(slot.startTime, slot);
       }
     }
+    return best;
+  };
+  const byDistance = Array.from(bestByTime(sameDay).values()).sort((a, b) => distance(a) - distance(b));
+  const earlier = byDistance.filter(slot => new Date(slot.startTime) < requested).slice(0, ALTERNATIVES_PER_SIDE);
+  const later = byDistance.filter(slot => new Date(slot.startTime) > requested).slice(0, ALTERNATIVES_PER_SIDE);
+
+  const alternatives = [
+    ...earlier.map(slot => toAlternative(slot, AlternativeKind.EARLIER)),
+    ...later.map(slot => toAlternative(slot, AlternativeKind.LATER))
+  ].sort((a, b) => Math.abs(a.minutesFromRequested) - Math.abs(b.minutesFromRequested));
+
+  // Every section gets a suggestion, even if its nearest free time is further out
+  const offeredSections = new Set(alternatives.map(a => a.section));
+  for (const slot of [...sameDay].sort((a, b) => distance(a) - distance(b))) {
+    const section = tableStore.getById(slot.tableId)?.section;
+    if (!offeredSections.has(section)) {
+      offeredSections.add(section);
+      alternatives.push(toAlternative(slot, AlternativeKind.OTHER_SECTION));
+    }
+  }
+
+  // The same local time the day before and after
+  const { hour, minute } = getZonedDateParts(requested, timezone);
+  for (const days of [-1, 1]) {
+    const date = addDaysToDateString(localDate, days);
+    const sameTime = zonedTimeToUtc(date, hour * 60 + minute, timezone);
+    if (sameTime <= new Date()) continue;
 
-    checkTime = addMinutes(checkTime, SLOT_DURATION_MINUTES);
+    const slot = bestByTime(slotsOn(date)).get(sameTime.toISOString());
+    if (slot) {
+      alternatives.push(toAlternative(slot, AlternativeKind.ADJACENT_DAY));
+    }
   }
 
-  return { success: true, data: null };
+  return alternatives;
+}
+
+/**
+ * Gets how bookable each day of a month is for a party, in the venue timezone
+ * Start times are those getAvailableSlots offers for the day; reservations and
+ * blocks are read once for the whole month rather than per slot.
+ */
+export function getAvailabilityCalendar(
+  month: string,
+  partySize: number,
+  durationMinutes?: number,
+  experience?: string
+): Result<CalendarDay[]> {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    return {
+      success: false,
+      error: {
+        code: 'INVALID_MONTH',
+        message: 'month must be given as YYYY-MM'
+      }
+    };
+  }
+
+  if (!Number.isInteger(partySize) || partySize < 1 || partySize > 20) {
+    return {
+      success: false,
+      error: {
+        code: 'INVALID_PARTY_SIZE',
+        message: 'Party size must be between 1 and 20'
+      }
+    };
+  }
+
+  const timezone = getVenueTimezone();
+  const firstDate = `${month}-01`;
+  const [year, monthNumber] = month.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  const monthStart = getDayBoundsInTimezone(firstDate, timezone).start;
+  const monthEnd = getDayBoundsInTimezone(addDaysToDateString(firstDate, daysInMonth - 1), timezone).end;
+
+  // Seatings and turnover buffers reach past the month's edges
+  const snapshot = createAvailabilitySnapshot(addMinutes(monthStart, -24 * 60), addMinutes(monthEnd, 24 * 60));
+  const suitableTables = tableStore.findByCapacity(partySize);
+  const combinableTables = tableStore.getAll().filter(t => t.combinationGroup);
+  const closures = blockStore.findOverlapping(monthStart, monthEnd)
+    .filter(b => b.section === undefined && !b.tableIds?.length);
+  const isClosedAt = (time: Date) =>
+    closures.some(b => new Date(b.startTime) <= time && new Date(b.endTime) > time);
+
+  const now = new Date();
+  const days: CalendarDay[] = [];
+
+  for (let day = 0; day < daysInMonth; day++) {
+    const date = addDaysToDateString(firstDate, day);
+    const { start: dayStart, end: dayEnd } = getDayBoundsInTimezone(date, timezone);
+    let serviceStartTimes = 0;
+    let totalStartTimes = 0;
+    let availableStartTimes = 0;
+
+    for (const window of getServiceWindowsBetween(dayStart, dayEnd)) {
+      for (const slotTime of getSlotStartTimes(window, SLOT_DURATION_MINUTES)) {
+        if (slotTime < dayStart || slotTime > dayEnd || isClosedAt(slotTime)) {
+          continue;
+        }
+        serviceStartTimes++;
+
+        if (slotTime <= now) {
+          continue;
+        }
+        totalStartTimes++;
+
+        if (!snapshot.isWithinPacing(slotTime, partySize)) {
+          continue;
+        }
+
+        const slotEnd = addMinutes(slotTime, durationMinutes ?? getSeatingDuration(partySize, slotTime, experience));
+        const bookable = suitableTables.some(t => snapshot.isTableFree(t, slotTime, slotEnd)) ||
+          findTableCombinations(combinableTables.filter(t => snapshot.isTableFree(t, slotTime, slotEnd)), partySize)
+            .length > 0;
+        if (bookable) {
+          availableStartTimes++;
+        }
+      }
+    }
+
+    const status = serviceStartTimes === 0 ? CalendarDayStatus.CLOSED
+      : totalStartTimes === 0 ? CalendarDayStatus.PAST
+      : availableStartTimes === 0 ? CalendarDayStatus.FULL
+      : availableStartTimes < totalStartTimes * LIMITED_AVAILABILITY_RATIO ? CalendarDayStatus.LIMITED
+      : CalendarDayStatus.OPEN;
+
+    days.push({ date, status, availableStartTimes, totalStartTimes });
+  }
+
+  return { success: true, data: days };
 }
 
 /**
  * Gets availability summary for a date
+ * The day counts as closed when restaurant-wide blocks cover all of its
+ * service periods (or the whole day when it has none)
  */
-export function getAvailabilitySummary(date: string, timezone: string = DEFAULT_TIMEZONE): Result<{
+export function getAvailabilitySummary(date: string, timezone: string = getVenueTimezone()): Result<{
   totalTables: number;
   availableNow: number;
   bookedSlots: number;
   peakHours: { hour: number; bookings: number }[];
+  closed: boolean;
+  /** Closures and blocks overlapping the day */
+  blocks: Block[];
 }> {
   if (!isValidTimezone(timezone)) {
     return {
@@ -230,23 +594,37 @@ export function getAvailabilitySummary(date: string, timezone: string = DEFAULT_
   }
 
   const allTables = tableStore.getAll().filter(t => t.status !== TableStatus.OUT_OF_SERVICE);
-  const availableNow = tableStore.findAvailable().length;
+  const now = new Date();
+  const availableNow = tableStore.findAvailable()
+    .filter(t => blockStore.findBlockingTable(t, now, addMinutes(now, 1)).length === 0)
+    .length;
 
   const { start: dayStart, end: dayEnd } = getDayBoundsInTimezone(date, timezone);
+  const blocks = blockStore.findOverlapping(dayStart, dayEnd);
+  const closures = blocks.filter(b => b.section === undefined && !b.tableIds?.length);
+  const isClosedBetween = (from: Date, to: Date) =>
+    closures.some(b => new Date(b.startTime) <= from && new Date(b.endTime) >= to);
+  const serviceWindows = getServiceWindowsBetween(dayStart, dayEnd);
+  const closed = serviceWindows.length > 0
+    ? serviceWindows.every(w => isClosedBetween(w.open, w.close))
+    : isClosedBetween(dayStart, dayEnd);
   const dayReservations = reservationStore.findByTimeRange(dayStart, dayEnd)
     .filter(r => 
       r.status !== ReservationStatus.CANCELLED &&
       r.status !== ReservationStatus.NO_SHOW
     );
 
-  // Calculate peak hours
+  // Calculate peak hours (venue-local hours within the day's service periods)
+  const venueTimezone = getVenueTimezone();
   const hourlyBookings: Record<number, number> = {};
-  for (let h = OPERATING_HOURS_START; h <= OPERATING_HOURS_END; h++) {
-    hourlyBookings[h] = 0;
+  for (const window of getServiceWindows(getLocalDateString(dayStart, venueTimezone))) {
+    for (let t = window.open; t < window.close; t = addMinutes(t, 60)) {
+      hourlyBookings[getZonedDateParts(t, venueTimezone).hour] = 0;
+    }
   }
 
   for (const reservation of dayReservations) {
-    const startHour = new Date(reservation.startTime).getUTCHours();
+    const startHour = getZonedDateParts(reservation.startTime, venueTimezone).hour;
     if (hourlyBookings[startHour] !== undefined) {
       hourlyBookings[startHour]++;
     }
@@ -263,7 +641,9 @@ export function getAvailabilitySummary(date: string, timezone: string = DEFAULT_
       totalTables: allTables.length,
       availableNow,
       bookedSlots: dayReservations.length,
-      peakHours
+      peakHours,
+      closed,
+      blocks
     }
   };
 }
@@ -280,7 +660,7 @@ export function suggestTables(
     quiet?: boolean;
   }
 ): Table[] {
-  const endTime = calculateEndTime(startTime, DEFAULT_DURATION_MINUTES);
+  const endTime = calculateEndTime(startTime, getSeatingDuration(partySize, startTime));
   const availableTables = tableStore.findByCapacity(partySize)
     .filter(t => isTableAvailable(t.id, startTime, endTime));
 
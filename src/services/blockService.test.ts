@@ -0,0 +1,206 @@
+/**
+ * Tests for Block Service
+ * Task #1: Reservation Management
+ *
+ * Closures and blocks keep the restaurant, a section or single tables from
+ * taking parties, and report the reservations they collide with.
+ */
+
+import {
+  createBlock,
+  deleteBlock,
+  getBlockConflicts,
+  getBlocks,
+  BlockErrorCode
+} from '../services/blockService';
+import { createReservation, findAvailableTables } from '../services/reservationService';
+import { getAvailableSlots, getAvailabilitySummary } from '../services/availabilityService';
+import { handleWalkIn } from '../services/walkInService';
+import { updateRestaurantSettings } from '../services/settingsService';
+import { initializeSampleData, resetStores, tableStore } from '../data/store';
+import { TableStatus, WeekdayName } from '../types';
+import { addMinutes } from '../utils/timezone';
+import { clearAllLocks } from '../utils/locking';
+
+const WEEKDAYS: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+/** A Wednesday well in the future */
+const HOLIDAY = '2027-07-14';
+
+/** Numbers of the tables free for a party of two over a time range */
+function freeTableNumbers(startTime: string, endTime: string): number[] {
+  return findAvailableTables(startTime, endTime, 2).map(t => t.number).sort((a, b) => a - b);
+}
+
+describe('Block Service', () => {
+  beforeEach(() => {
+    resetStores();
+    initializeSampleData();
+    clearAllLocks();
+    updateRestaurantSettings({
+      timezone: 'UTC',
+      weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '00:00', close: '24:00' }]]))
+    });
+  });
+
+  describe('Full-day closures', () => {
+    it('should offer no slots on a closed day and report it closed', () => {
+      const result = createBlock({ date: HOLIDAY, reason: 'Bastille Day' });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.block.startTime).toBe('2027-07-14T00:00:00.000Z');
+      expect(result.data!.block.endTime).toBe('2027-07-15T00:00:00.000Z');
+      expect(getAvailableSlots(HOLIDAY, 2).data).toEqual([]);
+      expect(getAvailableSlots('2027-07-15', 2).data!.length).toBeGreaterThan(0);
+
+      const summary = getAvailabilitySummary(HOLIDAY).data!;
+      expect(summary.closed).toBe(true);
+      expect(summary.blocks.map(b => b.reason)).toEqual(['Bastille Day']);
+      expect(getAvailabilitySummary('2027-07-15').data!.closed).toBe(false);
+    });
+
+    it('should refuse reservations on a closed day', async () => {
+      createBlock({ date: HOLIDAY, reason: 'Bastille Day' });
+
+      const result = await createReservation({
+        customerName: 'Holiday Guest',
+        partySize: 2,
+        startTime: '2027-07-14T19:00:00.000Z'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NO_AVAILABILITY');
+    });
+  });
+
+  describe('Section and table blocks', () => {
+    it('should keep a blocked section out of bookings only while the block lasts', () => {
+      createBlock({
+        section: 'Patio',
+        startTime: '2027-07-14T18:00:00.000Z',
+        endTime: '2027-07-14T23:00:00.000Z',
+        reason: 'Private party'
+      });
+
+      const during = findAvailableTables('2027-07-14T19:00:00.000Z', '2027-07-14T20:30:00.000Z', 2);
+      expect(during.some(t => t.section === 'Patio')).toBe(false);
+      expect(during.some(t => t.section === 'Main')).toBe(true);
+
+      const before = findAvailableTables('2027-07-14T12:00:00.000Z', '2027-07-14T13:30:00.000Z', 2);
+      expect(before.some(t => t.section === 'Patio')).toBe(true);
+    });
+
+    it('should block single tables', () => {
+      const table = tableStore.findByNumber(1)!;
+      createBlock({
+        tableIds: [table.id],
+        startTime: '2027-07-14T18:00:00.000Z',
+        endTime: '2027-07-14T20:00:00.000Z',
+        reason: 'Broken chair'
+      });
+
+      expect(freeTableNumbers('2027-07-14T19:00:00.000Z', '2027-07-14T20:30:00.000Z')).not.toContain(1);
+      expect(freeTableNumbers('2027-07-14T20:00:00.000Z', '2027-07-14T21:30:00.000Z')).toContain(1);
+    });
+
+    it('should be lifted again', () => {
+      const created = createBlock({ date: HOLIDAY, reason: 'Bastille Day' });
+
+      expect(deleteBlock(created.data!.block.id).success).toBe(true);
+      expect(getBlocks()).toEqual([]);
+      expect(getAvailableSlots(HOLIDAY, 2).data!.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Conflicting reservations', () => {
+    it('should report the reservations a new block collides with', async () => {
+      const patioTable = tableStore.findByNumber(6)!;
+      const mainTable = tableStore.findByNumber(1)!;
+      const onPatio = await createReservation({
+        customerName: 'Patio Guest', partySize: 2, startTime: '2027-07-14T19:00:00.000Z', preferredTableId: patioTable.id
+      });
+      await createReservation({
+        customerName: 'Main Guest', partySize: 2, startTime: '2027-07-14T19:00:00.000Z', preferredTableId: mainTable.id
+      });
+
+      const result = createBlock({
+        section: 'Patio',
+        startTime: '2027-07-14T18:00:00.000Z',
+        endTime: '2027-07-14T23:00:00.000Z',
+        reason: 'Private party'
+      });
+
+      expect(result.data!.conflicts.map(r => r.id)).toEqual([onPatio.data!.id]);
+      expect(getBlockConflicts(result.data!.block.id).data!.map(r => r.id)).toEqual([onPatio.data!.id]);
+    });
+  });
+
+  describe('Walk-ins', () => {
+    /** Leaves only table 5 free for walk-ins */
+    function occupyAllExceptTableFive(): void {
+      tableStore.getAll()
+        .filter(t => t.number !== 5)
+        .forEach(t => tableStore.update(t.id, { status: TableStatus.OCCUPIED }));
+    }
+
+    it('should end a walk-in seating before a block starts', async () => {
+      occupyAllExceptTableFive();
+      const now = new Date();
+      createBlock({
+        section: 'Main',
+        startTime: addMinutes(now, 70).toISOString(),
+        endTime: addMinutes(now, 300).toISOString(),
+        reason: 'Private party'
+      });
+
+      const result = await handleWalkIn({ customerName: 'Quick Bite', partySize: 2 });
+
+      expect(result.success).toBe(true);
+      const minutesUntilDeadline = (new Date(result.data!.mustLeaveBy!).getTime() - Date.now()) / 60000;
+      expect(Math.round(minutesUntilDeadline)).toBe(70);
+    });
+
+    it('should not seat walk-ins at a blocked table', async () => {
+      occupyAllExceptTableFive();
+      const now = new Date();
+      createBlock({
+        tableIds: [tableStore.findByNumber(5)!.id],
+        startTime: addMinutes(now, -10).toISOString(),
+        endTime: addMinutes(now, 120).toISOString(),
+        reason: 'Wobbly leg'
+      });
+
+      const result = await handleWalkIn({ customerName: 'No Room', partySize: 2 });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require a reason', () => {
+      const result = createBlock({ date: HOLIDAY, reason: '  ' });
+
+      expect(result.error?.code).toBe(BlockErrorCode.REASON_REQUIRED);
+    });
+
+    it('should reject a range that ends before it starts', () => {
+      const result = createBlock({
+        startTime: '2027-07-14T20:00:00.000Z',
+        endTime: '2027-07-14T18:00:00.000Z',
+        reason: 'Backwards'
+      });
+
+      expect(result.error?.code).toBe(BlockErrorCode.INVALID_BLOCK_TIME);
+    });
+
+    it('should reject an unknown section and a section combined with tables', () => {
+      expect(createBlock({ date: HOLIDAY, section: 'Rooftop', reason: 'Party' }).error?.code)
+        .toBe(BlockErrorCode.SECTION_NOT_FOUND);
+      expect(createBlock({
+        date: HOLIDAY, section: 'Patio', tableIds: [tableStore.findByNumber(1)!.id], reason: 'Party'
+      }).error?.code).toBe(BlockErrorCode.INVALID_SCOPE);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Block Service
+ * Task #1: Reservation Management
+ *
+ * Closures and blocks on the floor plan:
+ * - Full-day closures (holidays) and partial-time blocks
+ * - Blocks scoped to the whole restaurant, a section or single tables,
+ *   e.g. the patio for a private party
+ * - A report of the reservations a block collides with
+ *
+ * Blocked tables are left out of bookings, availability and walk-in seating.
+ */
+
+import {
+  UUID,
+  Block,
+  Reservation,
+  ReservationStatus,
+  CreateBlockRequest,
+  Result
+} from '../types';
+import {
+  blockStore,
+  tableStore,
+  reservationStore,
+  blockCoversTable,
+  getReservationTableIds,
+  isHoldExpired,
+  SYSTEM_ACTOR
+} from '../data/store';
+import { zonedTimeToUtc, addDaysToDateString } from '../utils/timezone';
+import { getVenueTimezone, getServiceWindows } from './settingsService';
+import { offerAvailableTables } from './waitlistService';
+
+/** Block error codes */
+export enum BlockErrorCode {
+  BLOCK_NOT_FOUND = 'BLOCK_NOT_FOUND',
+  INVALID_BLOCK_TIME = 'INVALID_BLOCK_TIME',
+  INVALID_SCOPE = 'INVALID_SCOPE',
+  REASON_REQUIRED = 'REASON_REQUIRED',
+  SECTION_NOT_FOUND = 'SECTION_NOT_FOUND',
+  TABLE_NOT_FOUND = 'TABLE_NOT_FOUND'
+}
+
+/** Reservations a new block can collide with */
+const CONFLICTING_STATUSES = [ReservationStatus.PENDING, ReservationStatus.CONFIRMED, ReservationStatus.SEATED];
+
+/** Outcome of adding a block */
+export interface BlockCreation {
+  block: Block;
+  /** Existing reservations on the blocked tables during the block, to be moved or cancelled */
+  conflicts: Reservation[];
+}
+
+/**
+ * Builds a failed result for an error code
+ */
+function failure<T>(code: BlockErrorCode, details?: Record<string, unknown>): Result<T> {
+  return { success: false, error: { code, message: getErrorMessage(code), ...(details && { details }) } };
+}
+
+/**
+ * Gets the span a full-day closure blocks: the venue-local day, stretched
+ * over any service period of that day running past midnight
+ */
+function getClosureBounds(date: string): { start: Date; end: Date } {
+  const timezone = getVenueTimezone();
+  const windows = getServiceWindows(date);
+  const start = zonedTimeToUtc(date, 0, timezone);
+  const end = zonedTimeToUtc(addDaysToDateString(date, 1), 0, timezone);
+
+  return {
+    start,
+    end: new Date(Math.max(end.getTime(), ...windows.map(w => w.close.getTime())))
+  };
+}
+
+/**
+ * Validates a block request and resolves its time range
+ */
+function resolveBlockTimes(request: CreateBlockRequest): Result<{ start: Date; end: Date }> {
+  if (request.date !== undefined) {
+    if (
+      request.startTime !== undefined || request.endTime !== undefined ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(request.date) || isNaN(new Date(`${request.date}T00:00:00Z`).getTime())
+    ) {
+      return failure(BlockErrorCode.INVALID_BLOCK_TIME);
+    }
+    return { success: true, data: getClosureBounds(request.date) };
+  }
+
+  const start = new Date(request.startTime ?? '');
+  const end = new Date(request.endTime ?? '');
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+    return failure(BlockErrorCode.INVALID_BLOCK_TIME);
+  }
+  return { success: true, data: { start, end } };
+}
+
+/**
+ * Validates what a block applies to: a known section or existing tables, not both
+ */
+function validateBlockScope(request: CreateBlockRequest): Result<void> {
+  if (request.tableIds !== undefined) {
+    if (request.section !== undefined || !Array.isArray(request.tableIds) || request.tableIds.length === 0) {
+      return failure(BlockErrorCode.INVALID_SCOPE);
+    }
+    const missing = request.tableIds.filter(id => !tableStore.getById(id));
+    if (missing.length > 0) {
+      return failure(BlockErrorCode.TABLE_NOT_FOUND, { tableIds: missing });
+    }
+  }
+
+  if (request.section !== undefined && !tableStore.getAll().some(t => t.section === request.section)) {
+    return failure(BlockErrorCode.SECTION_NOT_FOUND, { section: request.section });
+  }
+
+  return { success: true };
+}
+
+/**
+ * Gets the blocks overlapping a time range (every block when no range is given)
+ */
+export function getBlocks(from?: string, to?: string): Block[] {
+  const start = from ? new Date(from) : new Date(0);
+  const end = to ? new Date(to) : new Date(8.64e15);
+  return blockStore.findOverlapping(start, end);
+}
+
+/**
+ * Gets the reservations a block collides with: those still to be served or
+ * seated on a blocked table while the block lasts
+ */
+export function findBlockConflicts(block: Block): Reservation[] {
+  return reservationStore.findByTimeRange(new Date(block.startTime), new Date(block.endTime))
+    .filter(r =>
+      CONFLICTING_STATUSES.includes(r.status) &&
+      !isHoldExpired(r) &&
+      getReservationTableIds(r).some(id => {
+        const table = tableStore.getById(id);
+        return table !== undefined && blockCoversTable(block, table);
+      })
+    )
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+}
+
+/**
+ * Adds a closure or block
+ * Existing reservations are kept; the ones the block collides with are reported.
+ */
+export function createBlock(request: CreateBlockRequest, actor: string = SYSTEM_ACTOR): Result<BlockCreation> {
+  const reason = typeof request.reason === 'string' ? request.reason.trim() : '';
+  if (!reason) {
+    return failure(BlockErrorCode.REASON_REQUIRED);
+  }
+
+  const times = resolveBlockTimes(request);
+  if (!times.success) {
+    return { success: false, error: times.error };
+  }
+
+  const scope = validateBlockScope(request);
+  if (!scope.success) {
+    return scope as Result<BlockCreation>;
+  }
+
+  const block = blockStore.create({
+    startTime: times.data!.start.toISOString(),
+    endTime: times.data!.end.toISOString(),
+    section: request.section,
+    tableIds: request.tableIds,
+    reason,
+    date: request.date,
+    createdBy: actor
+  });
+
+  return { success: true, data: { block, conflicts: findBlockConflicts(block) } };
+}
+
+/**
+ * Gets the reservations an existing block collides with
+ */
+export function getBlockConflicts(id: UUID): Result<Reservation[]> {
+  const block = blockStore.getById(id);
+  if (!block) {
+    return failure(BlockErrorCode.BLOCK_NOT_FOUND);
+  }
+  return { success: true, data: findBlockConflicts(block) };
+}
+
+/**
+ * Lifts a block; freed tables are offered to the waitlist
+ */
+export function deleteBlock(id: UUID): Result<Block> {
+  const block = blockStore.getById(id);
+  if (!block) {
+    return failure(BlockErrorCode.BLOCK_NOT_FOUND);
+  }
+
+  blockStore.delete(id);
+  offerAvailableTables();
+
+  return { success: true, data: block };
+}
+
+/**
+ * Gets human-readable error message
+ */
+function getErrorMessage(code: BlockErrorCode): string {
+  const messages: Record<BlockErrorCode, string> = {
+    [BlockErrorCode.BLOCK_NOT_FOUND]: 'Block not found.',
+    [BlockErrorCode.INVALID_BLOCK_TIME]:
+      'Give either a date (YYYY-MM-DD) or a startTime before an endTime.',
+    [BlockErrorCode.INVALID_SCOPE]: 'Block either a section or a non-empty list of tables, not both.',
+    [BlockErrorCode.REASON_REQUIRED]: 'A reason is required for a block.',
+    [BlockErrorCode.SECTION_NOT_FOUND]: 'No table is in this section.',
+    [BlockErrorCode.TABLE_NOT_FOUND]: 'Some of the tables were not found.'
+  };
+  return messages[code] || 'An unknown error occurred';
+}
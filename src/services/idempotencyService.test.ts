@@ -0,0 +1,136 @@
+/**
+ * Tests for Idempotency Service
+ * Task #3: System Reliability and Usability
+ *
+ * A retried create request with the same Idempotency-Key gets the first
+ * outcome back instead of creating a second booking.
+ */
+
+import {
+  runIdempotent,
+  cleanupExpiredIdempotencyRecords,
+  IdempotencyErrorCode,
+  IDEMPOTENCY_TTL_HOURS
+} from '../services/idempotencyService';
+import { createReservation } from '../services/reservationService';
+import { handleWalkIn } from '../services/walkInService';
+import { updateRestaurantSettings } from '../services/settingsService';
+import { initializeSampleData, resetStores, reservationStore, customerStore } from '../data/store';
+import { Result, WeekdayName } from '../types';
+import { clearAllLocks } from '../utils/locking';
+
+const WEEKDAYS: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+const BOOKING = {
+  customerName: 'Flaky Tablet',
+  customerPhone: '555-0199',
+  partySize: 2,
+  startTime: new Date(Date.now() + 3600000).toISOString()
+};
+
+/** Books the standard request under an idempotency key */
+function book(key: string | undefined, request: typeof BOOKING = BOOKING) {
+  return runIdempotent('create-reservation', key, request, () => createReservation(request));
+}
+
+describe('Idempotency Service', () => {
+  beforeEach(() => {
+    resetStores();
+    initializeSampleData();
+    clearAllLocks();
+    updateRestaurantSettings({
+      weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '00:00', close: '24:00' }]]))
+    });
+  });
+
+  it('should replay the first outcome for a retry with the same key and body', async () => {
+    const first = await book('key-1');
+    const retry = await book('key-1');
+
+    expect(first.replayed).toBe(false);
+    expect(retry.replayed).toBe(true);
+    expect(retry.result).toEqual(first.result);
+    expect(reservationStore.count()).toBe(1);
+    expect(customerStore.count()).toBe(1);
+  });
+
+  it('should treat bodies with the same fields in another order as the same request', async () => {
+    await book('key-1');
+    const { customerName, ...rest } = BOOKING;
+
+    const retry = await book('key-1', { ...rest, customerName });
+
+    expect(retry.replayed).toBe(true);
+  });
+
+  it('should reject reusing a key for a different request', async () => {
+    await book('key-1');
+
+    const other = await book('key-1', { ...BOOKING, partySize: 4 });
+
+    expect(other.result.success).toBe(false);
+    expect(other.result.error?.code).toBe(IdempotencyErrorCode.IDEMPOTENCY_KEY_REUSED);
+    expect(reservationStore.count()).toBe(1);
+  });
+
+  it('should book once when the retry arrives while the first attempt is running', async () => {
+    const [first, retry] = await Promise.all([book('key-1'), book('key-1')]);
+
+    expect(first.result.success).toBe(true);
+    expect(retry.replayed).toBe(true);
+    expect(retry.result.data).toEqual(first.result.data);
+    expect(reservationStore.count()).toBe(1);
+  });
+
+  it('should run every request without a key', async () => {
+    await book(undefined);
+    await book(undefined);
+
+    expect(reservationStore.count()).toBe(2);
+  });
+
+  it('should keep keys of different operations apart', async () => {
+    const walkIn = { customerName: 'Walk-in Retry', partySize: 2 };
+
+    await book('key-1');
+    const seated = await runIdempotent('walk-in', 'key-1', walkIn, () => handleWalkIn(walkIn));
+    const walkInRetry = await runIdempotent('walk-in', 'key-1', walkIn, () => handleWalkIn(walkIn));
+
+    expect(seated.replayed).toBe(false);
+    expect(walkInRetry.replayed).toBe(true);
+    expect(reservationStore.count()).toBe(2);
+  });
+
+  it('should not replay transient failures', async () => {
+    const busy: Result<string> = { success: false, error: { code: 'LOCK_TIMEOUT', message: 'busy' } };
+    const operation = jest.fn()
+      .mockResolvedValueOnce(busy)
+      .mockResolvedValueOnce({ success: true, data: 'booked' });
+
+    const first = await runIdempotent('test', 'key-1', {}, operation);
+    const retry = await runIdempotent('test', 'key-1', {}, operation);
+
+    expect(first.result.success).toBe(false);
+    expect(retry.replayed).toBe(false);
+    expect(retry.result.data).toBe('booked');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should forget keys after the replay window', async () => {
+    await book('key-1');
+
+    const removed = cleanupExpiredIdempotencyRecords(new Date(Date.now() + (IDEMPOTENCY_TTL_HOURS + 1) * 3600000));
+
+    expect(removed).toBe(1);
+    expect((await book('key-1', { ...BOOKING, partySize: 4 })).replayed).toBe(false);
+  });
+
+  it('should reject an overlong key', async () => {
+    const result = await book('k'.repeat(300));
+
+    expect(result.result.error?.code).toBe(IdempotencyErrorCode.INVALID_IDEMPOTENCY_KEY);
+    expect(reservationStore.count()).toBe(0);
+  });
+});
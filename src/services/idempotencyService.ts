@@ -0,0 +1,165 @@
+/**
+ * Idempotency Service
+ * Task #3: System Reliability and Usability
+ *
+ * Makes create requests safe to retry:
+ * - The first outcome for an Idempotency-Key is stored for a replay window
+ * - Retries with the same key and body get the stored outcome, not a second booking
+ * - Reusing a key for a different body is rejected
+ *
+ * A key is processed under its own lock, so a retry arriving while the first
+ * attempt is still running waits for it and then replays its outcome.
+ */
+
+import crypto from 'crypto';
+import { Result } from '../types';
+import { idempotencyStore } from '../data/store';
+import { withQueuedLocks, LockErrorCode, DEFAULT_LOCK_WAIT_MS } from '../utils/locking';
+
+/** Idempotency error codes */
+export enum IdempotencyErrorCode {
+  INVALID_IDEMPOTENCY_KEY = 'INVALID_IDEMPOTENCY_KEY',
+  IDEMPOTENCY_KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED',
+  IDEMPOTENCY_IN_PROGRESS = 'IDEMPOTENCY_IN_PROGRESS'
+}
+
+/** Outcomes are replayed for a day */
+export const IDEMPOTENCY_TTL_HOURS = 24;
+
+/**
+ * A retry waits for the first attempt at most this long: long enough for an
+ * attempt that itself had to wait the longest for its booking locks
+ */
+const IDEMPOTENCY_WAIT_MS = 2 * DEFAULT_LOCK_WAIT_MS;
+
+/** Longest accepted key */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Failures worth retrying for real: replaying them would keep a retry from
+ * ever succeeding
+ */
+const TRANSIENT_ERROR_CODES = ['LOCK_TIMEOUT', 'STALE_FENCING_TOKEN', 'CONCURRENT_MODIFICATION'];
+
+/** Outcome of an idempotent operation */
+export interface IdempotentResult<T> {
+  result: Result<T>;
+  /** True when the stored outcome of an earlier request was returned */
+  replayed: boolean;
+}
+
+/**
+ * Serializes a value with object keys sorted, so equal bodies hash equally
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hashes a request body
+ */
+function hashRequest(request: unknown): string {
+  return crypto.createHash('sha256').update(canonicalize(request)).digest('hex');
+}
+
+/**
+ * Runs an operation at most once per key
+ * Without a key the operation simply runs.
+ */
+export async function runIdempotent<T>(
+  scope: string,
+  key: string | undefined,
+  request: unknown,
+  operation: () => Promise<Result<T>>
+): Promise<IdempotentResult<T>> {
+  if (key === undefined) {
+    return { result: await operation(), replayed: false };
+  }
+
+  if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return { result: failure(IdempotencyErrorCode.INVALID_IDEMPOTENCY_KEY), replayed: false };
+  }
+
+  const requestHash = hashRequest(request);
+
+  const locked = await withQueuedLocks([{ type: 'idempotency', id: `${scope}:${key}` }], async fencing => {
+    const now = new Date();
+    let existing = idempotencyStore.findByKey(scope, key);
+
+    // Past the replay window the key is free again
+    if (existing && new Date(existing.expiresAt) <= now) {
+      idempotencyStore.delete(existing.id, { fencing });
+      existing = undefined;
+    }
+
+    if (existing) {
+      if (existing.requestHash !== requestHash) {
+        return { result: failure<T>(IdempotencyErrorCode.IDEMPOTENCY_KEY_REUSED), replayed: false };
+      }
+      return { result: existing.result as Result<T>, replayed: true };
+    }
+
+    const result = await operation();
+
+    if (!TRANSIENT_ERROR_CODES.includes(result.error?.code ?? '')) {
+      idempotencyStore.create({
+        scope,
+        key,
+        requestHash,
+        result,
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_TTL_HOURS * 3600000).toISOString()
+      }, { fencing });
+    }
+
+    return { result, replayed: false };
+  }, { maxWaitMs: IDEMPOTENCY_WAIT_MS, backoff: true });
+
+  if (!locked.success) {
+    if (locked.error === LockErrorCode.LOCK_TIMEOUT) {
+      // The first attempt is still running after the longest wait
+      return { result: failure(IdempotencyErrorCode.IDEMPOTENCY_IN_PROGRESS), replayed: false };
+    }
+    throw new Error(locked.error);
+  }
+
+  return locked.result!;
+}
+
+/**
+ * Removes records past their replay window (runs from the background scheduler)
+ */
+export function cleanupExpiredIdempotencyRecords(now: Date = new Date()): number {
+  return idempotencyStore.deleteExpired(now);
+}
+
+/**
+ * Builds a failed result for an error code
+ */
+function failure<T>(code: IdempotencyErrorCode): Result<T> {
+  return { success: false, error: { code, message: getErrorMessage(code) } };
+}
+
+/**
+ * Gets human-readable error message
+ */
+function getErrorMessage(code: IdempotencyErrorCode): string {
+  const messages: Record<IdempotencyErrorCode, string> = {
+    [IdempotencyErrorCode.INVALID_IDEMPOTENCY_KEY]:
+      `Idempotency-Key must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters.`,
+    [IdempotencyErrorCode.IDEMPOTENCY_KEY_REUSED]:
+      'This Idempotency-Key was already used for a different request.',
+    [IdempotencyErrorCode.IDEMPOTENCY_IN_PROGRESS]:
+      'A request with this Idempotency-Key is still being processed. Please retry shortly.'
+  };
+  return messages[code] || 'An unknown error occurred';
+}
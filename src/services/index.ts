@@ -1,3 +1,11 @@
 export * from './reservationService';
 export * from './walkInService';
 export * from './availabilityService';
+export * from './waitlistService';
+export * from './settingsService';
+export * from './noShowService';
+export * from './authService';
+export * from './idempotencyService';
+export * from './tableService';
+export * from './waiterService';
+export * from './blockService';
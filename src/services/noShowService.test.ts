@@ -0,0 +1,168 @@
+/**
+ * Tests for No-Show Service
+ * Task #1: Reservation Management
+ *
+ * Overdue parties are flagged late, then marked NO_SHOW once the grace
+ * period has passed; the table and waiter are freed and the no-show is
+ * counted against the customer.
+ */
+
+import {
+  processLateArrivals,
+  getLateReservations,
+  getCustomerNoShowReport,
+  getNoShowReport
+} from '../services/noShowService';
+import { createReservation, updateReservationStatus } from '../services/reservationService';
+import { updateRestaurantSettings, SettingsErrorCode } from '../services/settingsService';
+import {
+  initializeSampleData,
+  resetStores,
+  reservationStore,
+  tableStore,
+  waiterStore
+} from '../data/store';
+import { Reservation, ReservationStatus, TableStatus, WeekdayName } from '../types';
+import { clearAllLocks } from '../utils/locking';
+
+const WEEKDAYS: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+/** Books a party an hour from now */
+async function bookInAnHour(customerPhone = '555-0150'): Promise<Reservation> {
+  const result = await createReservation({
+    customerName: 'Regular Guest',
+    customerPhone,
+    partySize: 2,
+    startTime: new Date(Date.now() + 3600000).toISOString()
+  });
+  return result.data!;
+}
+
+/** Time the given number of minutes after a reservation's start */
+function minutesAfterStart(reservation: Reservation, minutes: number): Date {
+  return new Date(new Date(reservation.startTime).getTime() + minutes * 60000);
+}
+
+describe('No-Show Service', () => {
+  beforeEach(() => {
+    resetStores();
+    initializeSampleData();
+    clearAllLocks();
+    updateRestaurantSettings({
+      weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '00:00', close: '24:00' }]])),
+      noShowPolicy: { lateAfterMinutes: 5, noShowAfterMinutes: 15 }
+    });
+  });
+
+  describe('Late arrivals', () => {
+    it('should leave parties alone before the late threshold', async () => {
+      const reservation = await bookInAnHour();
+
+      const sweep = processLateArrivals(minutesAfterStart(reservation, 3));
+
+      expect(sweep.flaggedLate).toHaveLength(0);
+      expect(sweep.markedNoShow).toHaveLength(0);
+    });
+
+    it('should flag an overdue party as late once', async () => {
+      const reservation = await bookInAnHour();
+
+      const first = processLateArrivals(minutesAfterStart(reservation, 6));
+      const second = processLateArrivals(minutesAfterStart(reservation, 8));
+
+      expect(first.flaggedLate.map(r => r.id)).toEqual([reservation.id]);
+      expect(second.flaggedLate).toHaveLength(0);
+      expect(getLateReservations().map(r => r.id)).toEqual([reservation.id]);
+      expect(reservationStore.getById(reservation.id)!.status).toBe(ReservationStatus.CONFIRMED);
+    });
+
+    it('should mark the reservation NO_SHOW after the grace period and free table and waiter', async () => {
+      const reservation = await bookInAnHour();
+      expect(tableStore.getById(reservation.tableId!)!.status).toBe(TableStatus.RESERVED);
+
+      const sweep = processLateArrivals(minutesAfterStart(reservation, 16));
+
+      expect(sweep.markedNoShow.map(r => r.id)).toEqual([reservation.id]);
+      expect(reservationStore.getById(reservation.id)!.status).toBe(ReservationStatus.NO_SHOW);
+      expect(tableStore.getById(reservation.tableId!)!.status).toBe(TableStatus.AVAILABLE);
+      expect(waiterStore.getAll().some(w => w.assignedTables.includes(reservation.tableId!))).toBe(false);
+    });
+
+    it('should let the host seat a late party with the version loaded before it was flagged', async () => {
+      const reservation = await bookInAnHour();
+      const loaded = reservationStore.getById(reservation.id)!;
+
+      processLateArrivals(minutesAfterStart(reservation, 6));
+      expect(reservationStore.getById(reservation.id)!.lateSince).toBeDefined();
+
+      const seated = updateReservationStatus(loaded.id, ReservationStatus.SEATED, loaded.version);
+
+      expect(seated.success).toBe(true);
+      expect(seated.data!.status).toBe(ReservationStatus.SEATED);
+    });
+
+    it('should not touch a party that has been seated', async () => {
+      const reservation = await bookInAnHour();
+      updateReservationStatus(reservation.id, ReservationStatus.SEATED, reservation.version);
+
+      const sweep = processLateArrivals(minutesAfterStart(reservation, 30));
+
+      expect(sweep.markedNoShow).toHaveLength(0);
+      expect(reservationStore.getById(reservation.id)!.status).toBe(ReservationStatus.SEATED);
+    });
+
+    it('should follow the configured grace period', async () => {
+      updateRestaurantSettings({ noShowPolicy: { lateAfterMinutes: 10, noShowAfterMinutes: 30 } });
+      const reservation = await bookInAnHour();
+
+      expect(processLateArrivals(minutesAfterStart(reservation, 20)).markedNoShow).toHaveLength(0);
+      expect(processLateArrivals(minutesAfterStart(reservation, 31)).markedNoShow).toHaveLength(1);
+    });
+
+    it('should reject a policy where the no-show comes before the late flag', () => {
+      const result = updateRestaurantSettings({ noShowPolicy: { lateAfterMinutes: 20, noShowAfterMinutes: 10 } });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(SettingsErrorCode.INVALID_NO_SHOW_POLICY);
+    });
+  });
+
+  describe('No-show reporting', () => {
+    it('should report the no-show rate per customer', async () => {
+      const missed = await bookInAnHour();
+      processLateArrivals(minutesAfterStart(missed, 20));
+
+      const kept = await bookInAnHour();
+      const seated = updateReservationStatus(kept.id, ReservationStatus.SEATED, kept.version);
+      updateReservationStatus(kept.id, ReservationStatus.COMPLETED, seated.data!.version);
+
+      const result = getCustomerNoShowReport(missed.customerId);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.reservations).toBe(2);
+      expect(result.data!.noShows).toBe(1);
+      expect(result.data!.noShowRate).toBe(0.5);
+      expect(result.data!.lastNoShowAt).toBeDefined();
+    });
+
+    it('should count no-shows marked by hand', async () => {
+      const reservation = await bookInAnHour('555-0160');
+
+      updateReservationStatus(reservation.id, ReservationStatus.NO_SHOW, reservation.version);
+
+      const report = getNoShowReport();
+      expect(report).toHaveLength(1);
+      expect(report[0].customerId).toBe(reservation.customerId);
+      expect(report[0].noShowRate).toBe(1);
+    });
+
+    it('should return an error for an unknown customer', () => {
+      const result = getCustomerNoShowReport('non-existent-id');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CUSTOMER_NOT_FOUND');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * No-Show Service
+ * Task #1: Reservation Management
+ *
+ * Functionality:
+ * - Flag confirmed reservations as late once the party is overdue
+ * - Mark them NO_SHOW after the grace period (freeing table and waiter)
+ * - Report no-show rates per customer
+ */
+
+import {
+  UUID,
+  Reservation,
+  ReservationStatus,
+  ISODateTime,
+  Result
+} from '../types';
+import { reservationStore, customerStore, noShowStore } from '../data/store';
+import { updateReservationStatus } from './reservationService';
+import { getNoShowPolicy } from './settingsService';
+
+/** Outcome of one late-arrival sweep */
+export interface LateArrivalSweep {
+  flaggedLate: Reservation[];
+  markedNoShow: Reservation[];
+}
+
+/** No-show history of one customer */
+export interface CustomerNoShowReport {
+  customerId: UUID;
+  customerName: string;
+  /** Reservations whose outcome is known (seated, completed or no-show) */
+  reservations: number;
+  noShows: number;
+  /** noShows / reservations, 0 when there is no history */
+  noShowRate: number;
+  lastNoShowAt?: ISODateTime;
+}
+
+/** Reservation outcomes that count towards the no-show rate */
+const RESOLVED_STATUSES = [
+  ReservationStatus.SEATED,
+  ReservationStatus.COMPLETED,
+  ReservationStatus.NO_SHOW
+];
+
+/**
+ * Flags overdue parties as late and marks them NO_SHOW once the grace period passes
+ * Runs from the background scheduler; safe to run repeatedly
+ */
+export function processLateArrivals(now: Date = new Date()): LateArrivalSweep {
+  const policy = getNoShowPolicy();
+  const sweep: LateArrivalSweep = { flaggedLate: [], markedNoShow: [] };
+
+  for (const reservation of reservationStore.findByStatus(ReservationStatus.CONFIRMED)) {
+    if (reservation.isWalkIn) continue;
+
+    const minutesLate = (now.getTime() - new Date(reservation.startTime).getTime()) / 60000;
+
+    if (minutesLate >= policy.noShowAfterMinutes) {
+      const result = updateReservationStatus(reservation.id, ReservationStatus.NO_SHOW, reservation.version);
+      // A failed update means the host changed it meanwhile (e.g. seated the party)
+      if (result.success) {
+        sweep.markedNoShow.push(result.data!);
+      }
+    } else if (minutesLate >= policy.lateAfterMinutes && !reservation.lateSince) {
+      // The late flag keeps the version, so a host working from the loaded
+      // reservation can still seat or update the party
+      const flagged = reservationStore.update(reservation.id, { lateSince: now.toISOString() });
+      if (flagged) {
+        sweep.flaggedLate.push(flagged);
+      }
+    }
+  }
+
+  return sweep;
+}
+
+/**
+ * Gets confirmed reservations whose party is running late
+ */
+export function getLateReservations(): Reservation[] {
+  return reservationStore.findByStatus(ReservationStatus.CONFIRMED)
+    .filter(r => r.lateSince)
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+}
+
+/**
+ * Builds the no-show report of a customer from their reservations and no-show history
+ */
+function buildReport(customerId: UUID, customerName: string): CustomerNoShowReport {
+  const reservations = reservationStore.findByCustomerId(customerId)
+    .filter(r => !r.isWalkIn && RESOLVED_STATUSES.includes(r.status));
+  const noShows = noShowStore.findByCustomerId(customerId)
+    .sort((a, b) => new Date(b.markedAt).getTime() - new Date(a.markedAt).getTime());
+
+  return {
+    customerId,
+    customerName,
+    reservations: reservations.length,
+    noShows: noShows.length,
+    noShowRate: reservations.length > 0 ? noShows.length / reservations.length : 0,
+    lastNoShowAt: noShows[0]?.markedAt
+  };
+}
+
+/**
+ * Gets the no-show report of one customer
+ */
+export function getCustomerNoShowReport(customerId: UUID): Result<CustomerNoShowReport> {
+  const customer = customerStore.getById(customerId);
+
+  if (!customer) {
+    return {
+      success: false,
+      error: {
+        code: 'CUSTOMER_NOT_FOUND',
+        message: `Customer not found: ${customerId}`
+      }
+    };
+  }
+
+  return { success: true, data: buildReport(customer.id, customer.name) };
+}
+
+/**
+ * Gets the no-show reports of every customer with at least one no-show,
+ * highest rate first
+ */
+export function getNoShowReport(): CustomerNoShowReport[] {
+  const customerIds = Array.from(new Set(noShowStore.getAll().map(r => r.customerId)));
+
+  return customerIds
+    .map(id => buildReport(id, customerStore.getById(id)?.name ?? noShowStore.findByCustomerId(id)[0].customerName))
+    .sort((a, b) => b.noShowRate - a.noShowRate || b.noShows - a.noShows);
+}
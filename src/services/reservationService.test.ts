@@ -14,24 +14,51 @@ import {
   checkAvailability,
   getReservation,
   getReservations,
+  updateReservation,
   updateReservationStatus,
   cancelReservation,
   findAvailableTables,
+  createHold,
+  confirmHold,
+  expireHolds,
+  getReservationHistory,
   ReservationErrorCode
 } from '../services/reservationService';
 import {
   initializeSampleData,
   resetStores,
   tableStore,
-  reservationStore
+  reservationStore,
+  reservationEventStore,
+  waiterStore,
+  customerStore,
+  SYSTEM_ACTOR,
+  STALE_FENCING_TOKEN
 } from '../data/store';
-import { ReservationStatus, TableStatus } from '../types';
-import { clearAllLocks } from '../utils/locking';
+import {
+  updateRestaurantSettings,
+  getTurnoverBufferMinutes,
+  SettingsErrorCode
+} from '../services/settingsService';
+import { ReservationStatus, ReservationEventType, TableStatus, WaiterStatus, WeekdayName } from '../types';
+import { clearAllLocks, acquireMultipleLocks, releaseMultipleLocks, getTimeslotLockResources } from '../utils/locking';
+
+const WEEKDAYS: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+/** Opens the restaurant around the clock so tests can book relative to now */
+function openAroundTheClock(): void {
+  updateRestaurantSettings({
+    weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '00:00', close: '24:00' }]]))
+  });
+}
 
 describe('Reservation Service', () => {
   beforeEach(() => {
     resetStores();
     initializeSampleData();
+    openAroundTheClock();
     clearAllLocks();
   });
 
@@ -84,6 +111,30 @@ describe('Reservation Service', () => {
       expect(result.error?.code).toBe(ReservationErrorCode.PAST_TIME);
     });
 
+    it('should reject reservation outside opening hours', async () => {
+      updateRestaurantSettings({
+        timezone: 'Europe/Copenhagen',
+        weeklyHours: { wednesday: [{ name: 'dinner', open: '17:00', close: '22:00', lastSeating: '21:00' }] }
+      });
+
+      // 2027-07-14 is a Wednesday; 19:30 UTC is 21:30 in Copenhagen, past last seating
+      const late = await createReservation({
+        customerName: 'Late Diner',
+        partySize: 2,
+        startTime: '2027-07-14T19:30:00.000Z'
+      });
+      // 17:00 UTC is 19:00 in Copenhagen
+      const onTime = await createReservation({
+        customerName: 'On Time',
+        partySize: 2,
+        startTime: '2027-07-14T17:00:00.000Z'
+      });
+
+      expect(late.success).toBe(false);
+      expect(late.error?.code).toBe(ReservationErrorCode.OUTSIDE_OPERATING_HOURS);
+      expect(onTime.success).toBe(true);
+    });
+
     it('should reject reservation with invalid timezone', async () => {
       const request = {
         customerName: 'John Doe',
@@ -234,5 +285,714 @@ describe('Reservation Service', () => {
       expect(update2.success).toBe(false);
       expect(update2.error?.code).toBe(ReservationErrorCode.CONCURRENT_MODIFICATION);
     });
+
+    it('should not keep a new customer when the fenced reservation write is rejected', async () => {
+      const customers = customerStore.count();
+      const create = jest.spyOn(reservationStore, 'create').mockImplementationOnce(() => {
+        throw new Error(STALE_FENCING_TOKEN);
+      });
+
+      const result = await createReservation({
+        customerName: 'Stale Writer',
+        customerPhone: '555-0199',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+      create.mockRestore();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(STALE_FENCING_TOKEN);
+      expect(customerStore.count()).toBe(customers);
+      expect(customerStore.findByPhone('555-0199')).toBeUndefined();
+    });
+  });
+
+  describe('Task #7: Prevent Race Conditions - Overlapping Start Times', () => {
+    /** Leaves table 8 (a 6-top) as the only table that fits a party of 6 */
+    function onlyTableEightFitsSix(): string {
+      const table = tableStore.findByNumber(8)!;
+      for (const number of [9, 10]) {
+        tableStore.update(tableStore.findByNumber(number)!.id, { status: TableStatus.OUT_OF_SERVICE });
+      }
+      return table.id;
+    }
+
+    /** A quarter-hour boundary at least an hour from now */
+    function nextQuarterHourInAnHour(): number {
+      const quarter = 15 * 60000;
+      return Math.ceil((Date.now() + 3600000) / quarter) * quarter;
+    }
+
+    it('should not double book a table across offset start times', async () => {
+      const tableId = onlyTableEightFitsSix();
+      const base = nextQuarterHourInAnHour();
+      const startTimes = [0, 15, 30, 45, 60].map(m => new Date(base + m * 60000).toISOString());
+
+      const results = await Promise.all(startTimes.map((startTime, i) =>
+        createReservation({ customerName: `Racer ${i}`, partySize: 6, startTime })
+      ));
+
+      // Only one party gets the 6-top; the rest are queued and then seated elsewhere or turned away
+      const booked = reservationStore.findByTableId(tableId)
+        .filter(r => r.status === ReservationStatus.CONFIRMED);
+      expect(booked).toHaveLength(1);
+      expect(results.filter(r => r.success && r.data!.tableId === tableId)).toHaveLength(1);
+
+      // No table ends up with two overlapping bookings
+      for (const table of tableStore.getAll()) {
+        const bookings = reservationStore.findByTableId(table.id);
+        for (const booking of bookings) {
+          const overlapping = reservationStore.findBlockingByTable(
+            table.id, new Date(booking.startTime), new Date(booking.endTime), booking.id
+          );
+          expect(overlapping).toHaveLength(0);
+        }
+      }
+    });
+
+    it('should book the only suitable table once for two concurrent overlapping requests', async () => {
+      const tableId = onlyTableEightFitsSix();
+      // No pushed-together 2-tops either: the 6-top is the only way to seat the party
+      for (const number of [1, 2, 3, 4]) {
+        tableStore.update(tableStore.findByNumber(number)!.id, { status: TableStatus.OUT_OF_SERVICE });
+      }
+      const base = nextQuarterHourInAnHour();
+
+      const results = await Promise.all([0, 30].map((minutes, i) => createReservation({
+        customerName: `Contender ${i}`,
+        partySize: 6,
+        startTime: new Date(base + minutes * 60000).toISOString()
+      })));
+
+      const [winner, queued] = results[0].success ? results : [results[1], results[0]];
+      expect(results.filter(r => r.success)).toHaveLength(1);
+      expect(winner.data!.tableId).toBe(tableId);
+      // The queued request re-checks availability once it gets the locks and fails cleanly
+      expect(queued.error?.code).toBe(ReservationErrorCode.NO_AVAILABILITY);
+      expect(reservationStore.getAll().map(r => r.id)).toEqual([winner.data!.id]);
+    });
+
+    it('should make an overlapping booking wait for the one in flight', async () => {
+      const tableId = onlyTableEightFitsSix();
+      const base = nextQuarterHourInAnHour();
+      // A booking is in flight and holds the buckets of its window
+      const inFlight = getTimeslotLockResources(
+        new Date(base).toISOString(),
+        new Date(base + 90 * 60000).toISOString()
+      );
+      acquireMultipleLocks(inFlight, 'in-flight-booking');
+
+      // A request 15 minutes later overlaps, so it waits its turn
+      const offset = createReservation({
+        customerName: 'Fifteen Minutes Later',
+        partySize: 6,
+        startTime: new Date(base + 15 * 60000).toISOString()
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(reservationStore.findByTableId(tableId)).toHaveLength(0);
+
+      releaseMultipleLocks(inFlight, 'in-flight-booking');
+      const result = await offset;
+
+      expect(result.success).toBe(true);
+      expect(result.data!.tableId).toBe(tableId);
+    });
+
+    it('should queue concurrent bookings instead of rejecting them', async () => {
+      const base = nextQuarterHourInAnHour();
+      const startTimes = [0, 15, 30].map(m => new Date(base + m * 60000).toISOString());
+
+      const results = await Promise.all(startTimes.map((startTime, i) =>
+        createReservation({ customerName: `Rush ${i}`, partySize: 2, startTime })
+      ));
+
+      // Plenty of 2-tops: every request is served, each at its own table
+      expect(results.every(r => r.success)).toBe(true);
+      expect(new Set(results.map(r => r.data!.tableId)).size).toBe(3);
+    });
+  });
+
+  describe('Modify/Reschedule Reservation', () => {
+    it('should reschedule a reservation and keep its table when still free', async () => {
+      const created = await createReservation({
+        customerName: 'Reschedule Me',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+
+      const newStart = new Date(Date.now() + 3 * 3600000).toISOString();
+      const result = await updateReservation(created.data!.id, {
+        startTime: newStart,
+        version: created.data!.version
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.startTime).toBe(newStart);
+      expect(result.data!.tableId).toBe(created.data!.tableId);
+      expect(result.data!.version).toBe(created.data!.version + 1);
+      // Duration is preserved when only the start time changes
+      expect(new Date(result.data!.endTime).getTime() - new Date(newStart).getTime()).toBe(90 * 60000);
+    });
+
+    it('should move the reservation to a requested table', async () => {
+      const created = await createReservation({
+        customerName: 'Table Mover',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+      const target = tableStore.getAll().find(t => t.id !== created.data!.tableId && t.capacity >= 2)!;
+
+      const result = await updateReservation(created.data!.id, {
+        tableId: target.id,
+        version: created.data!.version
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.tableId).toBe(target.id);
+      expect(tableStore.getById(target.id)!.status).toBe(TableStatus.RESERVED);
+      expect(tableStore.getById(created.data!.tableId!)!.status).toBe(TableStatus.AVAILABLE);
+    });
+
+    it('should return a conflict when the requested table is taken', async () => {
+      const startTime = new Date(Date.now() + 3600000).toISOString();
+      const first = await createReservation({ customerName: 'First', partySize: 2, startTime });
+      const second = await createReservation({
+        customerName: 'Second',
+        partySize: 2,
+        startTime: new Date(Date.now() + 5 * 3600000).toISOString()
+      });
+
+      const result = await updateReservation(second.data!.id, {
+        startTime,
+        tableId: first.data!.tableId,
+        version: second.data!.version
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ReservationErrorCode.SLOT_CONFLICT);
+      expect(result.error?.details).toBeDefined();
+      expect(reservationStore.getById(second.data!.id)!.version).toBe(second.data!.version);
+    });
+
+    it('should reject a stale version', async () => {
+      const created = await createReservation({
+        customerName: 'Stale',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+      await updateReservation(created.data!.id, { partySize: 1, version: created.data!.version });
+
+      const result = await updateReservation(created.data!.id, {
+        partySize: 2,
+        version: created.data!.version
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ReservationErrorCode.CONCURRENT_MODIFICATION);
+    });
+
+    it('should not modify a seated reservation', async () => {
+      const created = await createReservation({
+        customerName: 'Seated',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+      const seated = updateReservationStatus(created.data!.id, ReservationStatus.SEATED, created.data!.version);
+
+      const result = await updateReservation(created.data!.id, {
+        partySize: 3,
+        version: seated.data!.version
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ReservationErrorCode.RESERVATION_NOT_MODIFIABLE);
+    });
+  });
+
+  describe('Combining tables for large parties', () => {
+    it('should seat a party larger than any table at combined tables', async () => {
+      const result = await createReservation({
+        customerName: 'Big Birthday',
+        partySize: 12,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+
+      expect(result.success).toBe(true);
+      const numbers = result.data!.combinedTableIds!.map(id => tableStore.getById(id)!.number);
+      expect(numbers).toEqual([8, 9]);
+      expect(result.data!.tableId).toBe(result.data!.combinedTableIds![0]);
+      numbers.forEach(n => expect(tableStore.findByNumber(n)!.status).toBe(TableStatus.RESERVED));
+    });
+
+    it('should block every table of a combination on the timeline', async () => {
+      const startTime = new Date(Date.now() + 3600000).toISOString();
+      const combined = await createReservation({ customerName: 'Big Party', partySize: 12, startTime });
+      const endTime = new Date(Date.now() + 3600000 + 90 * 60000).toISOString();
+
+      const free = findAvailableTables(startTime, endTime, 6).map(t => t.number);
+
+      expect(free).toEqual([10]);
+      expect(combined.data!.combinedTableIds!.length).toBe(2);
+    });
+
+    it('should offer a combined slot when no single table fits', () => {
+      const result = checkAvailability({
+        startTime: new Date(Date.now() + 3600000).toISOString(),
+        partySize: 8
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.length).toBeGreaterThan(0);
+      expect(result.data![0].combinedTableNumbers).toEqual([8, 9]);
+      expect(result.data![0].tableCapacity).toBe(12);
+    });
+
+    it('should free all combined tables when the party leaves', async () => {
+      const created = await createReservation({
+        customerName: 'Big Party',
+        partySize: 12,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+      const seated = updateReservationStatus(created.data!.id, ReservationStatus.SEATED, created.data!.version);
+      created.data!.combinedTableIds!.forEach(id =>
+        expect(tableStore.getById(id)!.status).toBe(TableStatus.OCCUPIED)
+      );
+
+      updateReservationStatus(created.data!.id, ReservationStatus.COMPLETED, seated.data!.version);
+
+      created.data!.combinedTableIds!.forEach(id =>
+        expect(tableStore.getById(id)!.status).toBe(TableStatus.CLEANING)
+      );
+    });
+
+    it('should not combine tables from different groups', async () => {
+      // Take the patio tables; the remaining free seats are spread across groups
+      for (const number of [8, 9, 10]) {
+        tableStore.update(tableStore.findByNumber(number)!.id, { status: TableStatus.OUT_OF_SERVICE });
+      }
+
+      const result = await createReservation({
+        customerName: 'Too Big',
+        partySize: 12,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ReservationErrorCode.NO_AVAILABILITY);
+    });
+  });
+
+  describe('Timed holds', () => {
+    /** Holds table 1 (a 2-top) an hour from now */
+    async function holdTableOne(holdMinutes?: number) {
+      const table = tableStore.findByNumber(1)!;
+      const result = await createHold({
+        customerName: 'On The Phone',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString(),
+        preferredTableId: table.id,
+        holdMinutes
+      });
+      return { table, hold: result.data! };
+    }
+
+    it('should place a PENDING hold that blocks the table', async () => {
+      const { table, hold } = await holdTableOne();
+
+      expect(hold.status).toBe(ReservationStatus.PENDING);
+      expect(hold.tableId).toBe(table.id);
+      const minutesLeft = (new Date(hold.holdExpiresAt!).getTime() - Date.now()) / 60000;
+      expect(Math.round(minutesLeft)).toBe(10);
+      expect(findAvailableTables(hold.startTime, hold.endTime, 2).map(t => t.id)).not.toContain(table.id);
+    });
+
+    it('should reject a hold longer than allowed', async () => {
+      const result = await createHold({
+        customerName: 'Greedy',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString(),
+        holdMinutes: 120
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ReservationErrorCode.INVALID_HOLD_DURATION);
+    });
+
+    it('should confirm a hold with the collected details', async () => {
+      const { hold } = await holdTableOne();
+
+      const result = confirmHold(hold.id, {
+        version: hold.version,
+        customerPhone: '555-0199',
+        notes: 'Window seat'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.status).toBe(ReservationStatus.CONFIRMED);
+      expect(result.data!.holdExpiresAt).toBeUndefined();
+      expect(result.data!.notes).toBe('Window seat');
+      // A confirmed reservation is no longer swept
+      expect(expireHolds(new Date(Date.now() + 60 * 60000))).toHaveLength(0);
+    });
+
+    it('should stop blocking the table once the hold runs out', async () => {
+      const { table, hold } = await holdTableOne();
+      reservationStore.update(hold.id, { holdExpiresAt: new Date(Date.now() - 1000).toISOString() });
+
+      expect(findAvailableTables(hold.startTime, hold.endTime, 2).map(t => t.id)).toContain(table.id);
+      const result = confirmHold(hold.id, { version: hold.version });
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ReservationErrorCode.HOLD_EXPIRED);
+    });
+
+    it('should release expired holds and free their tables', async () => {
+      const { table, hold } = await holdTableOne(5);
+      expect(tableStore.getById(table.id)!.status).toBe(TableStatus.RESERVED);
+
+      // Still running after 4 minutes
+      expect(expireHolds(new Date(Date.now() + 4 * 60000))).toHaveLength(0);
+
+      const released = expireHolds(new Date(Date.now() + 6 * 60000));
+
+      expect(released.map(r => r.id)).toEqual([hold.id]);
+      expect(reservationStore.getById(hold.id)!.status).toBe(ReservationStatus.CANCELLED);
+      expect(tableStore.getById(table.id)!.status).toBe(TableStatus.AVAILABLE);
+    });
+
+    it('should not confirm a regular reservation as a hold', async () => {
+      const created = await createReservation({
+        customerName: 'Already Booked',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+
+      const result = confirmHold(created.data!.id, { version: created.data!.version });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ReservationErrorCode.NOT_A_HOLD);
+    });
+  });
+
+  describe('Turnover buffers', () => {
+    /** Start of a slot tomorrow, offset by whole minutes */
+    const tomorrow = Math.ceil((Date.now() + 24 * 3600000) / 3600000) * 3600000;
+    const at = (minutes: number) => new Date(tomorrow + minutes * 60000).toISOString();
+
+    /** Tables free for a 90-minute seating starting at the offset */
+    const freeTableIdsAt = (minutes: number) =>
+      findAvailableTables(at(minutes), at(minutes + 90), 2).map(t => t.id);
+
+    it('should keep a table free for the buffer after a party', async () => {
+      const first = await createReservation({ customerName: 'Early Sitting', partySize: 2, startTime: at(0) });
+      const tableId = first.data!.tableId!;
+
+      // Without a buffer the table is rebookable the moment the slot ends
+      expect(freeTableIdsAt(90)).toContain(tableId);
+
+      updateRestaurantSettings({ turnoverBuffer: { defaultMinutes: 15 } });
+
+      expect(freeTableIdsAt(90)).not.toContain(tableId);
+      expect(freeTableIdsAt(105)).toContain(tableId);
+      // ... and before the next party arrives
+      expect(freeTableIdsAt(-100)).not.toContain(tableId);
+      expect(freeTableIdsAt(-105)).toContain(tableId);
+    });
+
+    it('should apply the most specific buffer: section, then table size, then default', () => {
+      updateRestaurantSettings({
+        turnoverBuffer: {
+          defaultMinutes: 15,
+          byTableSize: [{ maxCapacity: 4, minutes: 20 }, { maxCapacity: 2, minutes: 10 }],
+          bySection: { Patio: 30 }
+        }
+      });
+
+      expect(getTurnoverBufferMinutes({ capacity: 2, section: 'Main' })).toBe(10);
+      expect(getTurnoverBufferMinutes({ capacity: 4, section: 'Main' })).toBe(20);
+      expect(getTurnoverBufferMinutes({ capacity: 6, section: 'Main' })).toBe(15);
+      expect(getTurnoverBufferMinutes({ capacity: 2, section: 'Patio' })).toBe(30);
+    });
+
+    it('should reject buffers that are not whole minutes in range', () => {
+      const result = updateRestaurantSettings({ turnoverBuffer: { defaultMinutes: 15, bySection: { Patio: -5 } } });
+
+      expect(result.error?.code).toBe(SettingsErrorCode.INVALID_TURNOVER_BUFFER);
+    });
+  });
+
+  describe('Duration rules', () => {
+    /** Tomorrow in UTC at a whole hour */
+    const tomorrowAt = (hour: number) => {
+      const day = new Date(Date.now() + 24 * 3600000);
+      return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour)).toISOString();
+    };
+    const minutesOf = (r: { startTime: string; endTime: string }) =>
+      (new Date(r.endTime).getTime() - new Date(r.startTime).getTime()) / 60000;
+
+    beforeEach(() => {
+      updateRestaurantSettings({
+        timezone: 'UTC',
+        weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, [
+          { name: 'lunch', open: '00:00', close: '15:00' },
+          { name: 'dinner', open: '15:00', close: '24:00' }
+        ]])),
+        durationPolicy: {
+          defaultMinutes: 90,
+          rules: [
+            { experience: 'tasting-menu', minutes: 180 },
+            { maxPartySize: 2, servicePeriod: 'lunch', minutes: 75 },
+            { minPartySize: 6, servicePeriod: 'dinner', minutes: 150 }
+          ]
+        }
+      });
+    });
+
+    it('should size the seating by party size, service period and experience', async () => {
+      const lunchPair = await createReservation({ customerName: 'Lunch Pair', partySize: 2, startTime: tomorrowAt(12) });
+      const dinnerSix = await createReservation({ customerName: 'Dinner Six', partySize: 6, startTime: tomorrowAt(19) });
+      const dinnerPair = await createReservation({ customerName: 'Dinner Pair', partySize: 2, startTime: tomorrowAt(19) });
+      const tasting = await createReservation({
+        customerName: 'Tasting', partySize: 2, startTime: tomorrowAt(12), experience: 'tasting-menu'
+      });
+
+      expect(minutesOf(lunchPair.data!)).toBe(75);
+      expect(minutesOf(dinnerSix.data!)).toBe(150);
+      expect(minutesOf(dinnerPair.data!)).toBe(90);
+      expect(minutesOf(tasting.data!)).toBe(180);
+      expect(tasting.data!.experience).toBe('tasting-menu');
+    });
+
+    it('should apply the policy again when a booking moves to another service period', async () => {
+      const created = await createReservation({ customerName: 'Moving', partySize: 6, startTime: tomorrowAt(12) });
+      expect(minutesOf(created.data!)).toBe(90);
+
+      const moved = await updateReservation(created.data!.id, { startTime: tomorrowAt(19), version: created.data!.version });
+
+      expect(minutesOf(moved.data!)).toBe(150);
+    });
+
+    it('should keep a duration set by hand when the booking is rescheduled', async () => {
+      const created = await createReservation({
+        customerName: 'Long Lunch', partySize: 2, startTime: tomorrowAt(12), durationMinutes: 120
+      });
+      expect(created.data!.durationOverridden).toBe(true);
+
+      const moved = await updateReservation(created.data!.id, { startTime: tomorrowAt(13), version: created.data!.version });
+
+      expect(minutesOf(moved.data!)).toBe(120);
+    });
+
+    it('should reject rules that are not whole minutes in range', () => {
+      const result = updateRestaurantSettings({
+        durationPolicy: { defaultMinutes: 90, rules: [{ minPartySize: 6, maxPartySize: 4, minutes: 120 }] }
+      });
+
+      expect(result.error?.code).toBe(SettingsErrorCode.INVALID_DURATION_POLICY);
+    });
+  });
+
+  describe('Kitchen pacing', () => {
+    /** Start of a slot tomorrow, offset by whole minutes */
+    const tomorrow = Math.ceil((Date.now() + 24 * 3600000) / 3600000) * 3600000;
+    const at = (minutes: number) => new Date(tomorrow + minutes * 60000).toISOString();
+    const book = (partySize: number, minutes: number, pacingOverride?: boolean) =>
+      createReservation({ customerName: `Party of ${partySize}`, partySize, startTime: at(minutes), pacingOverride });
+
+    it('should refuse a booking that would exceed the covers of its 15-minute window', async () => {
+      updateRestaurantSettings({ pacing: { maxCovers: 8 } });
+
+      expect((await book(6, 0)).success).toBe(true);
+      const tooMany = await book(4, 10);
+
+      expect(tooMany.success).toBe(false);
+      expect(tooMany.error?.code).toBe(ReservationErrorCode.PACING_LIMIT_REACHED);
+      expect((await book(4, 15)).success).toBe(true);
+      expect(checkAvailability({ startTime: at(5), partySize: 4 }).data).toEqual([]);
+    });
+
+    it('should let a manager override book past the limit and record it', async () => {
+      updateRestaurantSettings({ pacing: { maxParties: 1 } });
+      await book(2, 0);
+
+      const overridden = await book(2, 0, true);
+
+      expect(overridden.success).toBe(true);
+      expect(overridden.data!.pacingOverridden).toBe(true);
+    });
+
+    it('should check pacing when a booking is rescheduled into a full window', async () => {
+      updateRestaurantSettings({ pacing: { maxParties: 1 } });
+      await book(2, 0);
+      const later = await book(2, 60);
+
+      const moved = await updateReservation(later.data!.id, { startTime: at(0), version: later.data!.version });
+
+      expect(moved.success).toBe(false);
+      expect(moved.error?.code).toBe(ReservationErrorCode.PACING_LIMIT_REACHED);
+      // Its own window does not count against a booking that stays put
+      const grown = await updateReservation(later.data!.id, { partySize: 3, version: later.data!.version });
+      expect(grown.success).toBe(true);
+    });
+
+    it('should reject limits that are not positive whole numbers', () => {
+      const result = updateRestaurantSettings({ pacing: { byServicePeriod: { dinner: { maxCovers: 0 } } } });
+
+      expect(result.error?.code).toBe(SettingsErrorCode.INVALID_PACING_POLICY);
+    });
+  });
+
+  describe('Waiter assignment at seating', () => {
+    /** Books a party an hour from now and seats it */
+    async function bookAndSeat(partySize: number) {
+      const created = await createReservation({
+        customerName: `Party of ${partySize}`,
+        partySize,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+      return updateReservationStatus(created.data!.id, ReservationStatus.SEATED, created.data!.version).data!;
+    }
+
+    it('should not tie up a waiter when booking ahead', async () => {
+      const created = await createReservation({
+        customerName: 'Next Week',
+        partySize: 2,
+        startTime: new Date(Date.now() + 7 * 24 * 3600000).toISOString()
+      });
+
+      expect(created.data!.waiterId).toBeUndefined();
+      expect(waiterStore.getAll().every(w => w.status === WaiterStatus.AVAILABLE)).toBe(true);
+    });
+
+    it('should give a seated party to the waiter with the fewest covers', async () => {
+      const [alice, bob, ...others] = waiterStore.getAll();
+      others.forEach(w => waiterStore.delete(w.id));
+
+      const six = await bookAndSeat(6);
+      const firstPair = await bookAndSeat(2);
+      const secondPair = await bookAndSeat(2);
+
+      expect(six.waiterId).toBe(alice.id);
+      expect(firstPair.waiterId).toBe(bob.id);
+      // Bob has more tables but four covers to Alice's six
+      expect(secondPair.waiterId).toBe(bob.id);
+    });
+
+    it('should release the waiter when the party leaves', async () => {
+      const seated = await bookAndSeat(2);
+      expect(waiterStore.getById(seated.waiterId!)!.status).toBe(WaiterStatus.BUSY);
+
+      updateReservationStatus(seated.id, ReservationStatus.COMPLETED, seated.version);
+
+      const waiter = waiterStore.getById(seated.waiterId!)!;
+      expect(waiter.assignedTables).toHaveLength(0);
+      expect(waiter.status).toBe(WaiterStatus.AVAILABLE);
+    });
+  });
+
+  describe('Audit trail', () => {
+    it('should record who created a reservation', async () => {
+      const created = await createReservation({
+        customerName: 'Audited Guest',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      }, 'host-anna');
+
+      const history = getReservationHistory(created.data!.id);
+
+      expect(history.success).toBe(true);
+      expect(history.data).toHaveLength(1);
+      expect(history.data![0].type).toBe(ReservationEventType.CREATED);
+      expect(history.data![0].actor).toBe('host-anna');
+      expect(history.data![0].version).toBe(1);
+      expect(history.data![0].changes).toContainEqual({
+        field: 'customerName',
+        previous: undefined,
+        current: 'Audited Guest'
+      });
+    });
+
+    it('should record status changes, table moves and cancellations with previous values', async () => {
+      const created = await createReservation({
+        customerName: 'Busy Evening',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      }, 'host-anna');
+      const target = tableStore.getAll().find(t => t.id !== created.data!.tableId && t.capacity >= 2)!;
+
+      const moved = await updateReservation(created.data!.id, {
+        tableId: target.id,
+        version: created.data!.version
+      }, 'manager-bo');
+      cancelReservation(created.data!.id, moved.data!.version, 'host-cy');
+
+      const history = getReservationHistory(created.data!.id).data!;
+
+      expect(history.map(e => e.type)).toEqual([
+        ReservationEventType.CREATED,
+        ReservationEventType.TABLE_CHANGED,
+        ReservationEventType.CANCELLED
+      ]);
+      expect(history.map(e => e.version)).toEqual([1, 2, 3]);
+      expect(history[1].actor).toBe('manager-bo');
+      expect(moved.data!.createdBy).toBe('host-anna');
+      expect(moved.data!.updatedBy).toBe('manager-bo');
+      expect(history[1].changes).toContainEqual({
+        field: 'tableId',
+        previous: created.data!.tableId,
+        current: target.id
+      });
+      expect(history[2].actor).toBe('host-cy');
+      expect(history[2].changes).toContainEqual({
+        field: 'status',
+        previous: ReservationStatus.CONFIRMED,
+        current: ReservationStatus.CANCELLED
+      });
+    });
+
+    it('should attribute background changes to the system', async () => {
+      const hold = await createHold({
+        customerName: 'Lapsed Hold',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString(),
+        holdMinutes: 5
+      }, 'host-anna');
+
+      expireHolds(new Date(Date.now() + 6 * 60000));
+
+      const history = getReservationHistory(hold.data!.id).data!;
+      expect(history[history.length - 1].type).toBe(ReservationEventType.CANCELLED);
+      expect(history[history.length - 1].actor).toBe(SYSTEM_ACTOR);
+    });
+
+    it('should not record failed or empty changes', async () => {
+      const created = await createReservation({
+        customerName: 'Stale Client',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+
+      updateReservationStatus(created.data!.id, ReservationStatus.SEATED, created.data!.version + 5);
+      reservationStore.update(created.data!.id, { notes: created.data!.notes });
+
+      expect(getReservationHistory(created.data!.id).data).toHaveLength(1);
+    });
+
+    it('should keep the history append-only', async () => {
+      const created = await createReservation({
+        customerName: 'Immutable',
+        partySize: 2,
+        startTime: new Date(Date.now() + 3600000).toISOString()
+      });
+      const [event] = getReservationHistory(created.data!.id).data!;
+
+      expect(() => reservationEventStore.delete(event.id)).toThrow('append-only');
+    });
+
+    it('should return an error for an unknown reservation', () => {
+      const result = getReservationHistory('non-existent-id');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ReservationErrorCode.RESERVATION_NOT_FOUND);
+    });
   });
 });
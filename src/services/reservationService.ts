@@ -10,6 +10,7 @@
  * - Check availability and prevent double bookings
  * - Calculate availability for given time slots
  * - Handle concurrent reservation requests safely
+ * - Timed holds (PENDING reservations that expire unless confirmed)
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -19,16 +20,27 @@ import {
   ReservationStatus,
   TableStatus,
   CreateReservationRequest,
+  CreateHoldRequest,
+  ConfirmHoldRequest,
+  UpdateReservationRequest,
   AvailabilityRequest,
   AvailabilitySlot,
   Result,
-  Table
+  Table,
+  ISODateTime,
+  ReservationEvent
 } from '../types';
 import { 
   reservationStore, 
   tableStore, 
   customerStore, 
-  waiterStore 
+  waiterStore,
+  noShowStore,
+  reservationEventStore,
+  blockStore,
+  getReservationTableIds,
+  isHoldExpired,
+  SYSTEM_ACTOR
 } from '../data/store';
 import { 
   nowUTC, 
@@ -37,10 +49,27 @@ import {
   isFutureDateTime,
   isValidTimezone,
   DEFAULT_TIMEZONE,
-  DEFAULT_DURATION_MINUTES,
-  parseDateTime
+  parseDateTime,
+  addMinutes
 } from '../utils/timezone';
-import { acquireLock, releaseLock, withLock } from '../utils/locking';
+import {
+  acquireLock,
+  releaseLock,
+  withQueuedLocks,
+  getTimeslotLockResources,
+  LockResource,
+  LockWaitOptions
+} from '../utils/locking';
+import { findTableCombinations, toCombinationSlot, TableCombination } from '../utils/tableCombinations';
+import { offerTable } from './waitlistService';
+import {
+  isWithinServiceHours,
+  getTurnoverBufferMinutes,
+  getMaxTurnoverBufferMinutes,
+  getSeatingDuration
+} from './settingsService';
+import { findWaiterForService } from './waiterService';
+import { isWithinPacing, suggestAlternatives } from './availabilityService';
 
 /** Validation error codes */
 export enum ReservationErrorCode {
@@ -53,9 +82,37 @@ export enum ReservationErrorCode {
   RESERVATION_NOT_FOUND = 'RESERVATION_NOT_FOUND',
   CONCURRENT_MODIFICATION = 'CONCURRENT_MODIFICATION',
   INVALID_TIMEZONE = 'INVALID_TIMEZONE',
-  INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION'
+  INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION',
+  INVALID_DURATION = 'INVALID_DURATION',
+  RESERVATION_NOT_MODIFIABLE = 'RESERVATION_NOT_MODIFIABLE',
+  SLOT_CONFLICT = 'SLOT_CONFLICT',
+  OUTSIDE_OPERATING_HOURS = 'OUTSIDE_OPERATING_HOURS',
+  INVALID_HOLD_DURATION = 'INVALID_HOLD_DURATION',
+  NOT_A_HOLD = 'NOT_A_HOLD',
+  HOLD_EXPIRED = 'HOLD_EXPIRED',
+  LOCK_TIMEOUT = 'LOCK_TIMEOUT',
+  STALE_FENCING_TOKEN = 'STALE_FENCING_TOKEN',
+  PACING_LIMIT_REACHED = 'PACING_LIMIT_REACHED'
 }
 
+/** Statuses in which a reservation can still be modified */
+const MODIFIABLE_STATUSES = [ReservationStatus.PENDING, ReservationStatus.CONFIRMED];
+
+/** Contending bookings wait their turn (with backoff) rather than failing */
+const LOCK_WAIT_OPTIONS: LockWaitOptions = { backoff: true };
+
+/** Default lifetime of a timed hold */
+export const DEFAULT_HOLD_MINUTES = 10;
+
+/** Longest a table may be held without confirmation */
+export const MAX_HOLD_MINUTES = 30;
+
+/** How long a freed table stays CLEANING before it is available again */
+const TABLE_CLEANUP_MS = 5000;
+
+/** Pending CLEANING → AVAILABLE transitions by table */
+const cleanupTimers = new Map<UUID, NodeJS.Timeout>();
+
 /**
  * Validates a create reservation request
  */
@@ -137,6 +194,17 @@ function validateCreateRequest(request: CreateReservationRequest): Result<void>
     };
   }
 
+  // Validate opening hours (interpreted in the venue's timezone)
+  if (!isWithinServiceHours(request.startTime)) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.OUTSIDE_OPERATING_HOURS,
+        message: 'Reservation time is outside the restaurant\'s opening hours'
+      }
+    };
+  }
+
   return { success: true };
 }
 
@@ -157,28 +225,44 @@ export function findAvailableTables(
     t => t.status !== TableStatus.OUT_OF_SERVICE
   );
 
-  // Get all reservations that overlap with the requested time
-  const overlappingReservations = reservationStore
-    .findByTimeRange(new Date(startTime), new Date(endTime))
-    .filter(r => 
-      r.status !== ReservationStatus.CANCELLED &&
-      r.status !== ReservationStatus.COMPLETED &&
-      r.status !== ReservationStatus.NO_SHOW &&
-      r.id !== excludeReservationId
-    );
-
-  // Filter tables that don't have overlapping reservations
-  const availableTables = activeTables.filter(table => {
-    const tableReservations = overlappingReservations.filter(
-      r => r.tableId === table.id
-    );
-    return tableReservations.length === 0;
-  });
+  // Filter tables that don't have overlapping reservations or blocks
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  const availableTables = activeTables.filter(table =>
+    reservationStore.findBlockingByTable(
+      table.id, start, end, excludeReservationId, getTurnoverBufferMinutes(table)
+    ).length === 0 &&
+    blockStore.findBlockingTable(table, start, end).length === 0
+  );
 
   // Sort by capacity (smallest first for optimal usage)
   return availableTables.sort((a, b) => a.capacity - b.capacity);
 }
 
+/**
+ * Finds combinations of free tables that together seat the party
+ * Used when no single table is big enough; best combination first
+ */
+export function findAvailableTableCombinations(
+  startTime: string,
+  endTime: string,
+  partySize: number,
+  excludeReservationId?: UUID
+): TableCombination[] {
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  const freeTables = tableStore.getAll().filter(table =>
+    table.status !== TableStatus.OUT_OF_SERVICE &&
+    table.combinationGroup !== undefined &&
+    reservationStore.findBlockingByTable(
+      table.id, start, end, excludeReservationId, getTurnoverBufferMinutes(table)
+    ).length === 0 &&
+    blockStore.findBlockingTable(table, start, end).length === 0
+  );
+
+  return findTableCombinations(freeTables, partySize);
+}
+
 /**
  * Checks availability for a given request
  */
@@ -195,9 +279,15 @@ export function checkAvailability(request: AvailabilityRequest): Result<Availabi
     };
   }
 
-  const duration = request.durationMinutes || DEFAULT_DURATION_MINUTES;
+  const duration = request.durationMinutes ||
+    getSeatingDuration(request.partySize, request.startTime, request.experience);
   const endTime = calculateEndTime(request.startTime, duration);
 
+  // The kitchen cannot take another party at this time
+  if (!isWithinPacing(request.startTime, request.partySize)) {
+    return { success: true, data: [] };
+  }
+
   const availableTables = findAvailableTables(
     request.startTime,
     endTime,
@@ -213,6 +303,12 @@ export function checkAvailability(request: AvailabilityRequest): Result<Availabi
     isAvailable: true
   }));
 
+  // Large parties: offer tables that can be pushed together
+  if (slots.length === 0) {
+    const combinations = findAvailableTableCombinations(request.startTime, endTime, request.partySize);
+    slots.push(...combinations.map(c => toCombinationSlot(c, request.startTime, endTime)));
+  }
+
   return { success: true, data: slots };
 }
 
@@ -224,7 +320,8 @@ export function checkAvailability(request: AvailabilityRequest): Result<Availabi
  * - Then the system checks availability and confirms the reservation if possible
  */
 export async function createReservation(
-  request: CreateReservationRequest
+  request: CreateReservationRequest,
+  actor: string = SYSTEM_ACTOR
 ): Promise<Result<Reservation>> {
   // Validate request
   const validation = validateCreateRequest(request);
@@ -232,14 +329,76 @@ export async function createReservation(
     return validation as Result<Reservation>;
   }
 
+  return bookReservation(request, ReservationStatus.CONFIRMED, actor);
+}
+
+/**
+ * Places a timed hold: a PENDING reservation that blocks its table until
+ * it is confirmed or the hold runs out (then the table is released)
+ */
+export async function createHold(
+  request: CreateHoldRequest,
+  actor: string = SYSTEM_ACTOR
+): Promise<Result<Reservation>> {
+  const validation = validateCreateRequest(request);
+  if (!validation.success) {
+    return validation as Result<Reservation>;
+  }
+
+  const holdMinutes = request.holdMinutes ?? DEFAULT_HOLD_MINUTES;
+  if (!Number.isInteger(holdMinutes) || holdMinutes < 1 || holdMinutes > MAX_HOLD_MINUTES) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.INVALID_HOLD_DURATION,
+        message: `Hold must last between 1 and ${MAX_HOLD_MINUTES} minutes`
+      }
+    };
+  }
+
+  const holdExpiresAt = new Date(Date.now() + holdMinutes * 60000).toISOString();
+  return bookReservation(request, ReservationStatus.PENDING, actor, holdExpiresAt);
+}
+
+/**
+ * Gets the time-bucket locks for a booking window, widened by the longest
+ * turnover buffer so that bookings too close together for one table are
+ * serialized as well
+ */
+function getBookingLockResources(startTime: string, endTime: string): LockResource[] {
+  const buffer = getMaxTurnoverBufferMinutes();
+  return getTimeslotLockResources(
+    addMinutes(startTime, -buffer).toISOString(),
+    addMinutes(endTime, buffer).toISOString()
+  );
+}
+
+/**
+ * Books a validated request: picks a table (or combination), finds the
+ * customer and records the reservation with the given status
+ */
+async function bookReservation(
+  request: CreateReservationRequest,
+  status: ReservationStatus,
+  actor: string,
+  holdExpiresAt?: ISODateTime
+): Promise<Result<Reservation>> {
   const timezone = request.timezone || DEFAULT_TIMEZONE;
-  const duration = request.durationMinutes || DEFAULT_DURATION_MINUTES;
+  const duration = request.durationMinutes ||
+    getSeatingDuration(request.partySize, request.startTime, request.experience);
   const endTime = calculateEndTime(request.startTime, duration);
 
-  // Use locking to prevent race conditions
-  const lockId = `timeslot:${request.startTime}`;
+  // Lock every time bucket the window touches, so overlapping bookings
+  // with different start times cannot pick the same table concurrently
+  const lockResources = getBookingLockResources(request.startTime, endTime);
   
-  return await withLock('timeslot', lockId, async () => {
+  return await withQueuedLocks(lockResources, async fencing => {
+    // Kitchen pacing comes before tables; only a manager override books past it
+    const overPaced = !isWithinPacing(request.startTime, request.partySize);
+    if (overPaced && !request.pacingOverride) {
+      throw new Error(ReservationErrorCode.PACING_LIMIT_REACHED);
+    }
+
     // Find available tables
     let selectedTable: Table | undefined;
 
@@ -261,23 +420,31 @@ export async function createReservation(
       }
     }
 
-    if (!selectedTable) {
+    let selectedTables: Table[] = selectedTable ? [selectedTable] : [];
+
+    if (selectedTables.length === 0) {
       const availableTables = findAvailableTables(
         request.startTime,
         endTime,
         request.partySize
       );
 
-      if (availableTables.length === 0) {
-        throw new Error(ReservationErrorCode.NO_AVAILABILITY);
+      if (availableTables.length > 0) {
+        selectedTables = [availableTables[0]];
+      } else {
+        // No single table fits: push tables together
+        const combination = findAvailableTableCombinations(request.startTime, endTime, request.partySize)[0];
+        if (!combination) {
+          throw new Error(ReservationErrorCode.NO_AVAILABILITY);
+        }
+        selectedTables = combination.tables;
       }
-
-      selectedTable = availableTables[0];
     }
 
     // Create or find customer
     let customer = customerStore.findByPhone(request.customerPhone || '') ||
                    customerStore.findByEmail(request.customerEmail || '');
+    const isNewCustomer = !customer;
 
     if (!customer) {
       customer = customerStore.create({
@@ -287,33 +454,40 @@ export async function createReservation(
       });
     }
 
-    // Assign waiter (optional)
-    const waiter = waiterStore.findWithLeastTables();
-    if (waiter && selectedTable) {
-      waiterStore.assignTable(waiter.id, selectedTable.id);
+    // No waiter yet: one on shift is assigned when the party is seated
+    // Create reservation; a rejected fenced write removes a new customer again
+    let reservation: Reservation;
+    try {
+      reservation = reservationStore.create({
+        customerId: customer.id,
+        customerName: request.customerName,
+        partySize: request.partySize,
+        tableId: selectedTables[0].id,
+        combinedTableIds: selectedTables.length > 1 ? selectedTables.map(t => t.id) : undefined,
+        startTime: request.startTime,
+        endTime,
+        status,
+        isWalkIn: false,
+        timezone,
+        experience: request.experience,
+        ...(request.durationMinutes ? { durationOverridden: true } : {}),
+        ...(overPaced && { pacingOverridden: true }),
+        notes: request.notes,
+        holdExpiresAt,
+        version: 1
+      }, { fencing, actor });
+    } catch (error) {
+      if (isNewCustomer) {
+        customerStore.delete(customer.id);
+      }
+      throw error;
     }
 
-    // Create reservation
-    const reservation = reservationStore.create({
-      customerId: customer.id,
-      customerName: request.customerName,
-      partySize: request.partySize,
-      tableId: selectedTable.id,
-      waiterId: waiter?.id,
-      startTime: request.startTime,
-      endTime,
-      status: ReservationStatus.CONFIRMED,
-      isWalkIn: false,
-      timezone,
-      notes: request.notes,
-      version: 1
-    });
-
-    // Update table status
-    tableStore.update(selectedTable.id, { status: TableStatus.RESERVED });
+    // Update table status (every member of a combined seating is blocked)
+    selectedTables.forEach(t => tableStore.update(t.id, { status: TableStatus.RESERVED }, { fencing }));
 
     return reservation;
-  }).then(result => {
+  }, LOCK_WAIT_OPTIONS).then(result => {
     if (result.success) {
       return { success: true, data: result.result };
     } else {
@@ -323,7 +497,17 @@ export async function createReservation(
         success: false,
         error: {
           code: errorCode,
-          message: getErrorMessage(errorCode)
+          message: getErrorMessage(errorCode),
+          // Give the guest something to choose from instead
+          ...(errorCode === ReservationErrorCode.NO_AVAILABILITY && {
+            details: {
+              alternatives: suggestAlternatives(request.startTime, request.partySize, {
+                durationMinutes: request.durationMinutes || undefined,
+                experience: request.experience,
+                section: request.preferredTableId ? tableStore.getById(request.preferredTableId)?.section : undefined
+              })
+            }
+          })
         }
       };
     }
@@ -381,6 +565,229 @@ export function getReservations(filters?: {
   );
 }
 
+/**
+ * Validates a modify/reschedule request against the existing reservation
+ */
+function validateUpdateRequest(
+  existing: Reservation,
+  request: UpdateReservationRequest
+): Result<void> {
+  if (!MODIFIABLE_STATUSES.includes(existing.status)) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.RESERVATION_NOT_MODIFIABLE,
+        message: `Cannot modify a reservation with status ${existing.status}`
+      }
+    };
+  }
+
+  if (isHoldExpired(existing)) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.HOLD_EXPIRED,
+        message: getErrorMessage(ReservationErrorCode.HOLD_EXPIRED)
+      }
+    };
+  }
+
+  if (request.partySize !== undefined && (request.partySize < 1 || request.partySize > 20)) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.INVALID_PARTY_SIZE,
+        message: 'Party size must be between 1 and 20'
+      }
+    };
+  }
+
+  if (request.durationMinutes !== undefined && request.durationMinutes <= 0) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.INVALID_DURATION,
+        message: 'Duration must be a positive number of minutes'
+      }
+    };
+  }
+
+  if (request.startTime !== undefined) {
+    try {
+      parseDateTime(request.startTime);
+    } catch {
+      return {
+        success: false,
+        error: {
+          code: ReservationErrorCode.INVALID_TIME,
+          message: 'Invalid start time format. Use ISO 8601 format.'
+        }
+      };
+    }
+
+    if (!isFutureDateTime(request.startTime)) {
+      return {
+        success: false,
+        error: {
+          code: ReservationErrorCode.PAST_TIME,
+          message: 'Reservation time must be in the future'
+        }
+      };
+    }
+
+    if (!isWithinServiceHours(request.startTime)) {
+      return {
+        success: false,
+        error: {
+          code: ReservationErrorCode.OUTSIDE_OPERATING_HOURS,
+          message: 'Reservation time is outside the restaurant\'s opening hours'
+        }
+      };
+    }
+  }
+
+  if (existing.version !== request.version) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.CONCURRENT_MODIFICATION,
+        message: 'Reservation was modified by another process. Please refresh and try again.'
+      }
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Modifies a reservation's time, duration, party size or table
+ * Re-checks availability (ignoring the reservation itself), honours the
+ * optimistic version and moves the table status (only parties not yet
+ * seated can be modified, so no waiter is assigned)
+ */
+export async function updateReservation(
+  id: UUID,
+  request: UpdateReservationRequest,
+  actor: string = SYSTEM_ACTOR
+): Promise<Result<Reservation>> {
+  const existing = reservationStore.getById(id);
+
+  if (!existing) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.RESERVATION_NOT_FOUND,
+        message: `Reservation not found: ${id}`
+      }
+    };
+  }
+
+  const validation = validateUpdateRequest(existing, request);
+  if (!validation.success) {
+    return validation as Result<Reservation>;
+  }
+
+  const startTime = request.startTime ?? existing.startTime;
+  const currentDuration = Math.round(
+    (new Date(existing.endTime).getTime() - new Date(existing.startTime).getTime()) / 60000
+  );
+  const partySize = request.partySize ?? existing.partySize;
+  // A new time or party size gets the policy's duration, unless staff set one
+  const rescheduled = startTime !== existing.startTime || partySize !== existing.partySize;
+  const duration = request.durationMinutes ??
+    (rescheduled && !existing.durationOverridden
+      ? getSeatingDuration(partySize, startTime, existing.experience)
+      : currentDuration);
+  const endTime = calculateEndTime(startTime, duration);
+
+  const lockResources = getBookingLockResources(startTime, endTime);
+
+  return await withQueuedLocks(lockResources, async fencing => {
+    const overPaced = rescheduled && !isWithinPacing(startTime, partySize, id);
+    if (overPaced && !request.pacingOverride) {
+      throw new Error(ReservationErrorCode.PACING_LIMIT_REACHED);
+    }
+
+    const availableTables = findAvailableTables(startTime, endTime, partySize, id);
+    const oldTableIds = getReservationTableIds(existing);
+    let selectedTables: Table[] = [];
+
+    if (request.tableId) {
+      if (!tableStore.getById(request.tableId)) {
+        throw new Error(ReservationErrorCode.TABLE_NOT_FOUND);
+      }
+      const requested = availableTables.find(t => t.id === request.tableId);
+      selectedTables = requested ? [requested] : [];
+    } else {
+      // Keep the current table(s) when they still fit, otherwise take the best available option
+      const combinations = availableTables.length === 0
+        ? findAvailableTableCombinations(startTime, endTime, partySize, id)
+        : [];
+      const current = availableTables.find(t => oldTableIds.length === 1 && t.id === oldTableIds[0]) ||
+        combinations.find(c => c.tables.length === oldTableIds.length &&
+          c.tables.every(t => oldTableIds.includes(t.id)))?.tables;
+
+      if (current) {
+        selectedTables = Array.isArray(current) ? current : [current];
+      } else if (availableTables.length > 0) {
+        selectedTables = [availableTables[0]];
+      } else if (combinations.length > 0) {
+        selectedTables = combinations[0].tables;
+      }
+    }
+
+    if (selectedTables.length === 0) {
+      throw new Error(ReservationErrorCode.SLOT_CONFLICT);
+    }
+
+    const newTableIds = selectedTables.map(t => t.id);
+    const updated = reservationStore.updateWithVersion(id, {
+      startTime,
+      endTime,
+      partySize,
+      tableId: newTableIds[0],
+      combinedTableIds: newTableIds.length > 1 ? newTableIds : undefined,
+      ...(request.durationMinutes !== undefined && { durationOverridden: true }),
+      ...(rescheduled && { pacingOverridden: overPaced || undefined }),
+      notes: request.notes ?? existing.notes
+    }, request.version, { fencing, actor });
+
+    if (!updated) {
+      throw new Error(ReservationErrorCode.CONCURRENT_MODIFICATION);
+    }
+
+    // Release tables the reservation left, unless another booking still holds them
+    for (const tableId of oldTableIds.filter(t => !newTableIds.includes(t))) {
+      const oldTable = tableStore.getById(tableId);
+      if (oldTable?.status === TableStatus.RESERVED && !reservationStore.findActiveByTable(tableId)) {
+        tableStore.update(tableId, { status: TableStatus.AVAILABLE }, { fencing });
+      }
+    }
+
+    for (const tableId of newTableIds.filter(t => !oldTableIds.includes(t))) {
+      tableStore.update(tableId, { status: TableStatus.RESERVED }, { fencing });
+    }
+
+    return updated;
+  }, LOCK_WAIT_OPTIONS).then(result => {
+    if (result.success) {
+      return { success: true, data: result.result };
+    }
+
+    const errorCode = result.error as ReservationErrorCode || 'UNKNOWN_ERROR';
+    return {
+      success: false,
+      error: {
+        code: errorCode,
+        message: getErrorMessage(errorCode),
+        ...(errorCode === ReservationErrorCode.SLOT_CONFLICT && {
+          details: { startTime, endTime, partySize, tableId: request.tableId }
+        })
+      }
+    };
+  });
+}
+
 /**
  * Updates a reservation status
  * Uses optimistic locking to prevent race conditions
@@ -388,7 +795,8 @@ export function getReservations(filters?: {
 export function updateReservationStatus(
   id: UUID,
   newStatus: ReservationStatus,
-  expectedVersion: number
+  expectedVersion: number,
+  actor: string = SYSTEM_ACTOR
 ): Result<Reservation> {
   const existing = reservationStore.getById(id);
   
@@ -413,8 +821,28 @@ export function updateReservationStatus(
     };
   }
 
-  // Use optimistic locking
-  const updated = reservationStore.updateWithVersion(id, { status: newStatus }, expectedVersion);
+  // A hold that ran out can only be released, not confirmed
+  if (newStatus === ReservationStatus.CONFIRMED && isHoldExpired(existing)) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.HOLD_EXPIRED,
+        message: getErrorMessage(ReservationErrorCode.HOLD_EXPIRED)
+      }
+    };
+  }
+
+  // Seating brings in the next waiter in the seating rotation
+  const section = existing.tableId ? tableStore.getById(existing.tableId)?.section : undefined;
+  const waiter = newStatus === ReservationStatus.SEATED ? findWaiterForService(new Date(), section) : undefined;
+
+  // Use optimistic locking; confirming ends the hold
+  const updated = reservationStore.updateWithVersion(id, {
+    status: newStatus,
+    ...(newStatus === ReservationStatus.CONFIRMED && { holdExpiresAt: undefined }),
+    ...(newStatus === ReservationStatus.SEATED && { seatedAt: nowUTC() }),
+    ...(waiter && { waiterId: waiter.id })
+  }, expectedVersion, { actor });
   
   if (!updated) {
     return {
@@ -426,29 +854,220 @@ export function updateReservationStatus(
     };
   }
 
-  // Update table status based on reservation status
-  if (updated.tableId) {
+  // Keep the no-show history for per-customer reporting
+  if (newStatus === ReservationStatus.NO_SHOW) {
+    noShowStore.create({
+      reservationId: updated.id,
+      customerId: updated.customerId,
+      customerName: updated.customerName,
+      partySize: updated.partySize,
+      startTime: updated.startTime,
+      markedAt: nowUTC()
+    });
+  }
+
+  // Update table status based on reservation status (all tables of a combined seating)
+  for (const tableId of getReservationTableIds(updated)) {
     if (newStatus === ReservationStatus.SEATED) {
-      tableStore.update(updated.tableId, { status: TableStatus.OCCUPIED });
+      tableStore.update(tableId, { status: TableStatus.OCCUPIED });
+      if (waiter) {
+        waiterStore.assignTable(waiter.id, tableId);
+      }
+    } else if (newStatus === ReservationStatus.NO_SHOW) {
+      // Nobody sat down, so the table needs no cleaning
+      if (updated.waiterId) {
+        waiterStore.unassignTable(updated.waiterId, tableId);
+      }
+      releaseUnusedTable(tableId);
     } else if (newStatus === ReservationStatus.COMPLETED || 
-               newStatus === ReservationStatus.CANCELLED ||
-               newStatus === ReservationStatus.NO_SHOW) {
-      tableStore.update(updated.tableId, { status: TableStatus.CLEANING });
-      // Auto-transition to available after a short time
-      setTimeout(() => {
-        tableStore.update(updated.tableId!, { status: TableStatus.AVAILABLE });
-      }, 5000);
+               newStatus === ReservationStatus.CANCELLED) {
+      if (updated.waiterId) {
+        waiterStore.unassignTable(updated.waiterId, tableId);
+      }
+      tableStore.update(tableId, { status: TableStatus.CLEANING });
+      scheduleTableCleanup(tableId);
+      // Offer the freed table to the next party on the walk-in waitlist
+      offerTable(tableId);
     }
   }
 
   return { success: true, data: updated };
 }
 
+/**
+ * Makes a table being cleaned available again after a short time
+ * (unless it was re-seated meanwhile)
+ */
+function scheduleTableCleanup(tableId: UUID): void {
+  clearTimeout(cleanupTimers.get(tableId));
+  const timer = setTimeout(() => {
+    cleanupTimers.delete(tableId);
+    if (tableStore.getById(tableId)?.status === TableStatus.CLEANING) {
+      tableStore.update(tableId, { status: TableStatus.AVAILABLE });
+    }
+  }, TABLE_CLEANUP_MS);
+  // A pending cleanup alone never keeps the process running
+  timer.unref();
+  cleanupTimers.set(tableId, timer);
+}
+
+/**
+ * Cancels every pending table cleanup (for shutdown and testing)
+ */
+export function cancelTableCleanups(): void {
+  cleanupTimers.forEach(timer => clearTimeout(timer));
+  cleanupTimers.clear();
+}
+
 /**
  * Cancels a reservation
  */
-export function cancelReservation(id: UUID, expectedVersion: number): Result<Reservation> {
-  return updateReservationStatus(id, ReservationStatus.CANCELLED, expectedVersion);
+export function cancelReservation(
+  id: UUID,
+  expectedVersion: number,
+  actor: string = SYSTEM_ACTOR
+): Result<Reservation> {
+  return updateReservationStatus(id, ReservationStatus.CANCELLED, expectedVersion, actor);
+}
+
+/**
+ * Confirms a timed hold, completing any customer details collected meanwhile
+ */
+export function confirmHold(
+  id: UUID,
+  request: ConfirmHoldRequest,
+  actor: string = SYSTEM_ACTOR
+): Result<Reservation> {
+  const existing = reservationStore.getById(id);
+
+  if (!existing) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.RESERVATION_NOT_FOUND,
+        message: `Reservation not found: ${id}`
+      }
+    };
+  }
+
+  if (existing.status !== ReservationStatus.PENDING || !existing.holdExpiresAt) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.NOT_A_HOLD,
+        message: getErrorMessage(ReservationErrorCode.NOT_A_HOLD)
+      }
+    };
+  }
+
+  if (isHoldExpired(existing)) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.HOLD_EXPIRED,
+        message: getErrorMessage(ReservationErrorCode.HOLD_EXPIRED)
+      }
+    };
+  }
+
+  if (request.customerName !== undefined && request.customerName.trim().length === 0) {
+    return {
+      success: false,
+      error: {
+        code: 'INVALID_CUSTOMER_NAME',
+        message: 'Customer name is required'
+      }
+    };
+  }
+
+  const customerName = request.customerName ?? existing.customerName;
+  if (request.customerName || request.customerPhone || request.customerEmail) {
+    customerStore.update(existing.customerId, {
+      name: customerName,
+      ...(request.customerPhone && { phone: request.customerPhone }),
+      ...(request.customerEmail && { email: request.customerEmail })
+    });
+  }
+
+  const updated = reservationStore.updateWithVersion(id, {
+    status: ReservationStatus.CONFIRMED,
+    holdExpiresAt: undefined,
+    customerName,
+    notes: request.notes ?? existing.notes
+  }, request.version, { actor });
+
+  if (!updated) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.CONCURRENT_MODIFICATION,
+        message: 'Reservation was modified by another process. Please refresh and try again.'
+      }
+    };
+  }
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Gets the change history of a reservation, oldest first
+ */
+export function getReservationHistory(id: UUID): Result<ReservationEvent[]> {
+  const history = reservationEventStore.findByReservationId(id);
+
+  if (history.length === 0 && !reservationStore.getById(id)) {
+    return {
+      success: false,
+      error: {
+        code: ReservationErrorCode.RESERVATION_NOT_FOUND,
+        message: `Reservation not found: ${id}`
+      }
+    };
+  }
+
+  return { success: true, data: history };
+}
+
+/**
+ * Hands back a reserved table nobody sat at, unless another booking still holds it
+ */
+function releaseUnusedTable(tableId: UUID): void {
+  const table = tableStore.getById(tableId);
+  if (table?.status === TableStatus.RESERVED && !reservationStore.findActiveByTable(tableId)) {
+    tableStore.update(tableId, { status: TableStatus.AVAILABLE });
+    // Offer the freed table to the next party on the walk-in waitlist
+    offerTable(tableId);
+  }
+}
+
+/**
+ * Releases timed holds that ran out without being confirmed
+ * The holds are cancelled and their tables handed back (nobody sat at them,
+ * so they skip cleaning). Returns the released holds.
+ */
+export function expireHolds(now: Date = new Date()): Reservation[] {
+  const released: Reservation[] = [];
+
+  for (const hold of reservationStore.findExpiredHolds(now)) {
+    const updated = reservationStore.updateWithVersion(hold.id, {
+      status: ReservationStatus.CANCELLED,
+      notes: hold.notes ? `${hold.notes} (hold expired)` : 'Hold expired'
+    }, hold.version);
+
+    // Confirmed or changed concurrently: leave it to the other writer
+    if (!updated) continue;
+
+    for (const tableId of getReservationTableIds(updated)) {
+      if (updated.waiterId) {
+        waiterStore.unassignTable(updated.waiterId, tableId);
+      }
+      releaseUnusedTable(tableId);
+    }
+
+    released.push(updated);
+  }
+
+  return released;
 }
 
 /**
@@ -490,7 +1109,18 @@ function getErrorMessage(code: string): string {
     [ReservationErrorCode.RESERVATION_NOT_FOUND]: 'Reservation not found',
     [ReservationErrorCode.CONCURRENT_MODIFICATION]: 'Concurrent modification detected',
     [ReservationErrorCode.INVALID_TIMEZONE]: 'Invalid timezone',
-    [ReservationErrorCode.INVALID_STATUS_TRANSITION]: 'Invalid status transition'
+    [ReservationErrorCode.INVALID_STATUS_TRANSITION]: 'Invalid status transition',
+    [ReservationErrorCode.INVALID_DURATION]: 'Invalid reservation duration',
+    [ReservationErrorCode.RESERVATION_NOT_MODIFIABLE]: 'Reservation can no longer be modified',
+    [ReservationErrorCode.SLOT_CONFLICT]: 'The requested time, party size or table is already taken',
+    [ReservationErrorCode.OUTSIDE_OPERATING_HOURS]: 'Reservation time is outside opening hours',
+    [ReservationErrorCode.INVALID_HOLD_DURATION]: 'Invalid hold duration',
+    [ReservationErrorCode.NOT_A_HOLD]: 'Reservation is not a pending hold',
+    [ReservationErrorCode.HOLD_EXPIRED]: 'The hold has expired and the table was released',
+    [ReservationErrorCode.LOCK_TIMEOUT]: 'The system is busy with other bookings for this time. Please try again.',
+    [ReservationErrorCode.STALE_FENCING_TOKEN]: 'The booking took too long and its lock was taken over. Please try again.',
+    [ReservationErrorCode.PACING_LIMIT_REACHED]:
+      'The kitchen is fully paced for this time. Choose another time or have a manager override the limit.'
   };
 
   return messages[code] || 'An unknown error occurred';
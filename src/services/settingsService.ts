@@ -0,0 +1,484 @@
+/**
+ * Settings Service
+ * Task #8: Timezone-Safe Scheduling
+ *
+ * Restaurant-wide configuration:
+ * - The venue's IANA timezone
+ * - Service periods per weekday (split lunch/dinner service, last seating)
+ * - Late-arrival grace period before a reservation becomes a no-show
+ * - Turnover buffers keeping a table free between consecutive parties
+ * - Seating durations by party size, service period and experience
+ * - Kitchen pacing limits on the covers and parties starting together
+ *
+ * Opening hours are stored as local wall-clock times and resolved to UTC
+ * instants per calendar date, so they follow the venue's DST changes.
+ */
+
+import {
+  RestaurantSettings,
+  NoShowPolicy,
+  TurnoverBufferPolicy,
+  DurationPolicy,
+  PacingPolicy,
+  PacingLimit,
+  Table,
+  ServicePeriod,
+  WeekdayName,
+  Result
+} from '../types';
+import { settingsStore } from '../data/store';
+import {
+  isValidTimezone,
+  parseTimeOfDay,
+  zonedTimeToUtc,
+  getLocalDateString,
+  addDaysToDateString,
+  addMinutes,
+  DEFAULT_DURATION_MINUTES
+} from '../utils/timezone';
+
+/** Settings error codes */
+export enum SettingsErrorCode {
+  INVALID_TIMEZONE = 'INVALID_TIMEZONE',
+  INVALID_OPENING_HOURS = 'INVALID_OPENING_HOURS',
+  INVALID_NO_SHOW_POLICY = 'INVALID_NO_SHOW_POLICY',
+  INVALID_TURNOVER_BUFFER = 'INVALID_TURNOVER_BUFFER',
+  INVALID_DURATION_POLICY = 'INVALID_DURATION_POLICY',
+  INVALID_PACING_POLICY = 'INVALID_PACING_POLICY'
+}
+
+/** Flag parties late 5 minutes after their start, mark them no-show after 15 */
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = {
+  lateAfterMinutes: 5,
+  noShowAfterMinutes: 15
+};
+
+/** Tables are rebookable the moment a party's slot ends unless a buffer is configured */
+export const DEFAULT_TURNOVER_BUFFER: TurnoverBufferPolicy = { defaultMinutes: 0 };
+
+/** Longest turnover buffer */
+export const MAX_TURNOVER_BUFFER_MINUTES = 240;
+
+/** Every party keeps its table for DEFAULT_DURATION_MINUTES unless rules are configured */
+export const DEFAULT_DURATION_POLICY: DurationPolicy = { defaultMinutes: DEFAULT_DURATION_MINUTES, rules: [] };
+
+/** Longest seating a duration rule may set */
+export const MAX_SEATING_MINUTES = 12 * 60;
+
+/** The kitchen takes any number of bookings unless pacing limits are configured */
+export const DEFAULT_PACING_POLICY: PacingPolicy = {};
+
+/** Updatable settings fields */
+export type RestaurantSettingsUpdate = Partial<Omit<RestaurantSettings, 'id' | 'createdAt' | 'updatedAt'>>;
+
+/** Service period resolved to UTC instants for one local date */
+export interface ServiceWindow {
+  name?: string;
+  /** Venue-local date the period belongs to (YYYY-MM-DD) */
+  localDate: string;
+  open: Date;
+  close: Date;
+  /** Latest allowed reservation start */
+  lastSeating: Date;
+}
+
+const WEEKDAY_NAMES: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Resolves a period's times to minutes after the local midnight it opens on
+ * Closing (and last seating) times at or before opening roll over past midnight
+ */
+function toPeriodMinutes(period: ServicePeriod): { open: number; close: number; lastSeating: number } {
+  const open = parseTimeOfDay(period.open);
+  let close = parseTimeOfDay(period.close);
+  if (close <= open) {
+    close += MINUTES_PER_DAY;
+  }
+
+  let lastSeating = close;
+  if (period.lastSeating) {
+    lastSeating = parseTimeOfDay(period.lastSeating);
+    if (lastSeating < open) {
+      lastSeating += MINUTES_PER_DAY;
+    }
+  }
+
+  return { open, close, lastSeating };
+}
+
+/**
+ * Validates opening hours: known weekdays, HH:mm times, last seating inside
+ * the period and no overlapping periods on the same day
+ */
+function validateWeeklyHours(weeklyHours: RestaurantSettings['weeklyHours']): Result<void> {
+  const invalid = (message: string): Result<void> => ({
+    success: false,
+    error: { code: SettingsErrorCode.INVALID_OPENING_HOURS, message }
+  });
+
+  for (const [day, periods] of Object.entries(weeklyHours)) {
+    if (!WEEKDAY_NAMES.includes(day as WeekdayName)) {
+      return invalid(`Unknown weekday: ${day}`);
+    }
+
+    if (!Array.isArray(periods)) {
+      return invalid(`Opening hours for ${day} must be a list of service periods`);
+    }
+
+    const resolved: Array<{ open: number; close: number }> = [];
+    for (const period of periods) {
+      let minutes: ReturnType<typeof toPeriodMinutes>;
+      try {
+        minutes = toPeriodMinutes(period);
+      } catch (error) {
+        return invalid(`${day}: ${error instanceof Error ? error.message : 'invalid time'}`);
+      }
+
+      if (minutes.lastSeating > minutes.close) {
+        return invalid(`${day}: last seating ${period.lastSeating} is after closing time ${period.close}`);
+      }
+
+      resolved.push(minutes);
+    }
+
+    resolved.sort((a, b) => a.open - b.open);
+    for (let i = 1; i < resolved.length; i++) {
+      if (resolved[i].open < resolved[i - 1].close) {
+        return invalid(`${day}: service periods overlap`);
+      }
+    }
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates late-arrival thresholds: whole minutes, late before no-show
+ */
+function validateNoShowPolicy(policy: NoShowPolicy): Result<void> {
+  const { lateAfterMinutes, noShowAfterMinutes } = policy;
+  const isMinutes = (value: number) => Number.isInteger(value) && value >= 0;
+
+  if (!isMinutes(lateAfterMinutes) || !isMinutes(noShowAfterMinutes) || lateAfterMinutes >= noShowAfterMinutes) {
+    return {
+      success: false,
+      error: {
+        code: SettingsErrorCode.INVALID_NO_SHOW_POLICY,
+        message: 'lateAfterMinutes and noShowAfterMinutes must be whole minutes, with late before no-show'
+      }
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates turnover buffers: whole minutes up to the maximum, size rules
+ * with a positive capacity
+ */
+function validateTurnoverBuffer(policy: TurnoverBufferPolicy): Result<void> {
+  const isMinutes = (value: unknown) =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_TURNOVER_BUFFER_MINUTES;
+
+  const valid = isMinutes(policy.defaultMinutes) &&
+    (policy.byTableSize === undefined || (Array.isArray(policy.byTableSize) && policy.byTableSize.every(rule =>
+      Number.isInteger(rule.maxCapacity) && rule.maxCapacity > 0 && isMinutes(rule.minutes)))) &&
+    (policy.bySection === undefined || Object.values(policy.bySection).every(isMinutes));
+
+  if (!valid) {
+    return {
+      success: false,
+      error: {
+        code: SettingsErrorCode.INVALID_TURNOVER_BUFFER,
+        message: `Turnover buffers must be whole minutes between 0 and ${MAX_TURNOVER_BUFFER_MINUTES}, ` +
+          'and size rules need a positive maxCapacity'
+      }
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates duration rules: whole minutes up to the maximum, sensible party sizes
+ */
+function validateDurationPolicy(policy: DurationPolicy): Result<void> {
+  const isMinutes = (value: unknown) =>
+    Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_SEATING_MINUTES;
+  const isSize = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) > 0);
+
+  const valid = isMinutes(policy.defaultMinutes) && Array.isArray(policy.rules) && policy.rules.every(rule =>
+    isMinutes(rule.minutes) && isSize(rule.minPartySize) && isSize(rule.maxPartySize) &&
+    (rule.minPartySize ?? 1) <= (rule.maxPartySize ?? Infinity));
+
+  if (!valid) {
+    return {
+      success: false,
+      error: {
+        code: SettingsErrorCode.INVALID_DURATION_POLICY,
+        message: `Durations must be whole minutes between 1 and ${MAX_SEATING_MINUTES}, ` +
+          'with minPartySize at most maxPartySize'
+      }
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Validates pacing limits: positive whole numbers wherever a limit is set
+ */
+function validatePacingPolicy(policy: PacingPolicy): Result<void> {
+  const isLimit = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) > 0);
+  const isPacingLimit = (limit: PacingLimit) =>
+    typeof limit === 'object' && limit !== null && isLimit(limit.maxCovers) && isLimit(limit.maxParties);
+
+  const valid = isPacingLimit(policy) &&
+    (policy.byServicePeriod === undefined || Object.values(policy.byServicePeriod).every(isPacingLimit));
+
+  if (!valid) {
+    return {
+      success: false,
+      error: {
+        code: SettingsErrorCode.INVALID_PACING_POLICY,
+        message: 'maxCovers and maxParties must be positive whole numbers'
+      }
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Gets the restaurant settings
+ */
+export function getRestaurantSettings(): RestaurantSettings {
+  return settingsStore.getSettings();
+}
+
+/**
+ * Updates the restaurant settings
+ */
+export function updateRestaurantSettings(updates: RestaurantSettingsUpdate): Result<RestaurantSettings> {
+  if (updates.timezone !== undefined && !isValidTimezone(updates.timezone)) {
+    return {
+      success: false,
+      error: {
+        code: SettingsErrorCode.INVALID_TIMEZONE,
+        message: `Invalid timezone: ${updates.timezone}`
+      }
+    };
+  }
+
+  if (updates.weeklyHours !== undefined) {
+    const validation = validateWeeklyHours(updates.weeklyHours);
+    if (!validation.success) {
+      return validation as Result<RestaurantSettings>;
+    }
+  }
+
+  if (updates.noShowPolicy !== undefined) {
+    const validation = validateNoShowPolicy(updates.noShowPolicy);
+    if (!validation.success) {
+      return validation as Result<RestaurantSettings>;
+    }
+  }
+
+  if (updates.durationPolicy !== undefined) {
+    const validation = validateDurationPolicy(updates.durationPolicy);
+    if (!validation.success) {
+      return validation as Result<RestaurantSettings>;
+    }
+  }
+
+  if (updates.turnoverBuffer !== undefined) {
+    const validation = validateTurnoverBuffer(updates.turnoverBuffer);
+    if (!validation.success) {
+      return validation as Result<RestaurantSettings>;
+    }
+  }
+
+  if (updates.pacing !== undefined) {
+    const validation = validatePacingPolicy(updates.pacing);
+    if (!validation.success) {
+      return validation as Result<RestaurantSettings>;
+    }
+  }
+
+  return { success: true, data: settingsStore.updateSettings(updates) };
+}
+
+/**
+ * Gets the venue timezone
+ */
+export function getVenueTimezone(): string {
+  return getRestaurantSettings().timezone;
+}
+
+/**
+ * Gets the late-arrival and no-show thresholds
+ */
+export function getNoShowPolicy(): NoShowPolicy {
+  return getRestaurantSettings().noShowPolicy ?? DEFAULT_NO_SHOW_POLICY;
+}
+
+/**
+ * Gets the turnover buffer rules
+ */
+export function getTurnoverBufferPolicy(): TurnoverBufferPolicy {
+  return getRestaurantSettings().turnoverBuffer ?? DEFAULT_TURNOVER_BUFFER;
+}
+
+/**
+ * Gets the minutes a table is kept free between parties
+ */
+export function getTurnoverBufferMinutes(table: Pick<Table, 'capacity' | 'section'>): number {
+  const policy = getTurnoverBufferPolicy();
+
+  const bySection = table.section !== undefined ? policy.bySection?.[table.section] : undefined;
+  if (bySection !== undefined) {
+    return bySection;
+  }
+
+  const bySize = (policy.byTableSize ?? [])
+    .filter(rule => table.capacity <= rule.maxCapacity)
+    .sort((a, b) => a.maxCapacity - b.maxCapacity)[0];
+  return bySize?.minutes ?? policy.defaultMinutes;
+}
+
+/**
+ * Gets the longest buffer any table can have (widens booking locks so that
+ * bookings separated by less than a buffer are still serialized)
+ */
+export function getMaxTurnoverBufferMinutes(): number {
+  const policy = getTurnoverBufferPolicy();
+  return Math.max(
+    policy.defaultMinutes,
+    ...(policy.byTableSize ?? []).map(rule => rule.minutes),
+    ...Object.values(policy.bySection ?? {})
+  );
+}
+
+/**
+ * Gets the seating duration rules
+ */
+export function getDurationPolicy(): DurationPolicy {
+  return getRestaurantSettings().durationPolicy ?? DEFAULT_DURATION_POLICY;
+}
+
+/**
+ * Gets how long a party keeps its table, from the first duration rule that
+ * matches its size, the service period it starts in and its experience
+ */
+export function getSeatingDuration(partySize: number, startTime: Date | string, experience?: string): number {
+  const policy = getDurationPolicy();
+  const servicePeriod = policy.rules.some(rule => rule.servicePeriod !== undefined)
+    ? findServiceWindow(startTime)?.name
+    : undefined;
+
+  const rule = policy.rules.find(r =>
+    partySize >= (r.minPartySize ?? 1) &&
+    partySize <= (r.maxPartySize ?? Infinity) &&
+    (r.servicePeriod === undefined || r.servicePeriod === servicePeriod) &&
+    (r.experience === undefined || r.experience === experience)
+  );
+  return rule?.minutes ?? policy.defaultMinutes;
+}
+
+/**
+ * Gets the kitchen pacing limits
+ */
+export function getPacingPolicy(): PacingPolicy {
+  return getRestaurantSettings().pacing ?? DEFAULT_PACING_POLICY;
+}
+
+/**
+ * Gets the pacing limits for bookings starting at a time: those of its
+ * service period when configured, otherwise the restaurant-wide ones
+ */
+export function getPacingLimit(startTime: Date | string): PacingLimit {
+  const policy = getPacingPolicy();
+  const servicePeriod = policy.byServicePeriod ? findServiceWindow(startTime)?.name : undefined;
+  const limit = servicePeriod !== undefined ? policy.byServicePeriod?.[servicePeriod] : undefined;
+  return limit ?? { maxCovers: policy.maxCovers, maxParties: policy.maxParties };
+}
+
+/**
+ * Gets the service periods of a venue-local date as UTC instants
+ */
+export function getServiceWindows(localDate: string): ServiceWindow[] {
+  const { timezone, weeklyHours } = getRestaurantSettings();
+  const [year, month, day] = localDate.split('-').map(Number);
+  const weekday = WEEKDAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+
+  return (weeklyHours[weekday] || [])
+    .map(period => {
+      const minutes = toPeriodMinutes(period);
+      return {
+        name: period.name,
+        localDate,
+        open: zonedTimeToUtc(localDate, minutes.open, timezone),
+        close: zonedTimeToUtc(localDate, minutes.close, timezone),
+        lastSeating: zonedTimeToUtc(localDate, minutes.lastSeating, timezone)
+      };
+    })
+    .sort((a, b) => a.open.getTime() - b.open.getTime());
+}
+
+/**
+ * Gets every service window that opens within a time range
+ * (including periods from the previous day that run past midnight)
+ */
+export function getServiceWindowsBetween(start: Date, end: Date): ServiceWindow[] {
+  const timezone = getVenueTimezone();
+  const windows: ServiceWindow[] = [];
+  let localDate = addDaysToDateString(getLocalDateString(start, timezone), -1);
+  const lastDate = getLocalDateString(end, timezone);
+
+  while (localDate <= lastDate) {
+    for (const window of getServiceWindows(localDate)) {
+      if (window.close > start && window.open <= end) {
+        windows.push(window);
+      }
+    }
+    localDate = addDaysToDateString(localDate, 1);
+  }
+
+  return windows;
+}
+
+/**
+ * Finds the service window in which a reservation may start at the given time
+ */
+export function findServiceWindow(time: Date | string): ServiceWindow | undefined {
+  const instant = typeof time === 'string' ? new Date(time) : time;
+  return getServiceWindowsBetween(instant, instant).find(w =>
+    instant >= w.open && instant < w.close && instant <= w.lastSeating
+  );
+}
+
+/**
+ * Checks whether a reservation may start at the given time
+ */
+export function isWithinServiceHours(time: Date | string): boolean {
+  return findServiceWindow(time) !== undefined;
+}
+
+/**
+ * Generates the bookable start times of a service window
+ */
+export function getSlotStartTimes(window: ServiceWindow, stepMinutes: number): Date[] {
+  const times: Date[] = [];
+  let current = new Date(window.open);
+
+  while (current < window.close && current <= window.lastSeating) {
+    times.push(current);
+    current = addMinutes(current, stepMinutes);
+  }
+
+  return times;
+}
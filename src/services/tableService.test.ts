@@ -0,0 +1,196 @@
+/**
+ * Tests for Table Service
+ * Task #1: Reservation Management
+ *
+ * Tables can be added, changed, taken out of service and removed without
+ * leaving upcoming reservations stranded.
+ */
+
+import {
+  createTable,
+  updateTable,
+  updateTableStatus,
+  deleteTable,
+  getTable,
+  TableErrorCode
+} from '../services/tableService';
+import {
+  createReservation,
+  updateReservationStatus,
+  findAvailableTables
+} from '../services/reservationService';
+import { updateRestaurantSettings } from '../services/settingsService';
+import { initializeSampleData, resetStores, tableStore, reservationStore, waiterStore } from '../data/store';
+import { Reservation, TableStatus, ReservationStatus, WeekdayName } from '../types';
+import { calculateEndTime } from '../utils/timezone';
+import { clearAllLocks } from '../utils/locking';
+
+const WEEKDAYS: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+const IN_AN_HOUR = new Date(Date.now() + 3600000).toISOString();
+
+/** Books a party an hour from now at the given table */
+async function bookAt(tableNumber: number, partySize = 2): Promise<Reservation> {
+  const result = await createReservation({
+    customerName: 'Table Guest',
+    partySize,
+    startTime: IN_AN_HOUR,
+    preferredTableId: tableStore.findByNumber(tableNumber)!.id
+  });
+  return result.data!;
+}
+
+/** Takes every table except the given ones out of service */
+function closeAllTablesExcept(...tableNumbers: number[]): void {
+  for (const table of tableStore.getAll().filter(t => !tableNumbers.includes(t.number))) {
+    updateTableStatus(table.id, { status: TableStatus.OUT_OF_SERVICE, reason: 'Closed section' });
+  }
+}
+
+describe('Table Service', () => {
+  beforeEach(() => {
+    resetStores();
+    initializeSampleData();
+    clearAllLocks();
+    updateRestaurantSettings({
+      weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '00:00', close: '24:00' }]]))
+    });
+  });
+
+  describe('Creating and updating tables', () => {
+    it('should add a table with a unique number', () => {
+      const result = createTable({ number: 11, capacity: 4, minCapacity: 3, section: 'Bar' });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.status).toBe(TableStatus.AVAILABLE);
+      expect(getTable(result.data!.id).data!.section).toBe('Bar');
+    });
+
+    it('should reject a duplicate number and inconsistent capacities', () => {
+      expect(createTable({ number: 1, capacity: 4 }).error?.code).toBe(TableErrorCode.DUPLICATE_TABLE_NUMBER);
+      expect(createTable({ number: 12, capacity: 0 }).error?.code).toBe(TableErrorCode.INVALID_CAPACITY);
+      expect(createTable({ number: 12, capacity: 2, minCapacity: 3 }).error?.code)
+        .toBe(TableErrorCode.INVALID_CAPACITY);
+
+      const table = tableStore.findByNumber(2)!;
+      expect(updateTable(table.id, { number: 3 }).error?.code).toBe(TableErrorCode.DUPLICATE_TABLE_NUMBER);
+      expect(updateTable(table.id, { number: 2, section: 'Window' }).data!.section).toBe('Window');
+    });
+
+    it('should not give a table to a party below its minimum', () => {
+      const table = tableStore.findByNumber(8)!;
+      updateTable(table.id, { minCapacity: 4 });
+      const endTime = calculateEndTime(IN_AN_HOUR, 90);
+
+      expect(findAvailableTables(IN_AN_HOUR, endTime, 2).map(t => t.id)).not.toContain(table.id);
+      expect(findAvailableTables(IN_AN_HOUR, endTime, 5).map(t => t.id)).toContain(table.id);
+    });
+
+    it('should not shrink a table below an upcoming party', async () => {
+      const reservation = await bookAt(8, 6);
+
+      const result = updateTable(reservation.tableId!, { capacity: 4 });
+
+      expect(result.error?.code).toBe(TableErrorCode.CAPACITY_CONFLICT);
+      expect(result.error?.details).toEqual({ reservationIds: [reservation.id] });
+    });
+  });
+
+  describe('Manual status changes', () => {
+    it('should take a table out of service with a reason and stop offering it', () => {
+      const table = tableStore.findByNumber(1)!;
+
+      expect(updateTableStatus(table.id, { status: TableStatus.OUT_OF_SERVICE }).error?.code)
+        .toBe(TableErrorCode.REASON_REQUIRED);
+
+      const result = updateTableStatus(table.id, { status: TableStatus.OUT_OF_SERVICE, reason: 'Wobbly leg' });
+
+      expect(result.data!.outOfServiceReason).toBe('Wobbly leg');
+      expect(findAvailableTables(IN_AN_HOUR, calculateEndTime(IN_AN_HOUR, 90), 2).map(t => t.id))
+        .not.toContain(table.id);
+    });
+
+    it('should bring a table back as reserved when a booking still holds it', async () => {
+      const reservation = await bookAt(1);
+      updateTableStatus(reservation.tableId!, { status: TableStatus.OUT_OF_SERVICE, reason: 'Spill' });
+
+      const result = updateTableStatus(reservation.tableId!, { status: TableStatus.AVAILABLE });
+
+      expect(result.data!.status).toBe(TableStatus.RESERVED);
+      expect(result.data!.outOfServiceReason).toBeUndefined();
+    });
+
+    it('should refuse statuses that follow bookings and tables with a seated party', async () => {
+      const reservation = await bookAt(1);
+
+      expect(updateTableStatus(reservation.tableId!, { status: TableStatus.OCCUPIED }).error?.code)
+        .toBe(TableErrorCode.INVALID_STATUS);
+
+      updateReservationStatus(reservation.id, ReservationStatus.SEATED, reservation.version);
+
+      expect(updateTableStatus(reservation.tableId!, { status: TableStatus.OUT_OF_SERVICE, reason: 'Broken' })
+        .error?.code).toBe(TableErrorCode.TABLE_IN_USE);
+    });
+  });
+
+  describe('Removing tables', () => {
+    it('should remove a free table and unassign it from waiters', async () => {
+      const table = tableStore.findByNumber(5)!;
+      const waiter = waiterStore.getAll()[0];
+      waiterStore.assignTable(waiter.id, table.id);
+
+      const result = await deleteTable(table.id);
+
+      expect(result.success).toBe(true);
+      expect(tableStore.getById(table.id)).toBeUndefined();
+      expect(waiterStore.getById(waiter.id)!.assignedTables).not.toContain(table.id);
+    });
+
+    it('should refuse to remove a table with upcoming reservations', async () => {
+      const reservation = await bookAt(1);
+
+      const result = await deleteTable(reservation.tableId!);
+
+      expect(result.error?.code).toBe(TableErrorCode.TABLE_HAS_RESERVATIONS);
+      expect(result.error?.details).toEqual({ reservationIds: [reservation.id] });
+      expect(tableStore.getById(reservation.tableId!)).toBeDefined();
+    });
+
+    it('should move upcoming reservations to another table when asked', async () => {
+      const reservation = await bookAt(1);
+
+      const result = await deleteTable(reservation.tableId!, { reassign: true }, 'manager-bo');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.reassigned.map(r => r.id)).toEqual([reservation.id]);
+      const moved = reservationStore.getById(reservation.id)!;
+      expect(moved.tableId).not.toBe(reservation.tableId);
+      expect(moved.updatedBy).toBe('manager-bo');
+      expect(tableStore.getById(moved.tableId!)!.status).toBe(TableStatus.RESERVED);
+      expect(tableStore.getById(reservation.tableId!)).toBeUndefined();
+    });
+
+    it('should keep the table when a reservation cannot be moved', async () => {
+      closeAllTablesExcept(8);
+      const reservation = await bookAt(8, 6);
+
+      const result = await deleteTable(reservation.tableId!, { reassign: true });
+
+      expect(result.error?.code).toBe(TableErrorCode.REASSIGNMENT_FAILED);
+      expect(result.error?.details).toEqual({ reassignedIds: [], unplacedIds: [reservation.id] });
+      expect(tableStore.getById(reservation.tableId!)!.status).toBe(TableStatus.RESERVED);
+      expect(reservationStore.getById(reservation.id)!.tableId).toBe(reservation.tableId);
+    });
+
+    it('should refuse to remove a table with a seated party', async () => {
+      const reservation = await bookAt(1);
+      updateReservationStatus(reservation.id, ReservationStatus.SEATED, reservation.version);
+
+      const result = await deleteTable(reservation.tableId!, { reassign: true });
+
+      expect(result.error?.code).toBe(TableErrorCode.TABLE_IN_USE);
+    });
+  });
+});
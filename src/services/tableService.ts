@@ -0,0 +1,310 @@
+/**
+ * Table Service
+ * Task #1: Reservation Management
+ *
+ * Managing the floor plan:
+ * - Create, update and remove tables (unique numbers, capacity limits)
+ * - Manual status changes, e.g. taking a table out of service with a reason
+ * - Removing a table only once its upcoming reservations are moved elsewhere
+ */
+
+import {
+  UUID,
+  Table,
+  TableStatus,
+  Reservation,
+  ReservationStatus,
+  CreateTableRequest,
+  UpdateTableRequest,
+  UpdateTableStatusRequest,
+  Result
+} from '../types';
+import {
+  tableStore,
+  reservationStore,
+  waiterStore,
+  getReservationTableIds,
+  isHoldExpired,
+  SYSTEM_ACTOR
+} from '../data/store';
+import { updateReservation } from './reservationService';
+import { offerTable } from './waitlistService';
+
+/** Table error codes */
+export enum TableErrorCode {
+  TABLE_NOT_FOUND = 'TABLE_NOT_FOUND',
+  INVALID_TABLE_NUMBER = 'INVALID_TABLE_NUMBER',
+  DUPLICATE_TABLE_NUMBER = 'DUPLICATE_TABLE_NUMBER',
+  INVALID_CAPACITY = 'INVALID_CAPACITY',
+  CAPACITY_CONFLICT = 'CAPACITY_CONFLICT',
+  INVALID_STATUS = 'INVALID_STATUS',
+  REASON_REQUIRED = 'REASON_REQUIRED',
+  TABLE_IN_USE = 'TABLE_IN_USE',
+  TABLE_HAS_RESERVATIONS = 'TABLE_HAS_RESERVATIONS',
+  REASSIGNMENT_FAILED = 'REASSIGNMENT_FAILED'
+}
+
+/** Largest table (matches the largest bookable party) */
+export const MAX_TABLE_CAPACITY = 20;
+
+/** Statuses staff may set by hand; RESERVED and OCCUPIED follow bookings and seating */
+const MANUAL_STATUSES = [TableStatus.AVAILABLE, TableStatus.CLEANING, TableStatus.OUT_OF_SERVICE];
+
+/** Outcome of removing a table */
+export interface TableRemoval {
+  table: Table;
+  /** Upcoming reservations moved to other tables */
+  reassigned: Reservation[];
+}
+
+/**
+ * Builds a failed result for an error code
+ */
+function failure<T>(code: TableErrorCode, details?: Record<string, unknown>): Result<T> {
+  return { success: false, error: { code, message: getErrorMessage(code), ...(details && { details }) } };
+}
+
+/**
+ * Gets the reservations still to come on a table (booked or held, not yet seated)
+ */
+export function getUpcomingTableReservations(tableId: UUID, now: Date = new Date()): Reservation[] {
+  return reservationStore.findByTableId(tableId)
+    .filter(r =>
+      (r.status === ReservationStatus.PENDING || r.status === ReservationStatus.CONFIRMED) &&
+      !isHoldExpired(r, now) &&
+      new Date(r.endTime) > now
+    )
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+}
+
+/**
+ * Checks whether a party is seated at the table
+ */
+function isTableInUse(table: Table): boolean {
+  return table.status === TableStatus.OCCUPIED ||
+    reservationStore.findByTableId(table.id).some(r => r.status === ReservationStatus.SEATED);
+}
+
+/**
+ * Validates table number and capacities (against the current values on update)
+ */
+function validateTableFields(
+  fields: { number?: number; capacity?: number; minCapacity?: number },
+  existing?: Table
+): Result<void> {
+  if (fields.number !== undefined) {
+    if (!Number.isInteger(fields.number) || fields.number < 1) {
+      return failure(TableErrorCode.INVALID_TABLE_NUMBER);
+    }
+    const holder = tableStore.findByNumber(fields.number);
+    if (holder && holder.id !== existing?.id) {
+      return failure(TableErrorCode.DUPLICATE_TABLE_NUMBER, { number: fields.number });
+    }
+  }
+
+  const capacity = fields.capacity ?? existing?.capacity;
+  const minCapacity = fields.minCapacity ?? existing?.minCapacity ?? 1;
+  if (
+    capacity === undefined ||
+    !Number.isInteger(capacity) || capacity < 1 || capacity > MAX_TABLE_CAPACITY ||
+    !Number.isInteger(minCapacity) || minCapacity < 1 || minCapacity > capacity
+  ) {
+    return failure(TableErrorCode.INVALID_CAPACITY);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Gets a table by ID
+ */
+export function getTable(id: UUID): Result<Table> {
+  const table = tableStore.getById(id);
+  if (!table) {
+    return failure(TableErrorCode.TABLE_NOT_FOUND);
+  }
+  return { success: true, data: table };
+}
+
+/**
+ * Adds a table to the floor plan
+ */
+export function createTable(request: CreateTableRequest): Result<Table> {
+  if (request.number === undefined) {
+    return failure(TableErrorCode.INVALID_TABLE_NUMBER);
+  }
+
+  const validation = validateTableFields(request);
+  if (!validation.success) {
+    return validation as Result<Table>;
+  }
+
+  const table = tableStore.create({
+    number: request.number,
+    capacity: request.capacity,
+    minCapacity: request.minCapacity,
+    status: TableStatus.AVAILABLE,
+    section: request.section,
+    combinationGroup: request.combinationGroup
+  });
+
+  // A new table may suit a party waiting for a walk-in seat
+  offerTable(table.id);
+
+  return { success: true, data: table };
+}
+
+/**
+ * Changes a table's number, capacity, section or combination group
+ * A table cannot shrink below the parties already booked on it.
+ */
+export function updateTable(id: UUID, request: UpdateTableRequest): Result<Table> {
+  const existing = tableStore.getById(id);
+  if (!existing) {
+    return failure(TableErrorCode.TABLE_NOT_FOUND);
+  }
+
+  const validation = validateTableFields(request, existing);
+  if (!validation.success) {
+    return validation as Result<Table>;
+  }
+
+  if (request.capacity !== undefined && request.capacity < existing.capacity) {
+    const tooLarge = getUpcomingTableReservations(id).filter(r => {
+      const seats = getReservationTableIds(r).reduce((sum, tableId) =>
+        sum + (tableId === id ? request.capacity! : tableStore.getById(tableId)?.capacity ?? 0), 0);
+      return seats < r.partySize;
+    });
+    if (tooLarge.length > 0) {
+      return failure(TableErrorCode.CAPACITY_CONFLICT, { reservationIds: tooLarge.map(r => r.id) });
+    }
+  }
+
+  const updated = tableStore.update(id, {
+    ...(request.number !== undefined && { number: request.number }),
+    ...(request.capacity !== undefined && { capacity: request.capacity }),
+    ...(request.minCapacity !== undefined && { minCapacity: request.minCapacity }),
+    ...(request.section !== undefined && { section: request.section }),
+    ...(request.combinationGroup !== undefined && { combinationGroup: request.combinationGroup ?? undefined })
+  })!;
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Sets a table's status by hand
+ * Taking a table out of service needs a reason; bringing it back makes it
+ * RESERVED again if a booking still holds it.
+ */
+export function updateTableStatus(id: UUID, request: UpdateTableStatusRequest): Result<Table> {
+  const table = tableStore.getById(id);
+  if (!table) {
+    return failure(TableErrorCode.TABLE_NOT_FOUND);
+  }
+
+  if (!MANUAL_STATUSES.includes(request.status)) {
+    return failure(TableErrorCode.INVALID_STATUS, { allowed: MANUAL_STATUSES });
+  }
+
+  const reason = request.reason?.trim();
+  if (request.status === TableStatus.OUT_OF_SERVICE && !reason) {
+    return failure(TableErrorCode.REASON_REQUIRED);
+  }
+
+  if (isTableInUse(table)) {
+    return failure(TableErrorCode.TABLE_IN_USE);
+  }
+
+  const status = request.status === TableStatus.AVAILABLE && reservationStore.findActiveByTable(id)
+    ? TableStatus.RESERVED
+    : request.status;
+
+  const updated = tableStore.update(id, {
+    status,
+    outOfServiceReason: status === TableStatus.OUT_OF_SERVICE ? reason : undefined
+  })!;
+
+  if (status === TableStatus.AVAILABLE) {
+    offerTable(id);
+  }
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Removes a table from the floor plan
+ * Refused while a party is seated there. Upcoming reservations block the
+ * removal unless `reassign` is set, in which case each is moved to another
+ * table (or combination) first; if any cannot be moved the table stays.
+ */
+export async function deleteTable(
+  id: UUID,
+  options: { reassign?: boolean } = {},
+  actor: string = SYSTEM_ACTOR
+): Promise<Result<TableRemoval>> {
+  const table = tableStore.getById(id);
+  if (!table) {
+    return failure(TableErrorCode.TABLE_NOT_FOUND);
+  }
+
+  if (isTableInUse(table)) {
+    return failure(TableErrorCode.TABLE_IN_USE);
+  }
+
+  const upcoming = getUpcomingTableReservations(id);
+  if (upcoming.length > 0 && !options.reassign) {
+    return failure(TableErrorCode.TABLE_HAS_RESERVATIONS, { reservationIds: upcoming.map(r => r.id) });
+  }
+
+  // Out of service, the table is no longer offered while its bookings move
+  tableStore.update(id, { status: TableStatus.OUT_OF_SERVICE, outOfServiceReason: 'Being removed' });
+
+  const reassigned: Reservation[] = [];
+  const unplaced: UUID[] = [];
+  for (const reservation of upcoming) {
+    const current = reservationStore.getById(reservation.id)!;
+    const moved = await updateReservation(current.id, { version: current.version }, actor);
+    if (moved.success) {
+      reassigned.push(moved.data!);
+    } else {
+      unplaced.push(current.id);
+    }
+  }
+
+  if (unplaced.length > 0) {
+    tableStore.update(id, { status: table.status, outOfServiceReason: table.outOfServiceReason });
+    return failure(TableErrorCode.REASSIGNMENT_FAILED, {
+      reassignedIds: reassigned.map(r => r.id),
+      unplacedIds: unplaced
+    });
+  }
+
+  for (const waiter of waiterStore.getAll().filter(w => w.assignedTables.includes(id))) {
+    waiterStore.unassignTable(waiter.id, id);
+  }
+  tableStore.delete(id);
+
+  return { success: true, data: { table, reassigned } };
+}
+
+/**
+ * Gets human-readable error message
+ */
+function getErrorMessage(code: TableErrorCode): string {
+  const messages: Record<TableErrorCode, string> = {
+    [TableErrorCode.TABLE_NOT_FOUND]: 'Table not found.',
+    [TableErrorCode.INVALID_TABLE_NUMBER]: 'Table number must be a positive whole number.',
+    [TableErrorCode.DUPLICATE_TABLE_NUMBER]: 'Another table already has this number.',
+    [TableErrorCode.INVALID_CAPACITY]:
+      `Capacity must be between 1 and ${MAX_TABLE_CAPACITY}, with the minimum party size between 1 and the capacity.`,
+    [TableErrorCode.CAPACITY_CONFLICT]: 'Upcoming reservations on this table need more seats than the new capacity.',
+    [TableErrorCode.INVALID_STATUS]: 'Only AVAILABLE, CLEANING and OUT_OF_SERVICE can be set by hand.',
+    [TableErrorCode.REASON_REQUIRED]: 'A reason is required to take a table out of service.',
+    [TableErrorCode.TABLE_IN_USE]: 'A party is seated at this table.',
+    [TableErrorCode.TABLE_HAS_RESERVATIONS]:
+      'The table has upcoming reservations. Move them first or remove the table with reassignment.',
+    [TableErrorCode.REASSIGNMENT_FAILED]:
+      'Some upcoming reservations could not be moved to another table; the table was kept.'
+  };
+  return messages[code] || 'An unknown error occurred';
+}
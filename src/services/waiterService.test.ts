@@ -0,0 +1,267 @@
+/**
+ * Tests for Waiter Service
+ * Task #2: Walk-in Support
+ *
+ * Waiters are chosen by a seating rotation among those on shift when a party
+ * is seated, and the shift schedule drives ON_BREAK and OFF_DUTY.
+ */
+
+import {
+  createWaiter,
+  updateWaiter,
+  deleteWaiter,
+  createShift,
+  updateShift,
+  deleteShift,
+  findWaiterForService,
+  getSeatingRotation,
+  syncWaiterStatuses,
+  getWorkingWaiters,
+  WaiterErrorCode,
+  ROTATION_WINDOW_MINUTES
+} from '../services/waiterService';
+import { createReservation, updateReservationStatus } from '../services/reservationService';
+import { handleWalkIn } from '../services/walkInService';
+import { updateRestaurantSettings } from '../services/settingsService';
+import { initializeSampleData, resetStores, tableStore, waiterStore, reservationStore } from '../data/store';
+import { Reservation, Waiter, WaiterStatus, ReservationStatus, WeekdayName } from '../types';
+import { clearAllLocks } from '../utils/locking';
+
+const WEEKDAYS: WeekdayName[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+/** ISO time the given number of hours from now */
+function hoursFromNow(hours: number): string {
+  return new Date(Date.now() + hours * 3600000).toISOString();
+}
+
+/** Gets a sample waiter by name */
+function waiterNamed(name: string): Waiter {
+  return waiterStore.getAll().find(w => w.name === name)!;
+}
+
+describe('Waiter Service', () => {
+  beforeEach(() => {
+    resetStores();
+    initializeSampleData();
+    clearAllLocks();
+    updateRestaurantSettings({
+      weeklyHours: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '00:00', close: '24:00' }]]))
+    });
+  });
+
+  describe('Managing waiters', () => {
+    it('should add, rename and remove a waiter', () => {
+      const created = createWaiter({ name: '  Eve ' });
+      expect(created.data!.name).toBe('Eve');
+      expect(created.data!.status).toBe(WaiterStatus.AVAILABLE);
+
+      expect(updateWaiter(created.data!.id, { name: 'Evelyn' }).data!.name).toBe('Evelyn');
+      expect(updateWaiter(created.data!.id, { name: ' ' }).error?.code).toBe(WaiterErrorCode.INVALID_NAME);
+
+      expect(deleteWaiter(created.data!.id).success).toBe(true);
+      expect(waiterStore.getById(created.data!.id)).toBeUndefined();
+    });
+
+    it('should not remove a waiter who still has tables', () => {
+      const alice = waiterNamed('Alice');
+      waiterStore.assignTable(alice.id, tableStore.findByNumber(1)!.id);
+
+      expect(deleteWaiter(alice.id).error?.code).toBe(WaiterErrorCode.WAITER_HAS_TABLES);
+    });
+  });
+
+  describe('Scheduling shifts', () => {
+    it('should reject invalid times, stray breaks and double-booked waiters', () => {
+      const alice = waiterNamed('Alice');
+
+      expect(createShift(alice.id, { startTime: hoursFromNow(2), endTime: hoursFromNow(1) }).error?.code)
+        .toBe(WaiterErrorCode.INVALID_SHIFT_TIME);
+      expect(createShift(alice.id, { startTime: hoursFromNow(0), endTime: hoursFromNow(20) }).error?.code)
+        .toBe(WaiterErrorCode.INVALID_SHIFT_TIME);
+      expect(createShift(alice.id, {
+        startTime: hoursFromNow(0),
+        endTime: hoursFromNow(4),
+        breaks: [{ startTime: hoursFromNow(3), endTime: hoursFromNow(5) }]
+      }).error?.code).toBe(WaiterErrorCode.INVALID_BREAK);
+
+      expect(createShift(alice.id, { startTime: hoursFromNow(0), endTime: hoursFromNow(4) }).success).toBe(true);
+      expect(createShift(alice.id, { startTime: hoursFromNow(3), endTime: hoursFromNow(6) }).error?.code)
+        .toBe(WaiterErrorCode.SHIFT_OVERLAP);
+    });
+
+    it('should choose by status alone while no shift is scheduled', () => {
+      expect(findWaiterForService(new Date(hoursFromNow(48)))).toBeDefined();
+    });
+
+    it('should assign a seated reservation to a waiter on shift when it is seated', async () => {
+      const alice = waiterNamed('Alice');
+      const bob = waiterNamed('Bob');
+      createShift(alice.id, { startTime: hoursFromNow(4), endTime: hoursFromNow(10) });
+      createShift(bob.id, { startTime: hoursFromNow(-1), endTime: hoursFromNow(3) });
+
+      const booked = await createReservation({
+        customerName: 'Evening Guest',
+        partySize: 2,
+        startTime: hoursFromNow(5)
+      });
+      expect(booked.data!.waiterId).toBeUndefined();
+
+      const seated = updateReservationStatus(booked.data!.id, ReservationStatus.SEATED, booked.data!.version);
+
+      expect(seated.data!.waiterId).toBe(bob.id);
+      expect(waiterStore.getById(bob.id)!.assignedTables).toContain(booked.data!.tableId);
+    });
+
+    it('should prefer the waiter working the party\'s section and skip waiters on a break', async () => {
+      const alice = waiterNamed('Alice');
+      const bob = waiterNamed('Bob');
+      const charlie = waiterNamed('Charlie');
+      createShift(alice.id, { startTime: hoursFromNow(0), endTime: hoursFromNow(8), section: 'Main' });
+      createShift(bob.id, { startTime: hoursFromNow(0), endTime: hoursFromNow(8), section: 'Patio' });
+      createShift(charlie.id, {
+        startTime: hoursFromNow(0),
+        endTime: hoursFromNow(8),
+        section: 'Patio',
+        breaks: [{ startTime: hoursFromNow(1), endTime: hoursFromNow(2) }]
+      });
+      const patioBooking = await createReservation({
+        customerName: 'Patio Party',
+        partySize: 4,
+        startTime: hoursFromNow(0.5),
+        preferredTableId: tableStore.findByNumber(6)!.id
+      });
+      updateReservationStatus(patioBooking.data!.id, ReservationStatus.SEATED, patioBooking.data!.version);
+      expect(reservationStore.getById(patioBooking.data!.id)!.waiterId).toBe(bob.id);
+
+      const at = new Date(hoursFromNow(1.5));
+      expect(findWaiterForService(at, 'Patio')!.id).toBe(bob.id);
+      expect(findWaiterForService(at, 'Main')!.id).toBe(alice.id);
+      expect(findWaiterForService(new Date(hoursFromNow(3)), 'Patio')!.id).toBe(charlie.id);
+      expect(findWaiterForService(new Date(hoursFromNow(9)), 'Patio')).toBeUndefined();
+    });
+
+    it('should seat a walk-in without a waiter when nobody is on shift', async () => {
+      createShift(waiterNamed('Alice').id, { startTime: hoursFromNow(5), endTime: hoursFromNow(9) });
+
+      const result = await handleWalkIn({ customerName: 'Early Bird', partySize: 2 });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.waiter).toBeUndefined();
+    });
+  });
+
+  describe('Seating rotation', () => {
+    /** Walks in a party of two, then lets it leave */
+    async function seatAndClear(): Promise<Reservation> {
+      const walkIn = await handleWalkIn({ customerName: 'Quick Drink', partySize: 2 });
+      const reservation = walkIn.data!.reservation;
+      return updateReservationStatus(reservation.id, ReservationStatus.COMPLETED, reservation.version).data!;
+    }
+
+    beforeEach(() => {
+      ['Charlie', 'Diana'].forEach(name => waiterStore.delete(waiterNamed(name).id));
+    });
+
+    it('should skip a waiter who was just seated, even once the table has left', async () => {
+      const first = await seatAndClear();
+      const rotation = getSeatingRotation();
+
+      expect(first.waiterId).toBe(waiterNamed('Alice').id);
+      expect(rotation.map(e => e.waiter.name)).toEqual(['Bob', 'Alice']);
+      expect(rotation[1]).toMatchObject({ activeCovers: 0, recentSeatings: 1, lastSeatedAt: first.seatedAt });
+    });
+
+    it('should put the waiter seated longest ago first once seatings are no longer recent', async () => {
+      await seatAndClear();
+      await seatAndClear();
+
+      const later = new Date(Date.now() + (ROTATION_WINDOW_MINUTES + 1) * 60000);
+      const rotation = getSeatingRotation(later);
+
+      expect(rotation.every(e => e.recentSeatings === 0)).toBe(true);
+      expect(rotation.map(e => e.waiter.name)).toEqual(['Alice', 'Bob']);
+    });
+
+    it('should list the section\'s waiters ahead of the rest', () => {
+      createShift(waiterNamed('Alice').id, { startTime: hoursFromNow(-1), endTime: hoursFromNow(4), section: 'Main' });
+      createShift(waiterNamed('Bob').id, { startTime: hoursFromNow(-1), endTime: hoursFromNow(4), section: 'Patio' });
+
+      const rotation = getSeatingRotation(new Date(), 'Patio');
+
+      expect(rotation.map(e => [e.waiter.name, e.inSection])).toEqual([['Bob', true], ['Alice', false]]);
+    });
+
+    it('should leave out waiters on a break', () => {
+      createShift(waiterNamed('Alice').id, {
+        startTime: hoursFromNow(-1),
+        endTime: hoursFromNow(4),
+        section: 'Patio',
+        breaks: [{ startTime: hoursFromNow(1), endTime: hoursFromNow(2) }]
+      });
+      createShift(waiterNamed('Bob').id, { startTime: hoursFromNow(-1), endTime: hoursFromNow(4), section: 'Main' });
+
+      const duringBreak = getSeatingRotation(new Date(hoursFromNow(1.5)), 'Patio');
+      const afterBreak = getSeatingRotation(new Date(hoursFromNow(3)), 'Patio');
+
+      expect(duringBreak.map(e => e.waiter.name)).toEqual(['Bob']);
+      expect(afterBreak.map(e => [e.waiter.name, e.inSection])).toEqual([['Alice', true], ['Bob', false]]);
+    });
+
+    it('should ignore the section while no shift is scheduled', () => {
+      const rotation = getSeatingRotation(new Date(), 'Patio');
+
+      expect(rotation.map(e => [e.waiter.name, e.inSection])).toEqual([['Alice', false], ['Bob', false]]);
+    });
+  });
+
+  describe('Schedule-driven status', () => {
+    it('should mark waiters off duty or on a break from the schedule', () => {
+      const alice = waiterNamed('Alice');
+      const shift = createShift(alice.id, {
+        startTime: hoursFromNow(-1),
+        endTime: hoursFromNow(4),
+        breaks: [{ startTime: hoursFromNow(1), endTime: hoursFromNow(1.5) }]
+      }).data!;
+
+      expect(waiterStore.getById(alice.id)!.status).toBe(WaiterStatus.AVAILABLE);
+      expect(waiterNamed('Bob').status).toBe(WaiterStatus.OFF_DUTY);
+
+      syncWaiterStatuses(new Date(hoursFromNow(1.2)));
+      expect(waiterStore.getById(alice.id)!.status).toBe(WaiterStatus.ON_BREAK);
+
+      // A table assigned during the break does not end it
+      waiterStore.assignTable(alice.id, tableStore.findByNumber(1)!.id);
+      expect(waiterStore.getById(alice.id)!.status).toBe(WaiterStatus.ON_BREAK);
+
+      syncWaiterStatuses(new Date(hoursFromNow(2)));
+      expect(waiterStore.getById(alice.id)!.status).toBe(WaiterStatus.BUSY);
+
+      updateShift(shift.id, { endTime: hoursFromNow(3) });
+      syncWaiterStatuses(new Date(hoursFromNow(3.5)));
+      expect(waiterStore.getById(alice.id)!.status).toBe(WaiterStatus.OFF_DUTY);
+    });
+
+    it('should return everyone to the floor when the last shift is removed', () => {
+      const shift = createShift(waiterNamed('Alice').id, { startTime: hoursFromNow(-1), endTime: hoursFromNow(4) });
+      expect(waiterNamed('Bob').status).toBe(WaiterStatus.OFF_DUTY);
+
+      deleteShift(shift.data!.id);
+
+      expect(waiterStore.getAll().every(w => w.status === WaiterStatus.AVAILABLE)).toBe(true);
+    });
+
+    it('should list who works a service', () => {
+      createShift(waiterNamed('Bob').id, { startTime: hoursFromNow(1), endTime: hoursFromNow(6) });
+      createShift(waiterNamed('Alice').id, { startTime: hoursFromNow(4), endTime: hoursFromNow(10) });
+      createShift(waiterNamed('Diana').id, { startTime: hoursFromNow(11), endTime: hoursFromNow(15) });
+
+      const working = getWorkingWaiters(new Date(hoursFromNow(2)), new Date(hoursFromNow(8)));
+
+      expect(working.map(w => w.waiter.name)).toEqual(['Alice', 'Bob']);
+      expect(getWorkingWaiters(new Date(hoursFromNow(5))).map(w => w.waiter.name)).toEqual(['Alice', 'Bob']);
+      expect(getWorkingWaiters(new Date(hoursFromNow(7))).map(w => w.waiter.name)).toEqual(['Alice']);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Waiter Service
+ * Task #2: Walk-in Support
+ *
+ * Waiters and their shift schedule:
+ * - Add, rename and remove waiters
+ * - Schedule shifts with a section and breaks
+ * - A seating rotation choosing the waiter for each party being seated,
+ *   balancing active covers and recent seatings within sections
+ * - Drive ON_BREAK and OFF_DUTY from the schedule
+ *
+ * Until any shift is scheduled, every waiter not on a break or off duty is
+ * on the floor.
+ */
+
+import {
+  UUID,
+  Waiter,
+  WaiterStatus,
+  Reservation,
+  ReservationStatus,
+  Shift,
+  ShiftBreak,
+  CreateWaiterRequest,
+  UpdateWaiterRequest,
+  CreateShiftRequest,
+  UpdateShiftRequest,
+  ISODateTime,
+  Result
+} from '../types';
+import { waiterStore, shiftStore, reservationStore, isOnBreak } from '../data/store';
+
+/** Waiter error codes */
+export enum WaiterErrorCode {
+  WAITER_NOT_FOUND = 'WAITER_NOT_FOUND',
+  SHIFT_NOT_FOUND = 'SHIFT_NOT_FOUND',
+  INVALID_NAME = 'INVALID_NAME',
+  INVALID_SHIFT_TIME = 'INVALID_SHIFT_TIME',
+  INVALID_BREAK = 'INVALID_BREAK',
+  SHIFT_OVERLAP = 'SHIFT_OVERLAP',
+  WAITER_HAS_TABLES = 'WAITER_HAS_TABLES'
+}
+
+/** Longest shift */
+export const MAX_SHIFT_HOURS = 16;
+
+/** Seatings this recent count against a waiter's turn in the rotation */
+export const ROTATION_WINDOW_MINUTES = 30;
+
+/** A waiter's place in the seating rotation */
+export interface RotationEntry {
+  waiter: Waiter;
+  /** Works the section of the party being seated */
+  inSection: boolean;
+  /** Guests currently seated with them */
+  activeCovers: number;
+  activeTables: number;
+  /** Parties seated with them within the rotation window */
+  recentSeatings: number;
+  lastSeatedAt?: ISODateTime;
+}
+
+/** A waiter with their shifts in a time range */
+export interface WorkingWaiter {
+  waiter: Waiter;
+  shifts: Shift[];
+}
+
+/**
+ * Builds a failed result for an error code
+ */
+function failure<T>(code: WaiterErrorCode, details?: Record<string, unknown>): Result<T> {
+  return { success: false, error: { code, message: getErrorMessage(code), ...(details && { details }) } };
+}
+
+/**
+ * Checks whether a shift schedule is in use (any shift scheduled)
+ */
+export function isScheduleInUse(): boolean {
+  return shiftStore.count() > 0;
+}
+
+/**
+ * Gets the shift a waiter works at a moment, if any
+ */
+function getCoveringShift(waiterId: UUID, at: Date): Shift | undefined {
+  return shiftStore.findCovering(at).find(s => s.waiterId === waiterId);
+}
+
+/**
+ * Chooses the waiter for a party being seated: the head of the seating rotation
+ */
+export function findWaiterForService(at: Date = new Date(), section?: string): Waiter | undefined {
+  return getSeatingRotation(at, section)[0]?.waiter;
+}
+
+/**
+ * Gets the seating rotation: who takes the next party, in order
+ * With a schedule, only waiters on shift (and not on a break) are in the
+ * rotation, those working the party's section first; without one, every
+ * waiter not on a break or off duty. Next come the waiters with the fewest
+ * active covers, then the fewest recent seatings, then the longest since
+ * their last seating (looking back one longest shift).
+ */
+export function getSeatingRotation(at: Date = new Date(), section?: string): RotationEntry[] {
+  let candidates: { waiter: Waiter; inSection: boolean }[];
+  if (isScheduleInUse()) {
+    candidates = shiftStore.findCovering(at)
+      .filter(s => !isOnBreak(s, at))
+      .map(s => ({
+        waiter: waiterStore.getById(s.waiterId)!,
+        inSection: section !== undefined && s.section === section
+      }))
+      .filter(c => c.waiter !== undefined);
+  } else {
+    candidates = [...waiterStore.findAvailable(), ...waiterStore.findByStatus(WaiterStatus.BUSY)]
+      .map(waiter => ({ waiter, inSection: false }));
+  }
+
+  // Parties seated now, plus anyone seated since the longest shift began
+  const windowStart = at.getTime() - ROTATION_WINDOW_MINUTES * 60000;
+  const isSeatedBy = (r: Reservation) => r.seatedAt !== undefined && new Date(r.seatedAt) <= at;
+  const seatedNow = reservationStore.findByStatus(ReservationStatus.SEATED).filter(isSeatedBy);
+  const shiftStart = new Date(at.getTime() - MAX_SHIFT_HOURS * 3600000);
+  const seatedThisShift = new Map(
+    [...reservationStore.findByTimeRange(shiftStart, new Date(at.getTime() + 1)).filter(isSeatedBy), ...seatedNow]
+      .map(r => [r.id, r])
+  );
+
+  const entries = candidates.map(({ waiter, inSection }): RotationEntry => {
+    const active = seatedNow.filter(r => r.waiterId === waiter.id);
+    const seatings = [...seatedThisShift.values()]
+      .filter(r => r.waiterId === waiter.id)
+      .map(r => r.seatedAt!)
+      .sort();
+    return {
+      waiter,
+      inSection,
+      activeCovers: active.reduce((sum, r) => sum + r.partySize, 0),
+      activeTables: waiter.assignedTables.length,
+      recentSeatings: seatings.filter(seatedAt => new Date(seatedAt).getTime() > windowStart).length,
+      lastSeatedAt: seatings[seatings.length - 1]
+    };
+  });
+
+  return entries.sort((a, b) =>
+    Number(b.inSection) - Number(a.inSection) ||
+    a.activeCovers - b.activeCovers ||
+    a.recentSeatings - b.recentSeatings ||
+    (a.lastSeatedAt ?? '').localeCompare(b.lastSeatedAt ?? '') ||
+    a.waiter.name.localeCompare(b.waiter.name)
+  );
+}
+
+/**
+ * Gets the status the schedule gives a waiter at a moment
+ */
+function getScheduledStatus(waiter: Waiter, now: Date): WaiterStatus {
+  const shift = getCoveringShift(waiter.id, now);
+  if (!shift) {
+    return WaiterStatus.OFF_DUTY;
+  }
+  if (isOnBreak(shift, now)) {
+    return WaiterStatus.ON_BREAK;
+  }
+  return waiter.assignedTables.length > 0 ? WaiterStatus.BUSY : WaiterStatus.AVAILABLE;
+}
+
+/**
+ * Brings one waiter's status in line with the schedule
+ * Without a schedule, a waiter left ON_BREAK or OFF_DUTY returns to the floor.
+ */
+function refreshWaiterStatus(waiter: Waiter, now: Date): boolean {
+  const status = isScheduleInUse()
+    ? getScheduledStatus(waiter, now)
+    : waiter.assignedTables.length > 0 ? WaiterStatus.BUSY : WaiterStatus.AVAILABLE;
+
+  if (status === waiter.status) {
+    return false;
+  }
+  waiterStore.update(waiter.id, { status });
+  return true;
+}
+
+/**
+ * Brings every waiter's status in line with the schedule (runs from the
+ * background scheduler), returning how many changed
+ */
+export function syncWaiterStatuses(now: Date = new Date()): number {
+  if (!isScheduleInUse()) {
+    return 0;
+  }
+  return waiterStore.getAll().filter(w => refreshWaiterStatus(w, now)).length;
+}
+
+/**
+ * Gets the waiters working during a time range (a single moment when `to` is omitted)
+ */
+export function getWorkingWaiters(from: Date = new Date(), to?: Date): WorkingWaiter[] {
+  const shifts = to && to > from
+    ? shiftStore.findOverlapping(from, to)
+    : shiftStore.findCovering(from);
+
+  const byWaiter = new Map<UUID, Shift[]>();
+  for (const shift of shifts) {
+    byWaiter.set(shift.waiterId, [...(byWaiter.get(shift.waiterId) ?? []), shift]);
+  }
+
+  return [...byWaiter.entries()]
+    .map(([waiterId, waiterShifts]) => ({
+      waiter: waiterStore.getById(waiterId)!,
+      shifts: waiterShifts.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    }))
+    .filter(w => w.waiter !== undefined)
+    .sort((a, b) => a.waiter.name.localeCompare(b.waiter.name));
+}
+
+/**
+ * Adds a waiter
+ */
+export function createWaiter(request: CreateWaiterRequest): Result<Waiter> {
+  const name = request.name?.trim();
+  if (!name) {
+    return failure(WaiterErrorCode.INVALID_NAME);
+  }
+
+  const waiter = waiterStore.create({ name, status: WaiterStatus.AVAILABLE, assignedTables: [] });
+  refreshWaiterStatus(waiter, new Date());
+
+  return { success: true, data: waiterStore.getById(waiter.id)! };
+}
+
+/**
+ * Renames a waiter
+ */
+export function updateWaiter(id: UUID, request: UpdateWaiterRequest): Result<Waiter> {
+  if (!waiterStore.getById(id)) {
+    return failure(WaiterErrorCode.WAITER_NOT_FOUND);
+  }
+
+  const name = request.name?.trim();
+  if (request.name !== undefined && !name) {
+    return failure(WaiterErrorCode.INVALID_NAME);
+  }
+
+  const updated = waiterStore.update(id, { ...(name !== undefined && { name }) })!;
+  return { success: true, data: updated };
+}
+
+/**
+ * Removes a waiter and their shifts
+ * Refused while the waiter still has tables.
+ */
+export function deleteWaiter(id: UUID): Result<Waiter> {
+  const waiter = waiterStore.getById(id);
+  if (!waiter) {
+    return failure(WaiterErrorCode.WAITER_NOT_FOUND);
+  }
+
+  if (waiter.assignedTables.length > 0) {
+    return failure(WaiterErrorCode.WAITER_HAS_TABLES, { tableIds: waiter.assignedTables });
+  }
+
+  shiftStore.findByWaiterId(id).forEach(s => shiftStore.delete(s.id));
+  waiterStore.delete(id);
+
+  // Removing the last shift ends the schedule
+  if (!isScheduleInUse()) {
+    waiterStore.getAll().forEach(w => refreshWaiterStatus(w, new Date()));
+  }
+
+  return { success: true, data: waiter };
+}
+
+/**
+ * Validates a shift's times and breaks against the waiter's other shifts
+ */
+function validateShift(
+  waiterId: UUID,
+  shift: { startTime: string; endTime: string; breaks: ShiftBreak[] },
+  excludeId?: UUID
+): Result<void> {
+  const start = new Date(shift.startTime);
+  const end = new Date(shift.endTime);
+  if (
+    isNaN(start.getTime()) || isNaN(end.getTime()) ||
+    end <= start || end.getTime() - start.getTime() > MAX_SHIFT_HOURS * 3600000
+  ) {
+    return failure(WaiterErrorCode.INVALID_SHIFT_TIME);
+  }
+
+  if (!Array.isArray(shift.breaks)) {
+    return failure(WaiterErrorCode.INVALID_BREAK);
+  }
+  const breaks = [...shift.breaks].sort((a, b) =>
+    new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  for (let i = 0; i < breaks.length; i++) {
+    const breakStart = new Date(breaks[i].startTime);
+    const breakEnd = new Date(breaks[i].endTime);
+    if (
+      isNaN(breakStart.getTime()) || isNaN(breakEnd.getTime()) ||
+      breakEnd <= breakStart || breakStart < start || breakEnd > end ||
+      (i > 0 && breakStart < new Date(breaks[i - 1].endTime))
+    ) {
+      return failure(WaiterErrorCode.INVALID_BREAK);
+    }
+  }
+
+  const overlapping = shiftStore.findByWaiterId(waiterId).find(s =>
+    s.id !== excludeId && new Date(s.startTime) < end && new Date(s.endTime) > start);
+  if (overlapping) {
+    return failure(WaiterErrorCode.SHIFT_OVERLAP, { shiftId: overlapping.id });
+  }
+
+  return { success: true };
+}
+
+/**
+ * Gets a waiter's shifts, earliest first
+ */
+export function getWaiterShifts(waiterId: UUID): Result<Shift[]> {
+  if (!waiterStore.getById(waiterId)) {
+    return failure(WaiterErrorCode.WAITER_NOT_FOUND);
+  }
+  return { success: true, data: shiftStore.findByWaiterId(waiterId) };
+}
+
+/**
+ * Schedules a shift for a waiter
+ */
+export function createShift(waiterId: UUID, request: CreateShiftRequest): Result<Shift> {
+  if (!waiterStore.getById(waiterId)) {
+    return failure(WaiterErrorCode.WAITER_NOT_FOUND);
+  }
+
+  const breaks = request.breaks ?? [];
+  const validation = validateShift(waiterId, { ...request, breaks });
+  if (!validation.success) {
+    return validation as Result<Shift>;
+  }
+
+  const shift = shiftStore.create({
+    waiterId,
+    startTime: new Date(request.startTime).toISOString(),
+    endTime: new Date(request.endTime).toISOString(),
+    section: request.section,
+    breaks: breaks.map(normalizeBreak)
+  });
+
+  // The first shift puts every waiter on the schedule
+  waiterStore.getAll().forEach(w => refreshWaiterStatus(w, new Date()));
+
+  return { success: true, data: shift };
+}
+
+/**
+ * Changes a shift's times, section or breaks
+ */
+export function updateShift(id: UUID, request: UpdateShiftRequest): Result<Shift> {
+  const existing = shiftStore.getById(id);
+  if (!existing) {
+    return failure(WaiterErrorCode.SHIFT_NOT_FOUND);
+  }
+
+  const merged = {
+    startTime: request.startTime ?? existing.startTime,
+    endTime: request.endTime ?? existing.endTime,
+    breaks: request.breaks ?? existing.breaks
+  };
+  const validation = validateShift(existing.waiterId, merged, id);
+  if (!validation.success) {
+    return validation as Result<Shift>;
+  }
+
+  const updated = shiftStore.update(id, {
+    startTime: new Date(merged.startTime).toISOString(),
+    endTime: new Date(merged.endTime).toISOString(),
+    breaks: merged.breaks.map(normalizeBreak),
+    ...(request.section !== undefined && { section: request.section ?? undefined })
+  })!;
+
+  refreshWaiterStatus(waiterStore.getById(existing.waiterId)!, new Date());
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Removes a shift
+ */
+export function deleteShift(id: UUID): Result<Shift> {
+  const shift = shiftStore.getById(id);
+  if (!shift) {
+    return failure(WaiterErrorCode.SHIFT_NOT_FOUND);
+  }
+
+  shiftStore.delete(id);
+  waiterStore.getAll().forEach(w => refreshWaiterStatus(w, new Date()));
+
+  return { success: true, data: shift };
+}
+
+/**
+ * Stores a break's times as UTC ISO strings
+ */
+function normalizeBreak(shiftBreak: ShiftBreak): ShiftBreak {
+  return {
+    startTime: new Date(shiftBreak.startTime).toISOString(),
+    endTime: new Date(shiftBreak.endTime).toISOString()
+  };
+}
+
+/**
+ * Gets human-readable error message
+ */
+function getErrorMessage(code: WaiterErrorCode): string {
+  const messages: Record<WaiterErrorCode, string> = {
+    [WaiterErrorCode.WAITER_NOT_FOUND]: 'Waiter not found.',
+    [WaiterErrorCode.SHIFT_NOT_FOUND]: 'Shift not found.',
+    [WaiterErrorCode.INVALID_NAME]: 'Name is required.',
+    [WaiterErrorCode.INVALID_SHIFT_TIME]:
+      `A shift needs valid start and end times, ending after it starts and lasting at most ${MAX_SHIFT_HOURS} hours.`,
+    [WaiterErrorCode.INVALID_BREAK]: 'Breaks must fall within the shift and must not overlap each other.',
+    [WaiterErrorCode.SHIFT_OVERLAP]: 'The waiter already has a shift at this time.',
+    [WaiterErrorCode.WAITER_HAS_TABLES]: 'The waiter still has tables. Reassign or finish them first.'
+  };
+  return messages[code] || 'An unknown error occurred';
+}
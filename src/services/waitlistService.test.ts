@@ -0,0 +1,213 @@
+/**
+ * Tests for Waitlist Service
+ * Task #2: Walk-in Support
+ *
+ * When no table is free, walk-in parties join a queue and are offered
+ * the next suitable table as soon as one is freed.
+ */
+
+import {
+  addToWaitlist,
+  getWaitlist,
+  getWaitlistEntry,
+  seatWaitlistEntry,
+  markWaitlistEntryLeft,
+  WaitlistErrorCode
+} from '../services/waitlistService';
+import { handleWalkIn, WalkInErrorCode } from '../services/walkInService';
+import { updateReservationStatus } from '../services/reservationService';
+import { updateRestaurantSettings } from '../services/settingsService';
+import {
+  initializeSampleData,
+  resetStores,
+  tableStore,
+  reservationStore,
+  waitlistStore
+} from '../data/store';
+import { TableStatus, WaitlistStatus, ReservationStatus } from '../types';
+import { acquireLock, clearAllLocks, getTimeslotLockResources, releaseLock } from '../utils/locking';
+
+/** Occupies every table except the given ones */
+function occupyAllTablesExcept(...tableIds: string[]): void {
+  tableStore.getAll()
+    .filter(t => !tableIds.includes(t.id))
+    .forEach(t => tableStore.update(t.id, { status: TableStatus.OCCUPIED }));
+}
+
+describe('Waitlist Service', () => {
+  beforeEach(() => {
+    resetStores();
+    initializeSampleData();
+    clearAllLocks();
+  });
+
+  describe('Joining the queue', () => {
+    it('should queue a party when no tables are free', () => {
+      occupyAllTablesExcept();
+
+      const result = addToWaitlist({ customerName: 'Queued', partySize: 2, phone: '555-0101' });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.entry.status).toBe(WaitlistStatus.WAITING);
+      expect(result.data!.entry.phone).toBe('555-0101');
+      expect(result.data!.position).toBe(1);
+    });
+
+    it('should report positions in arrival order', () => {
+      occupyAllTablesExcept();
+
+      const first = addToWaitlist({ customerName: 'First', partySize: 2 });
+      const second = addToWaitlist({ customerName: 'Second', partySize: 4 });
+
+      expect(second.data!.position).toBe(2);
+      expect(getWaitlist().map(p => p.entry.id)).toEqual([first.data!.entry.id, second.data!.entry.id]);
+      expect(getWaitlistEntry(second.data!.entry.id).data!.position).toBe(2);
+    });
+
+    it('should offer a free table immediately', () => {
+      const result = addToWaitlist({ customerName: 'Lucky', partySize: 2 });
+
+      expect(result.data!.entry.status).toBe(WaitlistStatus.NOTIFIED);
+      expect(result.data!.entry.offeredTableId).toBeDefined();
+    });
+
+    it('should reject an invalid party size', () => {
+      const result = addToWaitlist({ customerName: 'Too Many', partySize: 0 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(WaitlistErrorCode.INVALID_PARTY_SIZE);
+    });
+  });
+
+  describe('Offering freed tables', () => {
+    it('should offer a freed table to the first party that fits', async () => {
+      const seated = await handleWalkIn({ customerName: 'Diner', partySize: 2 });
+      const tableId = seated.data!.table.id;
+      occupyAllTablesExcept(tableId);
+
+      const tooBig = addToWaitlist({ customerName: 'Big Party', partySize: 6 });
+      const fits = addToWaitlist({ customerName: 'Couple', partySize: 2 });
+
+      updateReservationStatus(seated.data!.reservation.id, ReservationStatus.COMPLETED, seated.data!.reservation.version);
+
+      expect(getWaitlistEntry(tooBig.data!.entry.id).data!.entry.status).toBe(WaitlistStatus.WAITING);
+      const offered = getWaitlistEntry(fits.data!.entry.id).data!.entry;
+      expect(offered.status).toBe(WaitlistStatus.NOTIFIED);
+      expect(offered.offeredTableId).toBe(tableId);
+    });
+
+    it('should seat a notified party at the offered table', async () => {
+      const seated = await handleWalkIn({ customerName: 'Diner', partySize: 2 });
+      const tableId = seated.data!.table.id;
+      occupyAllTablesExcept(tableId);
+      const queued = addToWaitlist({ customerName: 'Next Up', partySize: 2 });
+
+      updateReservationStatus(seated.data!.reservation.id, ReservationStatus.COMPLETED, seated.data!.reservation.version);
+      const result = await seatWaitlistEntry(queued.data!.entry.id);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.entry.status).toBe(WaitlistStatus.SEATED);
+      expect(result.data!.seating.table.id).toBe(tableId);
+      expect(result.data!.seating.reservation.status).toBe(ReservationStatus.SEATED);
+      expect(tableStore.getById(tableId)!.status).toBe(TableStatus.OCCUPIED);
+      expect(getWaitlist().length).toBe(0);
+    });
+
+    it('should wait for a booking that holds the same time before seating', async () => {
+      const table = tableStore.findByNumber(1)!;
+      occupyAllTablesExcept(table.id);
+      const queued = addToWaitlist({ customerName: 'Next Up', partySize: 2 });
+      const now = new Date();
+      const [bucket] = getTimeslotLockResources(now.toISOString(), new Date(now.getTime() + 1).toISOString());
+      acquireLock('timeslot', bucket.id, 'booking');
+
+      const seating = seatWaitlistEntry(queued.data!.entry.id);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(tableStore.getById(table.id)!.status).toBe(TableStatus.AVAILABLE);
+
+      releaseLock('timeslot', bucket.id, 'booking');
+      const result = await seating;
+
+      expect(result.success).toBe(true);
+      expect(tableStore.getById(table.id)!.status).toBe(TableStatus.OCCUPIED);
+    });
+
+    it('should pass the offer on when a notified party leaves', () => {
+      const table = tableStore.findByNumber(1)!;
+      occupyAllTablesExcept(table.id);
+      const first = addToWaitlist({ customerName: 'First', partySize: 2 });
+      const second = addToWaitlist({ customerName: 'Second', partySize: 2 });
+      expect(first.data!.entry.offeredTableId).toBe(table.id);
+
+      const left = markWaitlistEntryLeft(first.data!.entry.id);
+
+      expect(left.data!.status).toBe(WaitlistStatus.LEFT);
+      const next = getWaitlistEntry(second.data!.entry.id).data!.entry;
+      expect(next.status).toBe(WaitlistStatus.NOTIFIED);
+      expect(next.offeredTableId).toBe(table.id);
+    });
+
+    it('should keep offered tables away from other walk-ins', async () => {
+      const table = tableStore.findByNumber(1)!;
+      occupyAllTablesExcept(table.id);
+      addToWaitlist({ customerName: 'Queued', partySize: 2 });
+
+      const walkIn = await handleWalkIn({ customerName: 'Queue Jumper', partySize: 2 });
+
+      expect(walkIn.success).toBe(false);
+      expect(walkIn.error?.code).toBe(WalkInErrorCode.NO_AVAILABLE_TABLES);
+    });
+
+    it('should judge a table by how long the waiting party would stay', () => {
+      updateRestaurantSettings({ durationPolicy: { defaultMinutes: 90, rules: [{ maxPartySize: 2, minutes: 30 }] } });
+      const table = tableStore.findByNumber(5)!;
+      occupyAllTablesExcept(table.id);
+      const now = Date.now();
+      reservationStore.create({
+        customerId: 'booked',
+        customerName: 'Booked Guest',
+        partySize: 4,
+        tableId: table.id,
+        startTime: new Date(now + 40 * 60000).toISOString(),
+        endTime: new Date(now + 130 * 60000).toISOString(),
+        status: ReservationStatus.CONFIRMED,
+        isWalkIn: false,
+        timezone: 'UTC',
+        version: 1
+      });
+
+      const foursome = addToWaitlist({ customerName: 'Foursome', partySize: 4 });
+      const couple = addToWaitlist({ customerName: 'Quick Coffee', partySize: 2 });
+
+      // Ninety minutes would run into the booking; half an hour does not
+      expect(getWaitlistEntry(foursome.data!.entry.id).data!.entry.status).toBe(WaitlistStatus.WAITING);
+      expect(getWaitlistEntry(couple.data!.entry.id).data!.entry.offeredTableId).toBe(table.id);
+    });
+
+    it('should withdraw the offer when the party cannot be seated at the table', async () => {
+      const table = tableStore.findByNumber(1)!;
+      occupyAllTablesExcept(table.id);
+      const queued = addToWaitlist({ customerName: 'Next Up', partySize: 2 });
+      expect(queued.data!.entry.offeredTableId).toBe(table.id);
+      tableStore.update(table.id, { status: TableStatus.OCCUPIED });
+
+      const result = await seatWaitlistEntry(queued.data!.entry.id);
+
+      expect(result.success).toBe(false);
+      const entry = getWaitlistEntry(queued.data!.entry.id).data!.entry;
+      expect(entry.status).toBe(WaitlistStatus.WAITING);
+      expect(entry.offeredTableId).toBeUndefined();
+      expect(waitlistStore.findByOfferedTable(table.id)).toBeUndefined();
+    });
+
+    it('should not seat a party that has not been offered a table', async () => {
+      occupyAllTablesExcept();
+      const queued = addToWaitlist({ customerName: 'Waiting', partySize: 2 });
+
+      const result = await seatWaitlistEntry(queued.data!.entry.id);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(WaitlistErrorCode.INVALID_STATUS);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Waitlist Service
+ * Task #2: Walk-in Support
+ *
+ * Functionality:
+ * - Queue walk-in parties when no suitable table is free
+ * - Quote a wait time and report each party's queue position
+ * - Offer freed tables to the first party that fits
+ * - Seat notified parties or record that they left
+ */
+
+import {
+  UUID,
+  WaitlistEntry,
+  WaitlistStatus,
+  WaitlistRequest,
+  TableStatus,
+  Result
+} from '../types';
+import { tableStore, waitlistStore, seatsParty, SYSTEM_ACTOR } from '../data/store';
+import { nowUTC } from '../utils/timezone';
+import { getSeatingDuration } from './settingsService';
+import {
+  getEstimatedWaitTime,
+  getWalkInSeatingWindow,
+  seatWalkInAtTable,
+  WalkInResult
+} from './walkInService';
+
+/** Waitlist error codes */
+export enum WaitlistErrorCode {
+  INVALID_PARTY_SIZE = 'INVALID_PARTY_SIZE',
+  INVALID_CUSTOMER_NAME = 'INVALID_CUSTOMER_NAME',
+  ENTRY_NOT_FOUND = 'ENTRY_NOT_FOUND',
+  INVALID_STATUS = 'INVALID_STATUS'
+}
+
+/** Waitlist entry with its place in the queue */
+export interface WaitlistPosition {
+  entry: WaitlistEntry;
+  /** 1-based position among parties still in the queue, 0 once seated or gone */
+  position: number;
+}
+
+/** Seated waitlist party with the resulting walk-in seating */
+export interface WaitlistSeating {
+  entry: WaitlistEntry;
+  seating: WalkInResult;
+}
+
+/**
+ * Validates an add-to-waitlist request
+ */
+function validateWaitlistRequest(request: WaitlistRequest): Result<void> {
+  if (!request.customerName || request.customerName.trim().length === 0) {
+    return {
+      success: false,
+      error: {
+        code: WaitlistErrorCode.INVALID_CUSTOMER_NAME,
+        message: 'Customer name is required'
+      }
+    };
+  }
+
+  if (!request.partySize || request.partySize < 1 || request.partySize > 20) {
+    return {
+      success: false,
+      error: {
+        code: WaitlistErrorCode.INVALID_PARTY_SIZE,
+        message: 'Party size must be between 1 and 20'
+      }
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Gets the queue position of an entry
+ */
+function getPosition(entry: WaitlistEntry): number {
+  return waitlistStore.findActive().findIndex(e => e.id === entry.id) + 1;
+}
+
+/**
+ * Adds a walk-in party to the waitlist
+ * The quoted wait is seeded from the walk-in wait time estimate; if a
+ * suitable table is already free the party is offered it straight away
+ */
+export function addToWaitlist(request: WaitlistRequest): Result<WaitlistPosition> {
+  const validation = validateWaitlistRequest(request);
+  if (!validation.success) {
+    return validation as Result<WaitlistPosition>;
+  }
+
+  const estimate = getEstimatedWaitTime(request.partySize);
+  const quotedWaitMinutes = estimate.success && estimate.data!.minutes >= 0
+    ? estimate.data!.minutes
+    : undefined;
+
+  const entry = waitlistStore.create({
+    customerName: request.customerName,
+    partySize: request.partySize,
+    phone: request.phone,
+    notes: request.notes,
+    status: WaitlistStatus.WAITING,
+    quotedWaitMinutes
+  });
+
+  offerAvailableTables();
+
+  const current = waitlistStore.getById(entry.id)!;
+  return { success: true, data: { entry: current, position: getPosition(current) } };
+}
+
+/**
+ * Gets the active queue (waiting and notified parties) in order
+ */
+export function getWaitlist(): WaitlistPosition[] {
+  return waitlistStore.findActive().map((entry, index) => ({
+    entry,
+    position: index + 1
+  }));
+}
+
+/**
+ * Gets a waitlist entry with its queue position
+ */
+export function getWaitlistEntry(id: UUID): Result<WaitlistPosition> {
+  const entry = waitlistStore.getById(id);
+
+  if (!entry) {
+    return {
+      success: false,
+      error: {
+        code: WaitlistErrorCode.ENTRY_NOT_FOUND,
+        message: `Waitlist entry not found: ${id}`
+      }
+    };
+  }
+
+  return { success: true, data: { entry, position: getPosition(entry) } };
+}
+
+/**
+ * Offers a freed table to the first waiting party that fits
+ * Returns the notified entry, if any
+ */
+export function offerTable(tableId: UUID): WaitlistEntry | undefined {
+  const table = tableStore.getById(tableId);
+
+  // Freed tables are offered while still being cleaned
+  if (!table || (table.status !== TableStatus.AVAILABLE && table.status !== TableStatus.CLEANING)) {
+    return undefined;
+  }
+
+  // A table is only offered to one party at a time
+  if (waitlistStore.findByOfferedTable(tableId)) {
+    return undefined;
+  }
+
+  // Don't offer a table that an upcoming reservation needs back before the party would finish
+  const now = new Date();
+  const next = waitlistStore.findActive().find(e =>
+    e.status === WaitlistStatus.WAITING &&
+    seatsParty(table, e.partySize) &&
+    getWalkInSeatingWindow(tableId, now, getSeatingDuration(e.partySize, now)).available
+  );
+
+  if (!next) {
+    return undefined;
+  }
+
+  return waitlistStore.update(next.id, {
+    status: WaitlistStatus.NOTIFIED,
+    offeredTableId: tableId,
+    notifiedAt: nowUTC()
+  });
+}
+
+/**
+ * Offers every currently available table to the queue (smallest tables first)
+ */
+export function offerAvailableTables(): WaitlistEntry[] {
+  const notified: WaitlistEntry[] = [];
+  const tables = tableStore.findAvailable().sort((a, b) => a.capacity - b.capacity);
+
+  for (const table of tables) {
+    const entry = offerTable(table.id);
+    if (entry) {
+      notified.push(entry);
+    }
+  }
+
+  return notified;
+}
+
+/**
+ * Seats a notified party at the table they were offered
+ */
+export async function seatWaitlistEntry(
+  id: UUID,
+  actor: string = SYSTEM_ACTOR
+): Promise<Result<WaitlistSeating>> {
+  const entry = waitlistStore.getById(id);
+
+  if (!entry) {
+    return {
+      success: false,
+      error: {
+        code: WaitlistErrorCode.ENTRY_NOT_FOUND,
+        message: `Waitlist entry not found: ${id}`
+      }
+    };
+  }
+
+  if (entry.status !== WaitlistStatus.NOTIFIED || !entry.offeredTableId) {
+    return {
+      success: false,
+      error: {
+        code: WaitlistErrorCode.INVALID_STATUS,
+        message: `Cannot seat a party with status ${entry.status}; wait until a table is offered`
+      }
+    };
+  }
+
+  const seating = await seatWalkInAtTable({
+    customerName: entry.customerName,
+    partySize: entry.partySize,
+    notes: entry.notes
+  }, entry.offeredTableId, actor);
+
+  if (!seating.success) {
+    // Withdraw the offer so the table does not stay held for a party that cannot sit there;
+    // the party keeps its place in the queue and the table goes to whoever fits it now
+    waitlistStore.update(id, {
+      status: WaitlistStatus.WAITING,
+      offeredTableId: undefined,
+      notifiedAt: undefined
+    });
+    offerTable(entry.offeredTableId);
+    return { success: false, error: seating.error };
+  }
+
+  const updated = waitlistStore.update(id, {
+    status: WaitlistStatus.SEATED,
+    seatedAt: nowUTC(),
+    reservationId: seating.data!.reservation.id
+  })!;
+
+  return { success: true, data: { entry: updated, seating: seating.data! } };
+}
+
+/**
+ * Records that a party left the queue
+ * A table offered to them is passed on to the next party that fits
+ */
+export function markWaitlistEntryLeft(id: UUID): Result<WaitlistEntry> {
+  const entry = waitlistStore.getById(id);
+
+  if (!entry) {
+    return {
+      success: false,
+      error: {
+        code: WaitlistErrorCode.ENTRY_NOT_FOUND,
+        message: `Waitlist entry not found: ${id}`
+      }
+    };
+  }
+
+  if (entry.status !== WaitlistStatus.WAITING && entry.status !== WaitlistStatus.NOTIFIED) {
+    return {
+      success: false,
+      error: {
+        code: WaitlistErrorCode.INVALID_STATUS,
+        message: `Cannot remove a party with status ${entry.status}`
+      }
+    };
+  }
+
+  const updated = waitlistStore.update(id, {
+    status: WaitlistStatus.LEFT,
+    offeredTableId: undefined
+  })!;
+
+  if (entry.offeredTableId) {
+    offerTable(entry.offeredTableId);
+  }
+
+  return { success: true, data: updated };
+}
@@ -15,16 +15,23 @@ import {
   getCurrentWalkIns,
   getWalkInStats,
   getEstimatedWaitTime,
+  getWalkInSeatingWindow,
   WalkInErrorCode
 } from '../services/walkInService';
 import {
   initializeSampleData,
   resetStores,
   tableStore,
-  reservationStore
+  reservationStore,
+  reservationEventStore,
+  customerStore,
+  waiterStore,
+  STALE_FENCING_TOKEN
 } from '../data/store';
-import { TableStatus, ReservationStatus } from '../types';
+import { updateRestaurantSettings } from '../services/settingsService';
+import { TableStatus, ReservationStatus, ReservationEventType } from '../types';
 import { clearAllLocks } from '../utils/locking';
+import { addMinutes } from '../utils/timezone';
 
 describe('Walk-In Service', () => {
   beforeEach(() => {
@@ -161,6 +168,31 @@ describe('Walk-In Service', () => {
       expect(stats.total).toBeGreaterThanOrEqual(2);
       expect(stats.currentlySeated).toBeGreaterThanOrEqual(2);
     });
+
+    it('should record who seated the walk-in in the reservation history', async () => {
+      const result = await handleWalkIn({ customerName: 'Audited Walk-in', partySize: 2 }, 'host-anna');
+
+      const history = reservationEventStore.findByReservationId(result.data!.reservation.id);
+
+      expect(history).toHaveLength(1);
+      expect(history[0].type).toBe(ReservationEventType.CREATED);
+      expect(history[0].actor).toBe('host-anna');
+    });
+
+    it('should leave no customer or waiter assignment behind when the fenced write is rejected', async () => {
+      const customers = customerStore.count();
+      const create = jest.spyOn(reservationStore, 'create').mockImplementationOnce(() => {
+        throw new Error(STALE_FENCING_TOKEN);
+      });
+
+      const result = await handleWalkIn({ customerName: 'Stale Walk-in', partySize: 2 });
+      create.mockRestore();
+
+      expect(result.success).toBe(false);
+      expect(customerStore.count()).toBe(customers);
+      expect(waiterStore.getAll().every(w => w.assignedTables.length === 0)).toBe(true);
+      expect(tableStore.getAll().some(t => t.status === TableStatus.OCCUPIED)).toBe(false);
+    });
   });
 
   describe('Task #2: Walk-in Support - Wait Time Estimation', () => {
@@ -200,4 +232,126 @@ describe('Walk-In Service', () => {
       expect(result.data!.message).toBeDefined();
     });
   });
+
+  describe('Walk-ins and the reservation timeline', () => {
+    /** Books a table directly on the timeline while leaving its status AVAILABLE */
+    function bookTable(tableId: string, minutesFromNow: number, now: Date = new Date()): void {
+      reservationStore.create({
+        customerId: 'booked',
+        customerName: 'Booked Guest',
+        partySize: 2,
+        tableId,
+        startTime: addMinutes(now, minutesFromNow).toISOString(),
+        endTime: addMinutes(now, minutesFromNow + 90).toISOString(),
+        status: ReservationStatus.CONFIRMED,
+        isWalkIn: false,
+        timezone: 'UTC',
+        version: 1
+      });
+    }
+
+    /** Occupies every table except the given one */
+    function occupyAllExcept(tableId: string): void {
+      tableStore.getAll()
+        .filter(t => t.id !== tableId)
+        .forEach(t => tableStore.update(t.id, { status: TableStatus.OCCUPIED }));
+    }
+
+    it('should not seat a walk-in shortly before a booking on the same table', async () => {
+      const table = tableStore.findByNumber(5)!;
+      occupyAllExcept(table.id);
+      bookTable(table.id, 20);
+
+      const result = await handleWalkIn({ customerName: 'Too Late', partySize: 2 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(WalkInErrorCode.NO_AVAILABLE_TABLES);
+      expect(canAccommodateWalkIn(2).data!.available).toBe(false);
+    });
+
+    it('should offer a shortened seating with a deadline before the booking', async () => {
+      const table = tableStore.findByNumber(5)!;
+      occupyAllExcept(table.id);
+      bookTable(table.id, 60);
+
+      const result = await handleWalkIn({ customerName: 'Quick Bite', partySize: 2 });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.table.id).toBe(table.id);
+      expect(result.data!.mustLeaveBy).toBeDefined();
+      expect(result.data!.reservation.endTime).toBe(result.data!.mustLeaveBy);
+      const minutesUntilDeadline = (new Date(result.data!.mustLeaveBy!).getTime() - Date.now()) / 60000;
+      expect(Math.round(minutesUntilDeadline)).toBe(60);
+    });
+
+    it('should end a shortened seating early enough to reset the table', () => {
+      updateRestaurantSettings({ turnoverBuffer: { defaultMinutes: 15 } });
+      const table = tableStore.findByNumber(5)!;
+      const now = new Date();
+      bookTable(table.id, 60, now);
+
+      // The booking less the 15-minute buffer leaves exactly the shortest seating allowed
+      expect(getWalkInSeatingWindow(table.id, now)).toEqual({
+        available: true,
+        mustLeaveBy: addMinutes(now, 45).toISOString()
+      });
+      expect(getWalkInSeatingWindow(table.id, new Date(now.getTime() + 1)).available).toBe(false);
+    });
+
+    it('should prefer a table free for the full seating', async () => {
+      const limited = tableStore.findByNumber(1)!;
+      bookTable(limited.id, 60);
+
+      const result = await handleWalkIn({ customerName: 'Full Seating', partySize: 2 });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.table.id).not.toBe(limited.id);
+      expect(result.data!.mustLeaveBy).toBeUndefined();
+    });
+  });
+
+  describe('Duration rules', () => {
+    it('should seat a walk-in for the duration its party size gets', async () => {
+      updateRestaurantSettings({ durationPolicy: { defaultMinutes: 90, rules: [{ maxPartySize: 2, minutes: 60 }] } });
+
+      const result = await handleWalkIn({ customerName: 'Quick Pair', partySize: 2 });
+
+      const { startTime, endTime } = result.data!.reservation;
+      expect((new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000).toBe(60);
+    });
+  });
+
+  describe('Combining tables for large walk-in parties', () => {
+    it('should push tables together for a party no single table fits', async () => {
+      const result = await handleWalkIn({ customerName: 'Big Group', partySize: 10 });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.tables!.map(t => t.number)).toEqual([8, 9]);
+      expect(result.data!.reservation.combinedTableIds!.length).toBe(2);
+      result.data!.tables!.forEach(t => expect(t.status).toBe(TableStatus.OCCUPIED));
+      result.data!.tables!.forEach(t => expect(result.data!.waiter!.assignedTables).toContain(t.id));
+    });
+
+    it('should end a combined seating before the earliest booking on its tables', async () => {
+      const table = tableStore.findByNumber(9)!;
+      reservationStore.create({
+        customerId: 'booked',
+        customerName: 'Booked Guest',
+        partySize: 6,
+        tableId: table.id,
+        startTime: new Date(Date.now() + 60 * 60000).toISOString(),
+        endTime: new Date(Date.now() + 150 * 60000).toISOString(),
+        status: ReservationStatus.CONFIRMED,
+        isWalkIn: false,
+        timezone: 'UTC',
+        version: 1
+      });
+
+      const result = await handleWalkIn({ customerName: 'Big Group', partySize: 12 });
+
+      // Tables 8 and 10 are free for the full seating and preferred
+      expect(result.data!.tables!.map(t => t.number)).toEqual([8, 10]);
+      expect(result.data!.mustLeaveBy).toBeUndefined();
+    });
+  });
 });
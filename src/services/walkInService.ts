@@ -17,33 +17,56 @@
 import { v4 as uuidv4 } from 'uuid';
 import {
   UUID,
+  ISODateTime,
   Reservation,
   ReservationStatus,
   TableStatus,
   WalkInRequest,
   Result,
   Table,
-  Waiter
+  Waiter,
+  WriteOptions
 } from '../types';
 import {
   reservationStore,
   tableStore,
   customerStore,
-  waiterStore
+  waiterStore,
+  waitlistStore,
+  blockStore,
+  seatsParty,
+  SYSTEM_ACTOR
 } from '../data/store';
 import {
   nowUTC,
   calculateEndTime,
-  DEFAULT_TIMEZONE,
-  DEFAULT_DURATION_MINUTES
+  addMinutes,
+  DEFAULT_TIMEZONE
 } from '../utils/timezone';
-import { withLock } from '../utils/locking';
+import {
+  withQueuedLocks,
+  getTimeslotLockResources,
+  LockResource,
+  DEFAULT_LOCK_WAIT_MS
+} from '../utils/locking';
+import { findTableCombinations } from '../utils/tableCombinations';
+import { findWaiterForService } from './waiterService';
+import {
+  getTurnoverBufferMinutes,
+  getMaxTurnoverBufferMinutes,
+  getDurationPolicy,
+  getSeatingDuration
+} from './settingsService';
 
 /** Walk-in error codes */
 export enum WalkInErrorCode {
   INVALID_PARTY_SIZE = 'INVALID_PARTY_SIZE',
   NO_AVAILABLE_TABLES = 'NO_AVAILABLE_TABLES',
   INVALID_CUSTOMER_NAME = 'INVALID_CUSTOMER_NAME',
+  TABLE_NOT_FOUND = 'TABLE_NOT_FOUND',
+  TABLE_UNAVAILABLE = 'TABLE_UNAVAILABLE',
+  LOCK_TIMEOUT = 'LOCK_TIMEOUT',
+  STALE_FENCING_TOKEN = 'STALE_FENCING_TOKEN',
   SYSTEM_ERROR = 'SYSTEM_ERROR'
 }
 
@@ -51,7 +74,11 @@ export enum WalkInErrorCode {
 export interface WalkInResult {
   reservation: Reservation;
   table: Table;
+  /** Every table of the seating when tables were pushed together */
+  tables?: Table[];
   waiter?: Waiter;
+  /** Set when the seating is cut short by an upcoming reservation on the table */
+  mustLeaveBy?: ISODateTime;
 }
 
 /**
@@ -91,50 +118,238 @@ function validateWalkInRequest(request: WalkInRequest): Result<void> {
   return { success: true };
 }
 
+/** Shortest seating offered to a walk-in ahead of an upcoming reservation */
+export const MIN_WALK_IN_SEATING_MINUTES = 45;
+
+/** How long a table can take a walk-in starting now */
+export interface WalkInSeatingWindow {
+  available: boolean;
+  /** Set when an upcoming reservation cuts the seating short */
+  mustLeaveBy?: ISODateTime;
+}
+
+/** Candidate table (or pushed-together tables) for a walk-in */
+interface WalkInSeatingOption {
+  table: Table;
+  /** Every table of the seating when tables are combined */
+  tables: Table[];
+  mustLeaveBy?: ISODateTime;
+}
+
+/**
+ * Checks a table's reservation timeline for a walk-in seated now
+ * Uses the same overlap rule as findAvailableTables: the table is free for
+ * the full duration, free until the next booking less its turnover buffer or
+ * the next block (if that leaves at least MIN_WALK_IN_SEATING_MINUTES), or not
+ * free at all
+ */
+export function getWalkInSeatingWindow(
+  tableId: UUID,
+  now: Date = new Date(),
+  durationMinutes: number = getDurationPolicy().defaultMinutes
+): WalkInSeatingWindow {
+  const table = tableStore.getById(tableId);
+  const buffer = table ? getTurnoverBufferMinutes(table) : 0;
+  const fullEnd = addMinutes(now, durationMinutes);
+
+  // The party must leave in time for the table to be reset, or before a block starts
+  const deadlines = [
+    ...reservationStore.findBlockingByTable(tableId, now, fullEnd, undefined, buffer)
+      .map(r => addMinutes(r.startTime, -buffer)),
+    ...(table ? blockStore.findBlockingTable(table, now, fullEnd) : [])
+      .map(b => new Date(b.startTime))
+  ].sort((a, b) => a.getTime() - b.getTime());
+
+  if (deadlines.length === 0) {
+    return { available: true };
+  }
+
+  const mustLeaveBy = deadlines[0];
+  const minutesFree = (mustLeaveBy.getTime() - now.getTime()) / 60000;
+
+  if (minutesFree < MIN_WALK_IN_SEATING_MINUTES) {
+    return { available: false };
+  }
+
+  return { available: true, mustLeaveBy: mustLeaveBy.toISOString() };
+}
+
+/**
+ * Gets available tables that fit the party and are free on the reservation
+ * timeline, excluding tables already offered to a party on the waitlist
+ */
+function findWalkInSeatingOptions(partySize: number, now: Date = new Date()): WalkInSeatingOption[] {
+  const offeredTableIds = waitlistStore.findOfferedTableIds();
+  const durationMinutes = getSeatingDuration(partySize, now);
+  const options: WalkInSeatingOption[] = [];
+
+  for (const table of tableStore.findAvailableForPartySize(partySize)) {
+    if (offeredTableIds.includes(table.id)) continue;
+
+    const window = getWalkInSeatingWindow(table.id, now, durationMinutes);
+    if (window.available) {
+      options.push({ table, tables: [table], mustLeaveBy: window.mustLeaveBy });
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Finds the best combination of free tables for a party no single table fits
+ * A combined seating ends at the earliest deadline of its tables
+ */
+function findWalkInCombination(partySize: number, now: Date = new Date()): WalkInSeatingOption | undefined {
+  const offeredTableIds = waitlistStore.findOfferedTableIds();
+  const durationMinutes = getSeatingDuration(partySize, now);
+  const deadlines = new Map<UUID, ISODateTime | undefined>();
+
+  const freeTables = tableStore.findByStatus(TableStatus.AVAILABLE).filter(table => {
+    if (!table.combinationGroup || offeredTableIds.includes(table.id)) return false;
+    const window = getWalkInSeatingWindow(table.id, now, durationMinutes);
+    deadlines.set(table.id, window.mustLeaveBy);
+    return window.available;
+  });
+
+  const options: WalkInSeatingOption[] = findTableCombinations(freeTables, partySize).map(c => ({
+    table: c.tables[0],
+    tables: c.tables,
+    mustLeaveBy: c.tables
+      .map(t => deadlines.get(t.id))
+      .filter((d): d is ISODateTime => d !== undefined)
+      .sort()[0]
+  }));
+
+  // Combinations come best first; a full seating still beats a shortened one
+  return options.find(o => !o.mustLeaveBy) ??
+    options.sort((a, b) => b.mustLeaveBy!.localeCompare(a.mustLeaveBy!))[0];
+}
+
 /**
  * Finds the best available table for a walk-in
  * Prioritizes:
- * 1. Tables that exactly match party size
- * 2. Smallest table that fits the party
- * 3. Tables in sections with available waiters
+ * 1. Tables free for the full seating over "must be done by" seatings
+ * 2. Tables that exactly match party size
+ * 3. Smallest table that fits the party
+ * 4. For shortened seatings, the latest deadline
  */
-function findBestTableForWalkIn(partySize: number): Table | undefined {
-  // Get all available tables that can accommodate the party
-  const availableTables = tableStore.findAvailableForPartySize(partySize);
+function findBestTableForWalkIn(partySize: number): WalkInSeatingOption | undefined {
+  const options = findWalkInSeatingOptions(partySize);
 
-  if (availableTables.length === 0) {
-    return undefined;
+  if (options.length === 0) {
+    return findWalkInCombination(partySize);
   }
 
-  // Sort by capacity (prefer exact match, then smallest)
-  const sorted = availableTables.sort((a, b) => {
+  const sorted = options.sort((a, b) => {
+    // Full seatings first
+    const aLimited = a.mustLeaveBy ? 1 : 0;
+    const bLimited = b.mustLeaveBy ? 1 : 0;
+    if (aLimited !== bLimited) {
+      return aLimited - bLimited;
+    }
+
+    // Among shortened seatings, give the party the most time
+    if (a.mustLeaveBy && b.mustLeaveBy && a.mustLeaveBy !== b.mustLeaveBy) {
+      return new Date(b.mustLeaveBy).getTime() - new Date(a.mustLeaveBy).getTime();
+    }
+
     // Exact match gets highest priority
-    const aExact = a.capacity === partySize ? 0 : 1;
-    const bExact = b.capacity === partySize ? 0 : 1;
+    const aExact = a.table.capacity === partySize ? 0 : 1;
+    const bExact = b.table.capacity === partySize ? 0 : 1;
     
     if (aExact !== bExact) {
       return aExact - bExact;
     }
 
     // Then by capacity (smallest first to optimize table usage)
-    return a.capacity - b.capacity;
+    return a.table.capacity - b.table.capacity;
   });
 
   return sorted[0];
 }
 
 /**
- * Assigns a waiter to a table for a walk-in
+ * Seats a walk-in party at a table (or at pushed-together tables)
+ * Creates the customer, records a seated reservation, then assigns a waiter
+ * and marks the tables occupied. A reservation write rejected for a stale
+ * fencing token leaves nothing behind.
  */
-function assignWaiterToTable(tableId: UUID): Waiter | undefined {
-  const waiter = waiterStore.findWithLeastTables();
-  
-  if (waiter) {
-    waiterStore.assignTable(waiter.id, tableId);
-    return waiterStore.getById(waiter.id);
+function seatParty(
+  request: WalkInRequest,
+  tables: Table[],
+  mustLeaveBy?: ISODateTime,
+  options: WriteOptions = {}
+): WalkInResult {
+  const table = tables[0];
+
+  // Create walk-in customer
+  const customer = customerStore.create({
+    name: request.customerName,
+    notes: 'Walk-in customer'
+  });
+
+  // Calculate times
+  const startTime = nowUTC();
+  const endTime = mustLeaveBy ?? calculateEndTime(startTime, getSeatingDuration(request.partySize, startTime));
+
+  // One waiter on shift now serves every table of a combined seating
+  const chosenWaiter = findWaiterForService(new Date(), table.section);
+
+  // Create reservation for tracking; a rejected fenced write removes the customer again
+  let reservation: Reservation;
+  try {
+    reservation = reservationStore.create({
+      customerId: customer.id,
+      customerName: request.customerName,
+      partySize: request.partySize,
+      tableId: table.id,
+      combinedTableIds: tables.length > 1 ? tables.map(t => t.id) : undefined,
+      waiterId: chosenWaiter?.id,
+      startTime,
+      endTime,
+      status: ReservationStatus.SEATED, // Walk-ins are immediately seated
+      seatedAt: startTime,
+      isWalkIn: true,
+      timezone: DEFAULT_TIMEZONE,
+      notes: request.notes || 'Walk-in',
+      version: 1
+    }, options);
+  } catch (error) {
+    customerStore.delete(customer.id);
+    throw error;
+  }
+
+  // Assign the waiter and update table status
+  for (const seated of tables) {
+    if (chosenWaiter) {
+      waiterStore.assignTable(chosenWaiter.id, seated.id);
+    }
+    tableStore.update(seated.id, { status: TableStatus.OCCUPIED }, options);
   }
+  const waiter = chosenWaiter ? waiterStore.getById(chosenWaiter.id) : undefined;
 
-  return undefined;
+  return {
+    reservation,
+    table: tableStore.getById(table.id)!,
+    ...(tables.length > 1 && { tables: tables.map(t => tableStore.getById(t.id)!) }),
+    waiter,
+    mustLeaveBy
+  };
+}
+
+/**
+ * Gets the locks to hold while seating a walk-in party now
+ * These are the time buckets of the seating, shared with reservations for the
+ * same period. The party is seated once the locks are ours, so they also cover
+ * the longest wait and the turnover buffer before the next booking.
+ */
+function getWalkInLockResources(partySize: number): LockResource[] {
+  const now = new Date();
+  const seatingEnd = new Date(
+    addMinutes(now, getSeatingDuration(partySize, now) + getMaxTurnoverBufferMinutes()).getTime() +
+      DEFAULT_LOCK_WAIT_MS
+  );
+  return getTimeslotLockResources(now.toISOString(), seatingEnd.toISOString());
 }
 
 /**
@@ -144,62 +359,71 @@ function assignWaiterToTable(tableId: UUID): Waiter | undefined {
  * - When I initiate a walk-in
  * - Then the system checks current availability and confirms the walk-in if possible
  */
-export async function handleWalkIn(request: WalkInRequest): Promise<Result<WalkInResult>> {
+export async function handleWalkIn(
+  request: WalkInRequest,
+  actor: string = SYSTEM_ACTOR
+): Promise<Result<WalkInResult>> {
   // Validate request
   const validation = validateWalkInRequest(request);
   if (!validation.success) {
     return validation as Result<WalkInResult>;
   }
 
-  // Use locking to prevent race conditions
-  const lockId = `walkin:${Date.now()}`;
-
-  return await withLock('table', lockId, async () => {
+  return await withQueuedLocks(getWalkInLockResources(request.partySize), async fencing => {
     // Find available table
-    const table = findBestTableForWalkIn(request.partySize);
+    const option = findBestTableForWalkIn(request.partySize);
 
-    if (!table) {
+    if (!option) {
       throw new Error(WalkInErrorCode.NO_AVAILABLE_TABLES);
     }
 
-    // Create walk-in customer
-    const customer = customerStore.create({
-      name: request.customerName,
-      notes: 'Walk-in customer'
-    });
+    return seatParty(request, option.tables, option.mustLeaveBy, { fencing, actor });
+  }, { maxWaitMs: DEFAULT_LOCK_WAIT_MS, backoff: true }).then(result => {
+    if (result.success && result.result) {
+      return { success: true, data: result.result };
+    } else {
+      const errorCode = result.error as WalkInErrorCode || WalkInErrorCode.SYSTEM_ERROR;
+      return {
+        success: false,
+        error: {
+          code: errorCode,
+          message: getErrorMessage(errorCode)
+        }
+      };
+    }
+  });
+}
 
-    // Calculate times
-    const startTime = nowUTC();
-    const endTime = calculateEndTime(startTime, DEFAULT_DURATION_MINUTES);
+/**
+ * Seats a walk-in party at a specific table (e.g. one offered from the waitlist)
+ * The table may still be being cleaned after the previous party
+ */
+export async function seatWalkInAtTable(
+  request: WalkInRequest,
+  tableId: UUID,
+  actor: string = SYSTEM_ACTOR
+): Promise<Result<WalkInResult>> {
+  const validation = validateWalkInRequest(request);
+  if (!validation.success) {
+    return validation as Result<WalkInResult>;
+  }
 
-    // Assign waiter
-    const waiter = assignWaiterToTable(table.id);
+  return await withQueuedLocks(getWalkInLockResources(request.partySize), async fencing => {
+    const table = tableStore.getById(tableId);
 
-    // Create reservation for tracking
-    const reservation = reservationStore.create({
-      customerId: customer.id,
-      customerName: request.customerName,
-      partySize: request.partySize,
-      tableId: table.id,
-      waiterId: waiter?.id,
-      startTime,
-      endTime,
-      status: ReservationStatus.SEATED, // Walk-ins are immediately seated
-      isWalkIn: true,
-      timezone: DEFAULT_TIMEZONE,
-      notes: request.notes || 'Walk-in',
-      version: 1
-    });
+    if (!table) {
+      throw new Error(WalkInErrorCode.TABLE_NOT_FOUND);
+    }
 
-    // Update table status
-    tableStore.update(table.id, { status: TableStatus.OCCUPIED });
+    const isFree = table.status === TableStatus.AVAILABLE || table.status === TableStatus.CLEANING;
+    const now = new Date();
+    const window = getWalkInSeatingWindow(table.id, now, getSeatingDuration(request.partySize, now));
+    if (!isFree || !window.available || !seatsParty(table, request.partySize)) {
+      throw new Error(WalkInErrorCode.TABLE_UNAVAILABLE);
+    }
 
-    return {
-      reservation,
-      table: tableStore.getById(table.id)!,
-      waiter
-    };
-  }).then(result => {
+    return seatParty(request, [table], window.mustLeaveBy, { fencing, actor });
+  }, { maxWaitMs: DEFAULT_LOCK_WAIT_MS, backoff: true }).then(result => {
     if (result.success && result.result) {
       return { success: true, data: result.result };
     } else {
@@ -229,7 +453,9 @@ export function canAccommodateWalkIn(partySize: number): Result<{ available: boo
     };
   }
 
-  const availableTables = tableStore.findAvailableForPartySize(partySize);
+  const options = findWalkInSeatingOptions(partySize);
+  const combination = options.length === 0 ? findWalkInCombination(partySize) : undefined;
+  const availableTables = combination ? combination.tables : options.map(o => o.table);
 
   return {
     success: true,
@@ -272,8 +498,12 @@ export function getWalkInStats(): {
 function getErrorMessage(code: string): string {
   const messages: Record<string, string> = {
     [WalkInErrorCode.INVALID_PARTY_SIZE]: 'Invalid party size',
-    [WalkInErrorCode.NO_AVAILABLE_TABLES]: 'No tables currently available for walk-ins. Please wait or make a reservation.',
+    [WalkInErrorCode.NO_AVAILABLE_TABLES]: 'No tables currently available for walk-ins. Add the party to the waitlist or make a reservation.',
     [WalkInErrorCode.INVALID_CUSTOMER_NAME]: 'Customer name is required',
+    [WalkInErrorCode.TABLE_NOT_FOUND]: 'Requested table not found',
+    [WalkInErrorCode.TABLE_UNAVAILABLE]: 'Requested table is not free for this party',
+    [WalkInErrorCode.LOCK_TIMEOUT]: 'The system is busy seating other parties. Please try again.',
+    [WalkInErrorCode.STALE_FENCING_TOKEN]: 'Seating took too long and its lock was taken over. Please try again.',
     [WalkInErrorCode.SYSTEM_ERROR]: 'An error occurred processing the walk-in'
   };
 
@@ -284,7 +514,7 @@ function getErrorMessage(code: string): string {
  * Gets estimated wait time for a walk-in party
  */
 export function getEstimatedWaitTime(partySize: number): Result<{ minutes: number; message: string }> {
-  const availableTables = tableStore.findAvailableForPartySize(partySize);
+  const availableTables = findWalkInSeatingOptions(partySize);
 
   if (availableTables.length > 0) {
     return {
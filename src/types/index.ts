@@ -36,6 +36,39 @@ export enum WaiterStatus {
   OFF_DUTY = 'OFF_DUTY'
 }
 
+/** Walk-in waitlist entry status */
+export enum WaitlistStatus {
+  WAITING = 'WAITING',
+  NOTIFIED = 'NOTIFIED',
+  SEATED = 'SEATED',
+  LEFT = 'LEFT'
+}
+
+/** Staff role, from least to most privileged */
+export enum StaffRole {
+  HOST = 'HOST',
+  SERVER = 'SERVER',
+  MANAGER = 'MANAGER',
+  ADMIN = 'ADMIN'
+}
+
+/** Action a staff member may be allowed to perform */
+export enum Permission {
+  VIEW_FLOOR = 'VIEW_FLOOR',
+  MANAGE_RESERVATIONS = 'MANAGE_RESERVATIONS',
+  OVERRIDE_DURATION = 'OVERRIDE_DURATION',
+  OVERRIDE_PACING = 'OVERRIDE_PACING',
+  UPDATE_RESERVATION_STATUS = 'UPDATE_RESERVATION_STATUS',
+  CANCEL_RESERVATIONS = 'CANCEL_RESERVATIONS',
+  MARK_NO_SHOW = 'MARK_NO_SHOW',
+  MANAGE_WALK_INS = 'MANAGE_WALK_INS',
+  MANAGE_TABLES = 'MANAGE_TABLES',
+  MANAGE_WAITERS = 'MANAGE_WAITERS',
+  MANAGE_SETTINGS = 'MANAGE_SETTINGS',
+  VIEW_REPORTS = 'VIEW_REPORTS',
+  MANAGE_STAFF = 'MANAGE_STAFF'
+}
+
 /** Customer information */
 export interface Customer {
   id: UUID;
@@ -52,8 +85,14 @@ export interface Table {
   id: UUID;
   number: number;
   capacity: number;
+  /** Smallest party the table is given to (defaults to 1) */
+  minCapacity?: number;
   status: TableStatus;
+  /** Why the table was taken out of service */
+  outOfServiceReason?: string;
   section?: string;
+  /** Tables sharing a combination group can be pushed together for large parties */
+  combinationGroup?: string;
   createdAt: ISODateTime;
   updatedAt: ISODateTime;
 }
@@ -68,6 +107,45 @@ export interface Waiter {
   updatedAt: ISODateTime;
 }
 
+/** Break within a shift */
+export interface ShiftBreak {
+  startTime: ISODateTime;
+  endTime: ISODateTime;
+}
+
+/** A waiter's scheduled shift */
+export interface Shift {
+  id: UUID;
+  waiterId: UUID;
+  startTime: ISODateTime;
+  endTime: ISODateTime;
+  /** Section the waiter works; parties there go to them first */
+  section?: string;
+  breaks: ShiftBreak[];
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
+/**
+ * A period when the restaurant, a section or some tables take no parties
+ * (holiday closure, private event); without a section or tables it closes
+ * the whole restaurant
+ */
+export interface Block {
+  id: UUID;
+  startTime: ISODateTime;
+  endTime: ISODateTime;
+  section?: string;
+  tableIds?: UUID[];
+  reason: string;
+  /** Venue-local date (YYYY-MM-DD) of a full-day closure */
+  date?: string;
+  /** Staff member who added the block */
+  createdBy?: string;
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
 /** Reservation definition */
 export interface Reservation {
   id: UUID;
@@ -75,6 +153,8 @@ export interface Reservation {
   customerName: string;
   partySize: number;
   tableId?: UUID;
+  /** All tables of a combined seating (including tableId); unset for a single table */
+  combinedTableIds?: UUID[];
   waiterId?: UUID;
   startTime: ISODateTime;
   endTime: ISODateTime;
@@ -82,11 +162,211 @@ export interface Reservation {
   isWalkIn: boolean;
   timezone: string;
   notes?: string;
+  /** Set while the reservation is a timed hold (PENDING); the hold is released after this time */
+  holdExpiresAt?: ISODateTime;
+  /** Set once the party is overdue past the late-arrival threshold */
+  lateSince?: ISODateTime;
+  /** When the party sat down */
+  seatedAt?: ISODateTime;
+  /** Booking experience (e.g. "tasting-menu") */
+  experience?: string;
+  /** Set when staff chose the duration instead of the duration policy */
+  durationOverridden?: boolean;
+  /** Set when a manager booked past the kitchen pacing limits */
+  pacingOverridden?: boolean;
+  /** Staff member (or process) that created the reservation */
+  createdBy?: string;
+  /** Staff member (or process) that last changed the reservation */
+  updatedBy?: string;
   createdAt: ISODateTime;
   updatedAt: ISODateTime;
   version: number; // For optimistic locking - prevents race conditions
 }
 
+/** Staff account */
+export interface StaffUser {
+  id: UUID;
+  username: string;
+  name: string;
+  role: StaffRole;
+  /** scrypt hash (`<salt>:<hash>`, hex) */
+  passwordHash: string;
+  active: boolean;
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
+/** Staff account as returned by the API (without the password hash) */
+export type StaffProfile = Omit<StaffUser, 'passwordHash'>;
+
+/** Signed-in staff session */
+export interface StaffSession {
+  id: UUID;
+  /** SHA-256 of the bearer token (the token itself is never stored) */
+  tokenHash: string;
+  userId: UUID;
+  expiresAt: ISODateTime;
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
+/** Kind of change recorded in a reservation's history */
+export enum ReservationEventType {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  STATUS_CHANGED = 'STATUS_CHANGED',
+  TABLE_CHANGED = 'TABLE_CHANGED',
+  CANCELLED = 'CANCELLED'
+}
+
+/** One field of a reservation changed by an event */
+export interface ReservationFieldChange {
+  field: keyof Reservation;
+  previous?: unknown;
+  current?: unknown;
+}
+
+/** Append-only audit record of a change to a reservation */
+export interface ReservationEvent {
+  id: UUID;
+  reservationId: UUID;
+  type: ReservationEventType;
+  /** Staff member or process that made the change */
+  actor: string;
+  occurredAt: ISODateTime;
+  /** Reservation version after the change */
+  version: number;
+  changes: ReservationFieldChange[];
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
+/** Recorded no-show, kept for per-customer reporting */
+export interface NoShowRecord {
+  id: UUID;
+  reservationId: UUID;
+  customerId: UUID;
+  customerName: string;
+  partySize: number;
+  startTime: ISODateTime;
+  markedAt: ISODateTime;
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
+/** Walk-in party waiting for a table */
+export interface WaitlistEntry {
+  id: UUID;
+  customerName: string;
+  partySize: number;
+  phone?: string;
+  notes?: string;
+  status: WaitlistStatus;
+  quotedWaitMinutes?: number;
+  offeredTableId?: UUID;
+  notifiedAt?: ISODateTime;
+  seatedAt?: ISODateTime;
+  reservationId?: UUID;
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
+/** Day of the week, as used for opening hours */
+export type WeekdayName =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+/** Service period (e.g. lunch or dinner) in the venue's local time, HH:mm */
+export interface ServicePeriod {
+  name?: string;
+  open: string;
+  /** Closing time; a time at or before `open` means after midnight */
+  close: string;
+  /** Latest reservation start; defaults to any start before `close` */
+  lastSeating?: string;
+}
+
+/** When overdue parties are flagged late and then marked no-show (minutes after start) */
+export interface NoShowPolicy {
+  lateAfterMinutes: number;
+  /** Grace period; once it passes the reservation becomes NO_SHOW */
+  noShowAfterMinutes: number;
+}
+
+/** Seating length for bookings meeting every condition the rule sets */
+export interface DurationRule {
+  minPartySize?: number;
+  maxPartySize?: number;
+  /** Name of the service period the booking starts in (e.g. "lunch") */
+  servicePeriod?: string;
+  /** Booking experience (e.g. "tasting-menu") */
+  experience?: string;
+  minutes: number;
+}
+
+/** How long parties keep their table; the first matching rule applies */
+export interface DurationPolicy {
+  defaultMinutes: number;
+  rules: DurationRule[];
+}
+
+/** Buffer for tables up to a size */
+export interface TableSizeBuffer {
+  maxCapacity: number;
+  minutes: number;
+}
+
+/**
+ * Minutes a table is kept free after a party for bussing and resetting
+ * The most specific rule applies: section, then table size, then the default.
+ */
+export interface TurnoverBufferPolicy {
+  defaultMinutes: number;
+  /** The rule with the smallest maxCapacity that fits the table applies */
+  byTableSize?: TableSizeBuffer[];
+  /** Minutes per section name */
+  bySection?: Record<string, number>;
+}
+
+/** Most covers and/or parties that may start in one pacing interval */
+export interface PacingLimit {
+  maxCovers?: number;
+  maxParties?: number;
+}
+
+/**
+ * Kitchen pacing: limits on the bookings starting in each interval
+ * A service period's own limits replace the restaurant-wide ones.
+ */
+export interface PacingPolicy extends PacingLimit {
+  /** Limits per service period name (e.g. "dinner") */
+  byServicePeriod?: Record<string, PacingLimit>;
+}
+
+/** Restaurant-wide settings (a single record) */
+export interface RestaurantSettings {
+  id: UUID;
+  /** IANA timezone of the venue; opening hours are interpreted in it */
+  timezone: string;
+  /** Service periods per weekday; a missing or empty day means closed */
+  weeklyHours: Partial<Record<WeekdayName, ServicePeriod[]>>;
+  /** Late-arrival and no-show thresholds (defaults apply when unset) */
+  noShowPolicy?: NoShowPolicy;
+  /** Time to reset a table between parties (no buffer when unset) */
+  turnoverBuffer?: TurnoverBufferPolicy;
+  /** How long parties keep their table (DEFAULT_DURATION_MINUTES for all when unset) */
+  durationPolicy?: DurationPolicy;
+  /** Kitchen pacing limits (no limits when unset) */
+  pacing?: PacingPolicy;
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
 /** Create reservation request */
 export interface CreateReservationRequest {
   customerName: string;
@@ -95,11 +375,54 @@ export interface CreateReservationRequest {
   partySize: number;
   startTime: ISODateTime;
   timezone?: string;
+  /** Overrides the duration policy */
   durationMinutes?: number;
+  /** Booking experience matched by duration rules (e.g. "tasting-menu") */
+  experience?: string;
+  /** Books past the kitchen pacing limits (managers only) */
+  pacingOverride?: boolean;
   notes?: string;
   preferredTableId?: UUID;
 }
 
+/** Timed hold request: tentatively blocks a table while details are collected */
+export interface CreateHoldRequest extends CreateReservationRequest {
+  /** How long the hold lasts before it is released (defaults to DEFAULT_HOLD_MINUTES) */
+  holdMinutes?: number;
+}
+
+/** Confirms a hold, optionally completing the customer details */
+export interface ConfirmHoldRequest {
+  version: number;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  notes?: string;
+}
+
+/** Modify/reschedule reservation request */
+export interface UpdateReservationRequest {
+  version: number;
+  startTime?: ISODateTime;
+  durationMinutes?: number;
+  partySize?: number;
+  tableId?: UUID;
+  /** Reschedules past the kitchen pacing limits (managers only) */
+  pacingOverride?: boolean;
+  notes?: string;
+}
+
+/** Create block request: a full `date` or a startTime/endTime range */
+export interface CreateBlockRequest {
+  /** Venue-local date (YYYY-MM-DD) to close for the whole day */
+  date?: string;
+  startTime?: ISODateTime;
+  endTime?: ISODateTime;
+  section?: string;
+  tableIds?: UUID[];
+  reason: string;
+}
+
 /** Walk-in request */
 export interface WalkInRequest {
   customerName: string;
@@ -107,12 +430,94 @@ export interface WalkInRequest {
   notes?: string;
 }
 
+/** Staff login request */
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+/** Create staff account request */
+export interface CreateStaffUserRequest {
+  username: string;
+  name: string;
+  role: StaffRole;
+  password: string;
+}
+
+/** Update staff account request */
+export interface UpdateStaffUserRequest {
+  name?: string;
+  role?: StaffRole;
+  password?: string;
+  active?: boolean;
+}
+
+/** Create table request */
+export interface CreateTableRequest {
+  number: number;
+  capacity: number;
+  minCapacity?: number;
+  section?: string;
+  combinationGroup?: string;
+}
+
+/** Update table request (combinationGroup null removes the table from its group) */
+export interface UpdateTableRequest {
+  number?: number;
+  capacity?: number;
+  minCapacity?: number;
+  section?: string;
+  combinationGroup?: string | null;
+}
+
+/** Manual table status change */
+export interface UpdateTableStatusRequest {
+  status: TableStatus;
+  /** Required when taking the table out of service */
+  reason?: string;
+}
+
+/** Create waiter request */
+export interface CreateWaiterRequest {
+  name: string;
+}
+
+/** Update waiter request */
+export interface UpdateWaiterRequest {
+  name?: string;
+}
+
+/** Schedule shift request */
+export interface CreateShiftRequest {
+  startTime: ISODateTime;
+  endTime: ISODateTime;
+  section?: string;
+  breaks?: ShiftBreak[];
+}
+
+/** Update shift request (section null clears the section) */
+export interface UpdateShiftRequest {
+  startTime?: ISODateTime;
+  endTime?: ISODateTime;
+  section?: string | null;
+  breaks?: ShiftBreak[];
+}
+
+/** Add to waitlist request */
+export interface WaitlistRequest {
+  customerName: string;
+  partySize: number;
+  phone?: string;
+  notes?: string;
+}
+
 /** Availability check request */
 export interface AvailabilityRequest {
   startTime: ISODateTime;
   partySize: number;
   timezone?: string;
   durationMinutes?: number;
+  experience?: string;
 }
 
 /** Availability slot result */
@@ -123,6 +528,48 @@ export interface AvailabilitySlot {
   startTime: ISODateTime;
   endTime: ISODateTime;
   isAvailable: boolean;
+  /** Set when the slot is a combination of tables (tableCapacity is then the combined capacity) */
+  combinedTableIds?: UUID[];
+  combinedTableNumbers?: number[];
+}
+
+/** How bookable a day is for a party */
+export enum CalendarDayStatus {
+  OPEN = 'OPEN',
+  /** Fewer than half of the day's start times are still bookable */
+  LIMITED = 'LIMITED',
+  FULL = 'FULL',
+  /** No service that day (closed weekday or full closure) */
+  CLOSED = 'CLOSED',
+  /** Every service period of the day is already over */
+  PAST = 'PAST'
+}
+
+/** One day of the availability calendar */
+export interface CalendarDay {
+  /** Venue-local date (YYYY-MM-DD) */
+  date: string;
+  status: CalendarDayStatus;
+  /** Start times a party could still book */
+  availableStartTimes: number;
+  /** Start times still ahead in the day's service periods */
+  totalStartTimes: number;
+}
+
+/** How an alternative differs from the requested booking */
+export enum AlternativeKind {
+  EARLIER = 'EARLIER',
+  LATER = 'LATER',
+  OTHER_SECTION = 'OTHER_SECTION',
+  ADJACENT_DAY = 'ADJACENT_DAY'
+}
+
+/** Bookable slot offered instead of a fully booked request */
+export interface AlternativeSlot extends AvailabilitySlot {
+  kind: AlternativeKind;
+  section?: string;
+  /** Minutes between the requested start and this one (negative when earlier) */
+  minutesFromRequested: number;
 }
 
 /** Result wrapper with success/error handling */
@@ -153,9 +600,40 @@ export interface PaginatedResult<T> {
 
 /** Lock for concurrent access control */
 export interface ResourceLock {
-  resourceType: 'table' | 'reservation' | 'timeslot';
+  resourceType: 'table' | 'reservation' | 'timeslot' | 'idempotency';
   resourceId: UUID;
   lockedBy: string;
   lockedAt: ISODateTime;
   expiresAt: ISODateTime;
+  /** Monotonically increasing across all locks; newer holders get larger tokens */
+  fencingToken: number;
+}
+
+/** First outcome of a request sent with an Idempotency-Key, replayed for retries */
+export interface IdempotencyRecord {
+  id: UUID;
+  /** Operation the key belongs to (keys are unique per operation) */
+  scope: string;
+  key: string;
+  /** SHA-256 of the request body, to detect a key reused for another request */
+  requestHash: string;
+  result: Result<unknown>;
+  expiresAt: ISODateTime;
+  createdAt: ISODateTime;
+  updatedAt: ISODateTime;
+}
+
+/** Fencing token of a held lock, passed along with writes made under it */
+export interface FencingToken {
+  /** Lock key (`<resourceType>:<resourceId>`) */
+  key: string;
+  token: number;
+}
+
+/** Options for store writes */
+export interface WriteOptions {
+  /** Tokens of the locks the writer holds; writes with a token older than one already seen are rejected */
+  fencing?: FencingToken[];
+  /** Who is making the change (recorded in audit history) */
+  actor?: string;
 }
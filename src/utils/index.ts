@@ -1,2 +1,5 @@
 export * from './timezone';
 export * from './locking';
+export * from './tableCombinations';
+export * from './scheduler';
+export * from './lockProvider';
@@ -0,0 +1,184 @@
+/**
+ * Tests for Lock Providers and Fencing Tokens
+ * Task #7: Prevent Race Conditions
+ *
+ * Locks can live in a file shared by several processes; every grant carries
+ * an increasing fencing token, and the stores reject writes made with a token
+ * older than one already written under the same lock.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryLockProvider, FileLockProvider, LockRequest } from './lockProvider';
+import {
+  acquireLock,
+  withLock,
+  setLockProvider,
+  getFencingTokens,
+  clearAllLocks
+} from './locking';
+import { initializeSampleData, resetStores, tableStore, STALE_FENCING_TOKEN } from '../data/store';
+import { TableStatus } from '../types';
+
+/** Lock request expiring the given number of minutes from now */
+function lockRequest(owner: string, minutes = 5): LockRequest {
+  const now = new Date();
+  return {
+    resourceId: 'table-1',
+    resourceType: 'table',
+    lockedBy: owner,
+    lockedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + minutes * 60000).toISOString()
+  };
+}
+
+describe('Lock Providers', () => {
+  let lockDir: string;
+
+  beforeEach(() => {
+    lockDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tabletop-locks-'));
+    resetStores();
+    initializeSampleData();
+  });
+
+  afterEach(() => {
+    setLockProvider(new InMemoryLockProvider());
+    fs.rmSync(lockDir, { recursive: true, force: true });
+  });
+
+  describe('In-memory provider', () => {
+    it('should hand out increasing fencing tokens, even after clearing', () => {
+      const provider = new InMemoryLockProvider();
+
+      const first = provider.acquire('table:table-1', lockRequest('owner-1'), new Date());
+      provider.release('table:table-1', 'owner-1');
+      const second = provider.acquire('table:table-1', lockRequest('owner-2'), new Date());
+      provider.clear();
+      const third = provider.acquire('table:table-1', lockRequest('owner-3'), new Date());
+
+      expect(second.granted!.fencingToken).toBeGreaterThan(first.granted!.fencingToken);
+      expect(third.granted!.fencingToken).toBeGreaterThan(second.granted!.fencingToken);
+    });
+  });
+
+  describe('File provider', () => {
+    it('should exclude owners across providers sharing the file', () => {
+      const filePath = path.join(lockDir, 'locks.json');
+      const processA = new FileLockProvider(filePath);
+      const processB = new FileLockProvider(filePath);
+
+      const granted = processA.acquire('table:table-1', lockRequest('owner-a'), new Date());
+      const blocked = processB.acquire('table:table-1', lockRequest('owner-b'), new Date());
+
+      expect(granted.granted).toBeDefined();
+      expect(blocked.granted).toBeUndefined();
+      expect(blocked.heldBy!.lockedBy).toBe('owner-a');
+      expect(processB.count()).toBe(1);
+
+      expect(processA.release('table:table-1', 'owner-a')).toBe(true);
+      expect(processB.acquire('table:table-1', lockRequest('owner-b'), new Date()).granted).toBeDefined();
+    });
+
+    it('should increase fencing tokens across providers', () => {
+      const filePath = path.join(lockDir, 'locks.json');
+      const processA = new FileLockProvider(filePath);
+      const processB = new FileLockProvider(filePath);
+
+      const first = processA.acquire('table:table-1', lockRequest('owner-a'), new Date()).granted!;
+      processA.release('table:table-1', 'owner-a');
+      const second = processB.acquire('table:table-2', lockRequest('owner-b'), new Date()).granted!;
+
+      expect(second.fencingToken).toBeGreaterThan(first.fencingToken);
+    });
+
+    it('should hand expired locks to the next owner and clean them up', () => {
+      const provider = new FileLockProvider(path.join(lockDir, 'locks.json'));
+
+      provider.acquire('table:table-1', lockRequest('owner-a', -1), new Date());
+      expect(provider.acquire('table:table-1', lockRequest('owner-b'), new Date()).granted).toBeDefined();
+
+      provider.acquire('table:table-2', lockRequest('owner-c', -1), new Date());
+      expect(provider.cleanupExpired(new Date())).toEqual(['table:table-2']);
+      expect(provider.count()).toBe(1);
+    });
+
+    it('should remove a mutex left behind by a crashed process', () => {
+      const filePath = path.join(lockDir, 'locks.json');
+      fs.writeFileSync(`${filePath}.mutex`, '');
+      const past = new Date(Date.now() - 60000);
+      fs.utimesSync(`${filePath}.mutex`, past, past);
+
+      const provider = new FileLockProvider(filePath, { staleMutexMs: 1000 });
+
+      expect(provider.acquire('table:table-1', lockRequest('owner-a'), new Date()).granted).toBeDefined();
+    });
+
+    it('should back the locking API when installed', async () => {
+      setLockProvider(new FileLockProvider(path.join(lockDir, 'locks.json')));
+      const other = new FileLockProvider(path.join(lockDir, 'locks.json'));
+
+      const result = await withLock('table', 'table-1', () => other.get('table:table-1')?.lockedBy);
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBeDefined();
+      expect(other.count()).toBe(0);
+    });
+  });
+
+  describe('Fencing tokens', () => {
+    let tableId: string;
+
+    beforeEach(() => {
+      clearAllLocks();
+      tableId = tableStore.findByNumber(1)!.id;
+    });
+
+    it('should reject a write from a holder whose lock expired', () => {
+      const expired = acquireLock('table', tableId, 'slow-owner', -1);
+      const current = acquireLock('table', tableId, 'next-owner');
+      expect(current.success).toBe(true);
+
+      tableStore.update(tableId, { status: TableStatus.RESERVED }, {
+        fencing: getFencingTokens([current.lock!])
+      });
+
+      expect(() => tableStore.update(tableId, { status: TableStatus.AVAILABLE }, {
+        fencing: getFencingTokens([expired.lock!])
+      })).toThrow(STALE_FENCING_TOKEN);
+      expect(tableStore.getById(tableId)!.status).toBe(TableStatus.RESERVED);
+    });
+
+    it('should accept writes from successive holders', () => {
+      const first = acquireLock('table', tableId, 'owner-1');
+      tableStore.update(tableId, { status: TableStatus.RESERVED }, { fencing: getFencingTokens([first.lock!]) });
+      clearAllLocks();
+
+      const second = acquireLock('table', tableId, 'owner-2');
+      const updated = tableStore.update(tableId, { status: TableStatus.OCCUPIED }, {
+        fencing: getFencingTokens([second.lock!])
+      });
+
+      expect(updated!.status).toBe(TableStatus.OCCUPIED);
+    });
+
+    it('should reject a stale write from another process sharing the lock file', () => {
+      const filePath = path.join(lockDir, 'locks.json');
+      const key = `table:${tableId}`;
+      const slowProcess = new FileLockProvider(filePath);
+      const expired = slowProcess.acquire(key, { ...lockRequest('slow-owner', -1), resourceId: tableId }, new Date());
+
+      setLockProvider(new FileLockProvider(filePath));
+      const current = acquireLock('table', tableId, 'next-owner');
+      tableStore.update(tableId, { status: TableStatus.RESERVED }, { fencing: getFencingTokens([current.lock!]) });
+
+      // The newest written token is in the shared file, not in this process's stores
+      expect(slowProcess.admitFencing(getFencingTokens([expired.granted!]))).toBe(false);
+      setLockProvider(slowProcess);
+      expect(() => tableStore.update(tableId, { status: TableStatus.AVAILABLE }, {
+        fencing: getFencingTokens([expired.granted!])
+      })).toThrow(STALE_FENCING_TOKEN);
+      expect(tableStore.getById(tableId)!.status).toBe(TableStatus.RESERVED);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Lock Providers
+ * Task #3 & #7: System Reliability, Prevent Race Conditions
+ *
+ * Pluggable backends for the lock table used by locking.ts:
+ * - In-memory provider (default, protects a single process)
+ * - File provider sharing one lock file between processes on the same host
+ *
+ * Every granted lock carries a fencing token from a single, monotonically
+ * increasing counter. The provider also keeps the newest token written under
+ * each lock, and stores reject writes carrying an older one, so a holder whose
+ * lock expired cannot overwrite data written by the next holder, whichever
+ * process either of them runs in.
+ *
+ * Providers are synchronous so the locking API stays synchronous.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ResourceLock, FencingToken } from '../types';
+
+/** Lock to grant (the provider assigns the fencing token) */
+export type LockRequest = Omit<ResourceLock, 'fencingToken'>;
+
+/** Outcome of an acquire: the granted lock, or the live lock in the way */
+export interface LockGrant {
+  granted?: ResourceLock;
+  heldBy?: ResourceLock;
+}
+
+/** Backend holding the lock table */
+export interface LockProvider {
+  /**
+   * Grants the lock unless another owner holds a live one (an owner may
+   * renew its own lock); a granted lock carries a new fencing token
+   */
+  acquire(key: string, request: LockRequest, now: Date): LockGrant;
+  /** Releases a lock held by the owner (true if released or already gone) */
+  release(key: string, lockOwner: string): boolean;
+  /** Gets a lock (which may have expired) */
+  get(key: string): ResourceLock | undefined;
+  /** Removes expired locks and returns their keys */
+  cleanupExpired(now: Date): string[];
+  /**
+   * Records the tokens of a write as the newest seen per lock, unless one is
+   * older than a token already written under the same lock (false: stale)
+   */
+  admitFencing(fencing: FencingToken[]): boolean;
+  /** Removes every lock (fencing tokens keep increasing) */
+  clear(): void;
+  /** Number of locks in the table */
+  count(): number;
+}
+
+/** Lock table contents */
+interface LockTable {
+  nextToken: number;
+  locks: Record<string, ResourceLock>;
+  /** Newest fencing token written under each lock key */
+  written?: Record<string, number>;
+}
+
+/**
+ * Applies an acquire request to a lock table (shared by the providers)
+ */
+function acquireInTable(table: LockTable, key: string, request: LockRequest, now: Date): LockGrant {
+  const existing = table.locks[key];
+  if (existing && new Date(existing.expiresAt) > now && existing.lockedBy !== request.lockedBy) {
+    return { heldBy: existing };
+  }
+
+  const granted: ResourceLock = { ...request, fencingToken: table.nextToken++ };
+  table.locks[key] = granted;
+  return { granted };
+}
+
+/**
+ * Removes a lock if the owner holds it
+ */
+function releaseInTable(table: LockTable, key: string, lockOwner: string): boolean {
+  const existing = table.locks[key];
+  if (!existing) {
+    return true; // Lock doesn't exist, consider it released
+  }
+  if (existing.lockedBy !== lockOwner) {
+    return false; // Can't release someone else's lock
+  }
+  delete table.locks[key];
+  return true;
+}
+
+/**
+ * Checks a write's fencing tokens against a table and records them
+ */
+function admitFencingInTable(table: LockTable, fencing: FencingToken[]): boolean {
+  const written = table.written ?? {};
+  if (fencing.some(({ key, token }) => token < (written[key] ?? 0))) {
+    return false;
+  }
+  fencing.forEach(({ key, token }) => {
+    written[key] = Math.max(token, written[key] ?? 0);
+  });
+  table.written = written;
+  return true;
+}
+
+/**
+ * Removes expired locks from a table
+ */
+function cleanupTable(table: LockTable, now: Date): string[] {
+  const expired = Object.keys(table.locks).filter(key => new Date(table.locks[key].expiresAt) <= now);
+  expired.forEach(key => delete table.locks[key]);
+  return expired;
+}
+
+/**
+ * In-memory provider (would be Redis in production)
+ */
+export class InMemoryLockProvider implements LockProvider {
+  private table: LockTable = { nextToken: 1, locks: {}, written: {} };
+
+  acquire(key: string, request: LockRequest, now: Date): LockGrant {
+    return acquireInTable(this.table, key, request, now);
+  }
+
+  release(key: string, lockOwner: string): boolean {
+    return releaseInTable(this.table, key, lockOwner);
+  }
+
+  get(key: string): ResourceLock | undefined {
+    return this.table.locks[key];
+  }
+
+  cleanupExpired(now: Date): string[] {
+    return cleanupTable(this.table, now);
+  }
+
+  admitFencing(fencing: FencingToken[]): boolean {
+    return admitFencingInTable(this.table, fencing);
+  }
+
+  clear(): void {
+    this.table.locks = {};
+  }
+
+  count(): number {
+    return Object.keys(this.table.locks).length;
+  }
+}
+
+/** File provider options */
+export interface FileLockProviderOptions {
+  /** Give up taking the file mutex after this long (default 2000ms) */
+  mutexTimeoutMs?: number;
+  /** Treat a mutex older than this as left behind by a crashed process (default 10000ms) */
+  staleMutexMs?: number;
+}
+
+const DEFAULT_MUTEX_TIMEOUT_MS = 2000;
+const DEFAULT_STALE_MUTEX_MS = 10000;
+
+/** Shared buffer used to sleep synchronously between mutex attempts */
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+
+/**
+ * File-backed provider shared by every process pointing at the same file
+ * Each operation takes an exclusive mutex file (`<file>.mutex`, created with
+ * O_EXCL), reads the lock table, applies the change and writes it back via
+ * an atomic rename. The fencing counter and the newest token written under
+ * each lock live in the same file, so tokens increase, and stale writes are
+ * rejected, across all processes.
+ */
+export class FileLockProvider implements LockProvider {
+  private readonly filePath: string;
+  private readonly mutexPath: string;
+  private readonly mutexTimeoutMs: number;
+  private readonly staleMutexMs: number;
+
+  constructor(filePath: string, options: FileLockProviderOptions = {}) {
+    this.filePath = filePath;
+    this.mutexPath = `${filePath}.mutex`;
+    this.mutexTimeoutMs = options.mutexTimeoutMs ?? DEFAULT_MUTEX_TIMEOUT_MS;
+    this.staleMutexMs = options.staleMutexMs ?? DEFAULT_STALE_MUTEX_MS;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  acquire(key: string, request: LockRequest, now: Date): LockGrant {
+    return this.update(table => acquireInTable(table, key, request, now));
+  }
+
+  release(key: string, lockOwner: string): boolean {
+    return this.update(table => releaseInTable(table, key, lockOwner));
+  }
+
+  get(key: string): ResourceLock | undefined {
+    return this.read().locks[key];
+  }
+
+  cleanupExpired(now: Date): string[] {
+    return this.update(table => cleanupTable(table, now));
+  }
+
+  admitFencing(fencing: FencingToken[]): boolean {
+    if (fencing.length === 0) {
+      return true;
+    }
+    return this.update(table => admitFencingInTable(table, fencing));
+  }
+
+  clear(): void {
+    this.update(table => {
+      table.locks = {};
+    });
+  }
+
+  count(): number {
+    return Object.keys(this.read().locks).length;
+  }
+
+  /**
+   * Reads the lock table (an absent file is an empty table)
+   */
+  private read(): LockTable {
+    if (!fs.existsSync(this.filePath)) {
+      return { nextToken: 1, locks: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as LockTable;
+  }
+
+  /**
+   * Applies a change to the lock table while holding the file mutex
+   */
+  private update<R>(change: (table: LockTable) => R): R {
+    this.lockFile();
+    try {
+      const table = this.read();
+      const result = change(table);
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(table));
+      fs.renameSync(tmpPath, this.filePath);
+      return result;
+    } finally {
+      fs.rmSync(this.mutexPath, { force: true });
+    }
+  }
+
+  /**
+   * Takes the file mutex, waiting briefly while another process holds it
+   */
+  private lockFile(): void {
+    const deadline = Date.now() + this.mutexTimeoutMs;
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(this.mutexPath, 'wx'));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // A mutex left behind by a crashed process is removed
+      try {
+        if (Date.now() - fs.statSync(this.mutexPath).mtimeMs > this.staleMutexMs) {
+          fs.rmSync(this.mutexPath, { force: true });
+          continue;
+        }
+      } catch {
+        continue; // Released between the attempts
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for lock file mutex ${this.mutexPath}`);
+      }
+      Atomics.wait(sleepBuffer, 0, 0, 2);
+    }
+  }
+}
@@ -16,6 +16,12 @@ import {
   acquireMultipleLocks,
   releaseMultipleLocks,
   withLock,
+  withLocks,
+  getTimeslotLockResources,
+  acquireLocksQueued,
+  withQueuedLocks,
+  getWaitingCount,
+  LockErrorCode,
   cleanupExpiredLocks,
   clearAllLocks,
   getLockCount
@@ -255,4 +261,159 @@ describe('Locking Utilities', () => {
       expect(results.length).toBe(successful.length);
     });
   });
+
+  describe('Task #7: Prevent Race Conditions - Time-Bucket Locks', () => {
+    it('should cover a window with 15-minute buckets', () => {
+      const resources = getTimeslotLockResources('2027-01-01T19:05:00.000Z', '2027-01-01T20:00:00.000Z');
+
+      expect(resources.map(r => r.id)).toEqual([
+        '2027-01-01T19:00:00.000Z',
+        '2027-01-01T19:15:00.000Z',
+        '2027-01-01T19:30:00.000Z',
+        '2027-01-01T19:45:00.000Z'
+      ]);
+      expect(resources.every(r => r.type === 'timeslot')).toBe(true);
+    });
+
+    it('should share a bucket between overlapping windows with offset starts', () => {
+      const first = getTimeslotLockResources('2027-01-01T19:00:00.000Z', '2027-01-01T20:30:00.000Z').map(r => r.id);
+      const second = getTimeslotLockResources('2027-01-01T19:15:00.000Z', '2027-01-01T20:45:00.000Z').map(r => r.id);
+      const afterwards = getTimeslotLockResources('2027-01-01T20:30:00.000Z', '2027-01-01T22:00:00.000Z').map(r => r.id);
+
+      expect(second.some(id => first.includes(id))).toBe(true);
+      expect(afterwards.some(id => first.includes(id))).toBe(false);
+    });
+
+    it('should hold every lock while the function runs and release them afterwards', async () => {
+      const resources = getTimeslotLockResources('2027-01-01T19:00:00.000Z', '2027-01-01T19:30:00.000Z');
+
+      const outcome = await withLocks(resources, () => {
+        expect(isLocked('timeslot', '2027-01-01T19:00:00.000Z')).toBe(true);
+        expect(isLocked('timeslot', '2027-01-01T19:15:00.000Z')).toBe(true);
+        return 'done';
+      });
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.result).toBe('done');
+      expect(getLockCount()).toBe(0);
+    });
+
+    it('should fail without running the function when any lock is held', async () => {
+      acquireLock('timeslot', '2027-01-01T19:15:00.000Z', 'other-owner');
+      let ran = false;
+
+      const outcome = await withLocks(
+        getTimeslotLockResources('2027-01-01T19:00:00.000Z', '2027-01-01T19:30:00.000Z'),
+        () => { ran = true; }
+      );
+
+      expect(outcome.success).toBe(false);
+      expect(ran).toBe(false);
+      expect(isLocked('timeslot', '2027-01-01T19:00:00.000Z')).toBe(false);
+    });
+  });
+
+  describe('Task #7: Prevent Race Conditions - Waiting for Locks', () => {
+    const slot = [{ type: 'timeslot' as const, id: 'slot-1' }];
+
+    it('should acquire a free lock without waiting', async () => {
+      const result = await acquireLocksQueued(slot, 'owner-1');
+
+      expect(result.success).toBe(true);
+      expect(isLocked('timeslot', 'slot-1')).toBe(true);
+    });
+
+    it('should grant a held lock once it is released', async () => {
+      acquireLock('timeslot', 'slot-1', 'holder');
+
+      const waiting = acquireLocksQueued(slot, 'waiter');
+      expect(getWaitingCount()).toBe(1);
+
+      releaseLock('timeslot', 'slot-1', 'holder');
+      const result = await waiting;
+
+      expect(result.success).toBe(true);
+      expect(result.error).toBeUndefined();
+      expect(getWaitingCount()).toBe(0);
+    });
+
+    it('should serve waiters in arrival order', async () => {
+      acquireLock('timeslot', 'slot-1', 'holder');
+      const order: string[] = [];
+
+      const runs = ['first', 'second', 'third'].map(name =>
+        withQueuedLocks(slot, async () => {
+          order.push(name);
+          await new Promise(resolve => setImmediate(resolve));
+        })
+      );
+      releaseLock('timeslot', 'slot-1', 'holder');
+      await Promise.all(runs);
+
+      expect(order).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should not let a newcomer jump the queue', async () => {
+      acquireLock('timeslot', 'slot-1', 'holder');
+      const queued = acquireLocksQueued(slot, 'queued');
+
+      // The lock is free for a moment, but a request is already waiting for it
+      releaseLock('timeslot', 'slot-1', 'holder');
+      const newcomer = acquireLocksQueued(slot, 'newcomer', { maxWaitMs: 50 });
+
+      expect((await queued).success).toBe(true);
+      const late = await newcomer;
+      expect(late.success).toBe(false);
+      expect(late.error).toBe(LockErrorCode.LOCK_TIMEOUT);
+    });
+
+    it('should give up after the maximum wait', async () => {
+      acquireLock('timeslot', 'slot-1', 'holder');
+
+      const started = Date.now();
+      const result = await acquireLocksQueued(slot, 'waiter', { maxWaitMs: 60, retryDelayMs: 10, backoff: true });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(LockErrorCode.LOCK_TIMEOUT);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(55);
+      expect(getWaitingCount()).toBe(0);
+    });
+
+    it('should pick up a lock freed by expiry', async () => {
+      acquireLock('timeslot', 'slot-1', 'holder', 0.001); // ~60ms
+
+      const result = await acquireLocksQueued(slot, 'waiter', { maxWaitMs: 1000, retryDelayMs: 20, backoff: true });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should stop waiting when cancelled', async () => {
+      acquireLock('timeslot', 'slot-1', 'holder');
+      const controller = new AbortController();
+
+      const waiting = acquireLocksQueued(slot, 'waiter', { signal: controller.signal });
+      controller.abort();
+      const result = await waiting;
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(LockErrorCode.LOCK_CANCELLED);
+      expect(getWaitingCount()).toBe(0);
+    });
+
+    it('should not deadlock waiters needing overlapping sets of locks', async () => {
+      acquireLock('timeslot', 'a', 'holder');
+      const ab = [{ type: 'timeslot' as const, id: 'a' }, { type: 'timeslot' as const, id: 'b' }];
+      const bc = [{ type: 'timeslot' as const, id: 'b' }, { type: 'timeslot' as const, id: 'c' }];
+      const ca = [{ type: 'timeslot' as const, id: 'c' }, { type: 'timeslot' as const, id: 'a' }];
+
+      const runs = [ab, bc, ca].map(resources =>
+        withQueuedLocks(resources, () => new Promise(resolve => setImmediate(resolve)), { maxWaitMs: 1000 })
+      );
+      releaseLock('timeslot', 'a', 'holder');
+      const outcomes = await Promise.all(runs);
+
+      expect(outcomes.every(o => o.success)).toBe(true);
+      expect(getLockCount()).toBe(0);
+    });
+  });
 });
@@ -6,25 +6,102 @@
  * - Prevent double bookings when multiple requests occur simultaneously
  * - Ensure data integrity during concurrent operations
  * - Handle lock timeouts gracefully
+ * - Let contending requests wait their turn (FIFO) instead of failing outright
+ * - Hand out fencing tokens so stores can reject writes from expired holders
+ *
+ * The lock table lives in a pluggable LockProvider (in-memory by default,
+ * see lockProvider.ts for a provider shared between processes).
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { ResourceLock, UUID } from '../types';
+import { ResourceLock, UUID, FencingToken } from '../types';
 import { nowUTC, addMinutes } from './timezone';
+import { LockProvider, InMemoryLockProvider } from './lockProvider';
 
 /** Default lock timeout in minutes */
 const DEFAULT_LOCK_TIMEOUT_MINUTES = 2;
 
-/** In-memory lock storage (would be Redis in production) */
-const locks = new Map<string, ResourceLock>();
+/** Width of the time buckets locked for a reservation window */
+export const TIMESLOT_BUCKET_MINUTES = 15;
+
+/** Longest a queued request waits for its locks by default */
+export const DEFAULT_LOCK_WAIT_MS = 5000;
+
+/** Default delay between re-checks while waiting (doubles with backoff) */
+const DEFAULT_LOCK_RETRY_MS = 25;
+
+/** Upper bound for the backoff delay */
+const DEFAULT_MAX_LOCK_RETRY_MS = 500;
+
+/** Backend holding the lock table */
+let provider: LockProvider = new InMemoryLockProvider();
+
+/** Errors reported when waiting for a lock does not end in acquiring it */
+export enum LockErrorCode {
+  LOCK_TIMEOUT = 'LOCK_TIMEOUT',
+  LOCK_CANCELLED = 'LOCK_CANCELLED'
+}
+
+/** Options for waiting on a held lock */
+export interface LockWaitOptions {
+  /** Give up after this many milliseconds (default DEFAULT_LOCK_WAIT_MS) */
+  maxWaitMs?: number;
+  /** Delay between re-checks for locks freed by expiry (default 25ms) */
+  retryDelayMs?: number;
+  /** Double the re-check delay after every attempt, up to maxRetryDelayMs */
+  backoff?: boolean;
+  maxRetryDelayMs?: number;
+  /** Aborting the signal cancels the wait */
+  signal?: AbortSignal;
+  /** Lock timeout once acquired */
+  timeoutMinutes?: number;
+}
+
+/** Request queued for a set of locks */
+interface LockWaiter {
+  resources: LockResource[];
+  keys: string[];
+  lockOwner: string;
+  timeoutMinutes: number;
+  resolve: (result: LockResult) => void;
+  timer?: NodeJS.Timeout;
+  onAbort?: () => void;
+  signal?: AbortSignal;
+  /** Set while acquiring, so rolled-back partial acquisitions do not re-enter */
+  acquiring?: boolean;
+}
+
+/** FIFO queues of waiting requests, per lock key */
+const waitQueues = new Map<string, LockWaiter[]>();
+
+/** Every request currently waiting */
+const waiters = new Set<LockWaiter>();
 
 /** Lock acquisition result */
 export interface LockResult {
   success: boolean;
   lock?: ResourceLock;
+  /** Every lock granted by a multi-lock acquisition */
+  locks?: ResourceLock[];
+  error?: string;
+}
+
+/** Outcome of running a function under lock */
+export interface LockedResult<T> {
+  success: boolean;
+  result?: T;
   error?: string;
 }
 
+/** Function run under lock; receives the fencing tokens to pass to store writes */
+export type LockedFunction<T> = (fencing: FencingToken[]) => Promise<T> | T;
+
+/** Resource to lock */
+export interface LockResource {
+  type: ResourceLock['resourceType'];
+  id: UUID;
+}
+
 /**
  * Generates a composite key for a lock
  */
@@ -32,6 +109,30 @@ function getLockKey(resourceType: ResourceLock['resourceType'], resourceId: UUID
   return `${resourceType}:${resourceId}`;
 }
 
+/**
+ * Switches the lock table to another provider (e.g. one shared between processes)
+ */
+export function setLockProvider(lockProvider: LockProvider): void {
+  provider = lockProvider;
+}
+
+/**
+ * Gets the current lock provider
+ */
+export function getLockProvider(): LockProvider {
+  return provider;
+}
+
+/**
+ * Gets the fencing tokens of held locks, for passing to store writes
+ */
+export function getFencingTokens(heldLocks: ResourceLock[]): FencingToken[] {
+  return heldLocks.map(lock => ({
+    key: getLockKey(lock.resourceType, lock.resourceId),
+    token: lock.fencingToken
+  }));
+}
+
 /**
  * Acquires a lock on a resource
  * Returns success if lock is acquired, failure if resource is already locked
@@ -45,30 +146,23 @@ export function acquireLock(
   const key = getLockKey(resourceType, resourceId);
   const now = new Date();
   
-  // Check if lock exists and is still valid
-  const existingLock = locks.get(key);
-  if (existingLock) {
-    const expiresAt = new Date(existingLock.expiresAt);
-    if (expiresAt > now && existingLock.lockedBy !== lockOwner) {
-      return {
-        success: false,
-        error: `Resource is locked by another process until ${existingLock.expiresAt}`
-      };
-    }
-  }
-  
-  // Create new lock
-  const lock: ResourceLock = {
+  // Granted unless another owner holds a live lock
+  const { granted, heldBy } = provider.acquire(key, {
     resourceType,
     resourceId,
     lockedBy: lockOwner,
     lockedAt: nowUTC(),
     expiresAt: addMinutes(now, timeoutMinutes).toISOString()
-  };
-  
-  locks.set(key, lock);
+  }, now);
+
+  if (!granted) {
+    return {
+      success: false,
+      error: `Resource is locked by another process until ${heldBy!.expiresAt}`
+    };
+  }
   
-  return { success: true, lock };
+  return { success: true, lock: granted };
 }
 
 /**
@@ -80,17 +174,12 @@ export function releaseLock(
   lockOwner: string
 ): boolean {
   const key = getLockKey(resourceType, resourceId);
-  const existingLock = locks.get(key);
-  
-  if (!existingLock) {
-    return true; // Lock doesn't exist, consider it released
-  }
-  
-  if (existingLock.lockedBy !== lockOwner) {
+
+  if (!provider.release(key, lockOwner)) {
     return false; // Can't release someone else's lock
   }
-  
-  locks.delete(key);
+
+  wakeWaiters([key]);
   return true;
 }
 
@@ -101,23 +190,10 @@ export function isLocked(
   resourceType: ResourceLock['resourceType'],
   resourceId: UUID
 ): boolean {
-  const key = getLockKey(resourceType, resourceId);
-  const existingLock = locks.get(key);
-  
-  if (!existingLock) {
-    return false;
-  }
-  
-  const now = new Date();
-  const expiresAt = new Date(existingLock.expiresAt);
+  const existingLock = provider.get(getLockKey(resourceType, resourceId));
   
-  if (expiresAt <= now) {
-    // Lock has expired, clean it up
-    locks.delete(key);
-    return false;
-  }
-  
-  return true;
+  // An expired lock no longer counts (cleanupExpiredLocks removes it)
+  return existingLock !== undefined && new Date(existingLock.expiresAt) > new Date();
 }
 
 /**
@@ -125,7 +201,7 @@ export function isLocked(
  * Either all locks are acquired or none are
  */
 export function acquireMultipleLocks(
-  resources: Array<{ type: ResourceLock['resourceType']; id: UUID }>,
+  resources: LockResource[],
   lockOwner: string,
   timeoutMinutes: number = DEFAULT_LOCK_TIMEOUT_MINUTES
 ): LockResult {
@@ -153,14 +229,14 @@ export function acquireMultipleLocks(
     acquiredLocks.push(result.lock!);
   }
   
-  return { success: true };
+  return { success: true, locks: acquiredLocks };
 }
 
 /**
  * Releases multiple locks
  */
 export function releaseMultipleLocks(
-  resources: Array<{ type: ResourceLock['resourceType']; id: UUID }>,
+  resources: LockResource[],
   lockOwner: string
 ): void {
   for (const resource of resources) {
@@ -175,9 +251,9 @@ export function releaseMultipleLocks(
 export async function withLock<T>(
   resourceType: ResourceLock['resourceType'],
   resourceId: UUID,
-  fn: () => Promise<T> | T,
+  fn: LockedFunction<T>,
   timeoutMinutes: number = DEFAULT_LOCK_TIMEOUT_MINUTES
-): Promise<{ success: boolean; result?: T; error?: string }> {
+): Promise<LockedResult<T>> {
   const lockOwner = uuidv4();
   
   const lockResult = acquireLock(resourceType, resourceId, lockOwner, timeoutMinutes);
@@ -187,7 +263,7 @@ export async function withLock<T>(
   }
   
   try {
-    const result = await fn();
+    const result = await fn(getFencingTokens([lockResult.lock!]));
     return { success: true, result };
   } catch (error) {
     return { 
@@ -199,35 +275,260 @@ export async function withLock<T>(
   }
 }
 
+/**
+ * Executes a function with several locks held
+ * All locks are acquired atomically (or none) and released afterwards
+ */
+export async function withLocks<T>(
+  resources: LockResource[],
+  fn: LockedFunction<T>,
+  timeoutMinutes: number = DEFAULT_LOCK_TIMEOUT_MINUTES
+): Promise<LockedResult<T>> {
+  const lockOwner = uuidv4();
+
+  const lockResult = acquireMultipleLocks(resources, lockOwner, timeoutMinutes);
+
+  if (!lockResult.success) {
+    return { success: false, error: lockResult.error };
+  }
+
+  try {
+    const result = await fn(getFencingTokens(lockResult.locks!));
+    return { success: true, result };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  } finally {
+    releaseMultipleLocks(resources, lockOwner);
+  }
+}
+
+/**
+ * Checks whether a waiter is at the head of the queue of every lock it needs
+ * Waiters join all their queues at once, so the oldest waiter is always
+ * first in line everywhere and queued requests cannot deadlock
+ */
+function isFirstInLine(waiter: LockWaiter): boolean {
+  return waiter.keys.every(key => waitQueues.get(key)?.[0] === waiter);
+}
+
+/**
+ * Removes a waiter from the queues and settles it
+ */
+function settleWaiter(waiter: LockWaiter, result: LockResult): void {
+  if (!waiters.delete(waiter)) {
+    return; // Already settled
+  }
+
+  if (waiter.timer) {
+    clearTimeout(waiter.timer);
+  }
+  if (waiter.signal && waiter.onAbort) {
+    waiter.signal.removeEventListener('abort', waiter.onAbort);
+  }
+
+  for (const key of waiter.keys) {
+    const queue = waitQueues.get(key)?.filter(w => w !== waiter) ?? [];
+    if (queue.length > 0) {
+      waitQueues.set(key, queue);
+    } else {
+      waitQueues.delete(key);
+    }
+  }
+
+  waiter.resolve(result);
+
+  // Whoever was queued behind this waiter may now be first in line
+  wakeWaiters(waiter.keys);
+}
+
+/**
+ * Grants the locks to a waiter if it is first in line and they are free
+ */
+function tryGrant(waiter: LockWaiter): boolean {
+  if (waiter.acquiring || !isFirstInLine(waiter)) {
+    return false;
+  }
+
+  waiter.acquiring = true;
+  const result = acquireMultipleLocks(waiter.resources, waiter.lockOwner, waiter.timeoutMinutes);
+  waiter.acquiring = false;
+  if (!result.success) {
+    return false;
+  }
+
+  settleWaiter(waiter, result);
+  return true;
+}
+
+/**
+ * Lets the first waiters of the given lock queues try again
+ */
+function wakeWaiters(keys: string[]): void {
+  for (const key of keys) {
+    const head = waitQueues.get(key)?.[0];
+    if (head) {
+      tryGrant(head);
+    }
+  }
+}
+
+/**
+ * Acquires several locks, waiting in FIFO order while they are held
+ * Resolves with LOCK_TIMEOUT after maxWaitMs, or LOCK_CANCELLED when the
+ * signal is aborted; waiters are woken as soon as a lock is released and
+ * also re-check periodically (locks may simply expire)
+ */
+export function acquireLocksQueued(
+  resources: LockResource[],
+  lockOwner: string,
+  options: LockWaitOptions = {}
+): Promise<LockResult> {
+  const {
+    maxWaitMs = DEFAULT_LOCK_WAIT_MS,
+    retryDelayMs = DEFAULT_LOCK_RETRY_MS,
+    backoff = false,
+    maxRetryDelayMs = DEFAULT_MAX_LOCK_RETRY_MS,
+    signal,
+    timeoutMinutes = DEFAULT_LOCK_TIMEOUT_MINUTES
+  } = options;
+
+  if (signal?.aborted) {
+    return Promise.resolve({ success: false, error: LockErrorCode.LOCK_CANCELLED });
+  }
+
+  const keys = resources.map(r => getLockKey(r.type, r.id));
+
+  // Fast path: nobody is queued and the locks are free
+  if (keys.every(key => !waitQueues.has(key))) {
+    const result = acquireMultipleLocks(resources, lockOwner, timeoutMinutes);
+    if (result.success) {
+      return Promise.resolve(result);
+    }
+  }
+
+  return new Promise<LockResult>(resolve => {
+    const waiter: LockWaiter = { resources, keys, lockOwner, timeoutMinutes, resolve, signal };
+    const deadline = Date.now() + maxWaitMs;
+    let delay = retryDelayMs;
+
+    waiters.add(waiter);
+    for (const key of keys) {
+      waitQueues.set(key, [...(waitQueues.get(key) ?? []), waiter]);
+    }
+
+    if (signal) {
+      waiter.onAbort = () => settleWaiter(waiter, { success: false, error: LockErrorCode.LOCK_CANCELLED });
+      signal.addEventListener('abort', waiter.onAbort);
+    }
+
+    const recheck = () => {
+      if (tryGrant(waiter)) {
+        return;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        settleWaiter(waiter, { success: false, error: LockErrorCode.LOCK_TIMEOUT });
+        return;
+      }
+
+      waiter.timer = setTimeout(recheck, Math.min(delay, remaining));
+      if (backoff) {
+        delay = Math.min(delay * 2, maxRetryDelayMs);
+      }
+    };
+
+    recheck();
+  });
+}
+
+/**
+ * Executes a function once several locks are acquired, waiting in line
+ * while they are held (see acquireLocksQueued)
+ */
+export async function withQueuedLocks<T>(
+  resources: LockResource[],
+  fn: LockedFunction<T>,
+  options: LockWaitOptions = {}
+): Promise<LockedResult<T>> {
+  const lockOwner = uuidv4();
+
+  const lockResult = await acquireLocksQueued(resources, lockOwner, options);
+
+  if (!lockResult.success) {
+    return { success: false, error: lockResult.error };
+  }
+
+  try {
+    const result = await fn(getFencingTokens(lockResult.locks!));
+    return { success: true, result };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  } finally {
+    releaseMultipleLocks(resources, lockOwner);
+  }
+}
+
+/**
+ * Gets the number of requests waiting for locks (for monitoring)
+ */
+export function getWaitingCount(): number {
+  return waiters.size;
+}
+
+/**
+ * Gets the time-bucket locks covering a reservation window [start, end)
+ * Overlapping windows always share a bucket, so bookings that overlap
+ * are serialized even when their start times differ
+ */
+export function getTimeslotLockResources(
+  startTime: string,
+  endTime: string,
+  bucketMinutes: number = TIMESLOT_BUCKET_MINUTES
+): LockResource[] {
+  const bucketMs = bucketMinutes * 60 * 1000;
+  const end = new Date(endTime).getTime();
+  const resources: LockResource[] = [];
+
+  for (let bucket = Math.floor(new Date(startTime).getTime() / bucketMs) * bucketMs; bucket < end; bucket += bucketMs) {
+    resources.push({ type: 'timeslot', id: new Date(bucket).toISOString() });
+  }
+
+  return resources;
+}
+
 /**
  * Cleans up expired locks
  * Should be called periodically
  */
 export function cleanupExpiredLocks(): number {
-  const now = new Date();
-  let cleaned = 0;
+  const expiredKeys = provider.cleanupExpired(new Date());
+  wakeWaiters(expiredKeys);
   
-  for (const [key, lock] of locks.entries()) {
-    const expiresAt = new Date(lock.expiresAt);
-    if (expiresAt <= now) {
-      locks.delete(key);
-      cleaned++;
-    }
-  }
-  
-  return cleaned;
+  return expiredKeys.length;
 }
 
 /**
  * Clears all locks (for testing)
  */
 export function clearAllLocks(): void {
-  locks.clear();
+  const pending = Array.from(waiters);
+  waitQueues.clear();
+  for (const waiter of pending) {
+    settleWaiter(waiter, { success: false, error: LockErrorCode.LOCK_CANCELLED });
+  }
+  provider.clear();
 }
 
 /**
  * Gets current lock count (for monitoring)
  */
 export function getLockCount(): number {
-  return locks.size;
+  return provider.count();
 }
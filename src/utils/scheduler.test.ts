@@ -0,0 +1,94 @@
+/**
+ * Tests for Background Job Scheduler
+ * Task #3: System Reliability and Usability
+ */
+
+import {
+  registerJob,
+  startScheduler,
+  stopScheduler,
+  runScheduledJobs,
+  clearJobs,
+  getRegisteredJobs
+} from './scheduler';
+
+describe('Scheduler', () => {
+  beforeEach(() => {
+    clearJobs();
+  });
+
+  afterEach(() => {
+    clearJobs();
+    jest.useRealTimers();
+  });
+
+  it('should run every registered job on demand', async () => {
+    const runs: string[] = [];
+    registerJob({ name: 'a', intervalMs: 1000, run: () => { runs.push('a'); } });
+    registerJob({ name: 'b', intervalMs: 1000, run: () => { runs.push('b'); } });
+
+    await runScheduledJobs();
+
+    expect(runs).toEqual(['a', 'b']);
+    expect(getRegisteredJobs()).toEqual(['a', 'b']);
+  });
+
+  it('should pass the run time to the job', async () => {
+    const now = new Date('2027-01-01T12:00:00.000Z');
+    let seen: Date | undefined;
+    registerJob({ name: 'clock', intervalMs: 1000, run: time => { seen = time; } });
+
+    await runScheduledJobs(now);
+
+    expect(seen).toEqual(now);
+  });
+
+  it('should run jobs on their interval only while started', async () => {
+    jest.useFakeTimers();
+    let runs = 0;
+    registerJob({ name: 'tick', intervalMs: 1000, run: () => { runs++; } });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(runs).toBe(0);
+
+    startScheduler();
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(runs).toBe(3);
+
+    stopScheduler();
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(runs).toBe(3);
+  });
+
+  it('should keep running other jobs when one fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    let ran = false;
+    registerJob({ name: 'broken', intervalMs: 1000, run: () => { throw new Error('boom'); } });
+    registerJob({ name: 'healthy', intervalMs: 1000, run: () => { ran = true; } });
+
+    await runScheduledJobs();
+
+    expect(ran).toBe(true);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should not overlap runs of the same job', async () => {
+    let active = 0;
+    let maxActive = 0;
+    registerJob({
+      name: 'slow',
+      intervalMs: 1000,
+      run: async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setImmediate(resolve));
+        active--;
+      }
+    });
+
+    await Promise.all([runScheduledJobs(), runScheduledJobs()]);
+
+    expect(maxActive).toBe(1);
+  });
+});
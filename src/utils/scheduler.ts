@@ -0,0 +1,123 @@
+/**
+ * Background Job Scheduler
+ * Task #3: System Reliability and Usability
+ *
+ * Runs periodic maintenance jobs (releasing expired holds, marking no-shows,
+ * cleaning up stale locks):
+ * - Each job runs on its own interval
+ * - A job never overlaps with a still-running run of itself
+ * - A failing job is logged and retried on its next tick
+ */
+
+/** Periodic job definition */
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: (now: Date) => void | Promise<void>;
+}
+
+interface JobState {
+  job: ScheduledJob;
+  timer?: NodeJS.Timeout;
+  running: boolean;
+}
+
+/** Registered jobs by name */
+const jobs = new Map<string, JobState>();
+
+/** Whether job timers are running */
+let started = false;
+
+/**
+ * Runs one job unless its previous run is still in progress
+ */
+async function runJob(state: JobState, now: Date): Promise<void> {
+  if (state.running) {
+    return;
+  }
+
+  state.running = true;
+  try {
+    await state.job.run(now);
+  } catch (error) {
+    console.error(`Scheduled job "${state.job.name}" failed:`, error);
+  } finally {
+    state.running = false;
+  }
+}
+
+/**
+ * Starts a job's interval timer
+ */
+function scheduleJob(state: JobState): void {
+  state.timer = setInterval(() => runJob(state, new Date()), state.job.intervalMs);
+  // Jobs only run alongside the server; they never keep the process alive on their own
+  state.timer.unref();
+}
+
+/**
+ * Registers a job (replacing any job with the same name)
+ * Jobs only run on their interval while the scheduler is started
+ */
+export function registerJob(job: ScheduledJob): void {
+  const existing = jobs.get(job.name);
+  if (existing?.timer) {
+    clearInterval(existing.timer);
+  }
+
+  const state: JobState = { job, running: false };
+  jobs.set(job.name, state);
+
+  if (started) {
+    scheduleJob(state);
+  }
+}
+
+/**
+ * Starts running every registered job on its interval
+ */
+export function startScheduler(): void {
+  started = true;
+  for (const state of jobs.values()) {
+    if (!state.timer) {
+      scheduleJob(state);
+    }
+  }
+}
+
+/**
+ * Stops all job timers (registered jobs are kept)
+ */
+export function stopScheduler(): void {
+  started = false;
+  for (const state of jobs.values()) {
+    if (state.timer) {
+      clearInterval(state.timer);
+      state.timer = undefined;
+    }
+  }
+}
+
+/**
+ * Runs every registered job once, immediately (e.g. on startup or in tests)
+ */
+export async function runScheduledJobs(now: Date = new Date()): Promise<void> {
+  for (const state of jobs.values()) {
+    await runJob(state, now);
+  }
+}
+
+/**
+ * Stops and removes every job (for testing)
+ */
+export function clearJobs(): void {
+  stopScheduler();
+  jobs.clear();
+}
+
+/**
+ * Gets the names of the registered jobs
+ */
+export function getRegisteredJobs(): string[] {
+  return Array.from(jobs.keys());
+}
@@ -0,0 +1,88 @@
+/**
+ * Table Combination Utilities
+ * Task #1: Reservation Management
+ *
+ * Works out which free tables can be pushed together to seat a party that
+ * no single table fits. Only tables sharing a combination group combine.
+ */
+
+import { Table, AvailabilitySlot, ISODateTime } from '../types';
+
+/** Largest number of tables pushed together for one party */
+export const MAX_COMBINED_TABLES = 4;
+
+/** Set of tables seated together as one party */
+export interface TableCombination {
+  tables: Table[];
+  totalCapacity: number;
+}
+
+/**
+ * Finds combinations of the given (free) tables whose summed capacity fits the party
+ * Results are ordered best first: fewest tables, then least spare capacity
+ */
+export function findTableCombinations(
+  freeTables: Table[],
+  partySize: number,
+  maxTables: number = MAX_COMBINED_TABLES
+): TableCombination[] {
+  const groups = new Map<string, Table[]>();
+  for (const table of freeTables) {
+    if (!table.combinationGroup) continue;
+    const group = groups.get(table.combinationGroup) || [];
+    group.push(table);
+    groups.set(table.combinationGroup, group);
+  }
+
+  const combinations: TableCombination[] = [];
+
+  for (const group of groups.values()) {
+    const sorted = [...group].sort((a, b) => a.number - b.number);
+
+    // Depth-first enumeration of subsets of 2..maxTables tables
+    const visit = (start: number, chosen: Table[], capacity: number) => {
+      if (capacity >= partySize) {
+        // A single fitting table is not a combination; adding tables to a fitting set only wastes seats
+        if (chosen.length >= 2) {
+          combinations.push({ tables: [...chosen], totalCapacity: capacity });
+        }
+        return;
+      }
+      if (chosen.length === maxTables) return;
+
+      for (let i = start; i < sorted.length; i++) {
+        chosen.push(sorted[i]);
+        visit(i + 1, chosen, capacity + sorted[i].capacity);
+        chosen.pop();
+      }
+    };
+
+    visit(0, [], 0);
+  }
+
+  return combinations.sort((a, b) =>
+    a.tables.length - b.tables.length ||
+    (a.totalCapacity - partySize) - (b.totalCapacity - partySize) ||
+    a.tables[0].number - b.tables[0].number
+  );
+}
+
+/**
+ * Converts a combination into an availability slot shown as one seating
+ */
+export function toCombinationSlot(
+  combination: TableCombination,
+  startTime: ISODateTime,
+  endTime: ISODateTime
+): AvailabilitySlot {
+  return {
+    tableId: combination.tables[0].id,
+    tableNumber: combination.tables[0].number,
+    tableCapacity: combination.totalCapacity,
+    startTime,
+    endTime,
+    isAvailable: true,
+    combinedTableIds: combination.tables.map(t => t.id),
+    combinedTableNumbers: combination.tables.map(t => t.number)
+  };
+}
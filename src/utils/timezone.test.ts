@@ -16,6 +16,8 @@ import {
   fromUTC,
   formatInTimezone,
   getDayBoundsInTimezone,
+  zonedTimeToUtc,
+  getZonedDateParts,
   addMinutes,
   calculateEndTime,
   doTimeRangesOverlap,
@@ -97,6 +99,32 @@ describe('Timezone Utilities', () => {
       const date = new Date();
       expect(() => getDayBoundsInTimezone(date, 'Invalid')).toThrow('Invalid timezone');
     });
+
+    it('should take a date-only string as that calendar day in the timezone', () => {
+      const bounds = getDayBoundsInTimezone('2025-06-15', 'America/New_York');
+
+      expect(bounds.start.toISOString()).toBe('2025-06-15T04:00:00.000Z');
+      expect(bounds.end.toISOString()).toBe('2025-06-16T03:59:59.999Z');
+    });
+
+    it('should handle 25-hour days when DST ends', () => {
+      const bounds = getDayBoundsInTimezone('2025-10-26', 'Europe/Copenhagen');
+
+      expect(bounds.end.getTime() + 1 - bounds.start.getTime()).toBe(25 * 60 * 60 * 1000);
+    });
+
+    it('should convert local wall-clock times to UTC across DST', () => {
+      expect(zonedTimeToUtc('2025-06-15', '19:00', 'Europe/Copenhagen').toISOString())
+        .toBe('2025-06-15T17:00:00.000Z');
+      expect(zonedTimeToUtc('2025-01-15', '19:00', 'Europe/Copenhagen').toISOString())
+        .toBe('2025-01-15T18:00:00.000Z');
+    });
+
+    it('should read local date parts in a timezone', () => {
+      const parts = getZonedDateParts('2025-06-15T22:30:00.000Z', 'Europe/Copenhagen');
+
+      expect(parts).toEqual({ year: 2025, month: 6, day: 16, hour: 0, minute: 30, weekday: 1 });
+    });
   });
 
   describe('Task #4: Time and Data Management - Duration Calculations', () => {
@@ -99,36 +99,137 @@ export function formatInTimezone(
   return new Intl.DateTimeFormat('en-US', defaultOptions).format(date);
 }
 
+/** Calendar and clock fields of an instant as seen in a timezone */
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday, matching Date#getDay */
+  weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6
+};
+
+/**
+ * Gets the local calendar date, time and weekday of an instant in a timezone
+ */
+export function getZonedDateParts(datetime: Date | string, timezone: string): ZonedDateParts {
+  const date = typeof datetime === 'string' ? new Date(datetime) : datetime;
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: ${timezone}`);
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: WEEKDAY_INDEX[get('weekday')]
+  };
+}
+
+/**
+ * Gets a timezone's UTC offset in minutes at a given instant (DST-aware)
+ */
+export function getTimezoneOffsetMinutes(datetime: Date | string, timezone: string): number {
+  const date = typeof datetime === 'string' ? new Date(datetime) : datetime;
+  const p = getZonedDateParts(date, timezone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUTC - truncated) / 60000);
+}
+
+/**
+ * Gets the local calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDateString(datetime: Date | string, timezone: string): string {
+  const p = getZonedDateParts(datetime, timezone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Adds whole days to a calendar date (YYYY-MM-DD)
+ */
+export function addDaysToDateString(localDate: string, days: number): string {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a time of day (HH:mm, 00:00-24:00) into minutes after midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = /^([01]\d|2[0-4]):([0-5]\d)$/.exec(time);
+
+  if (!match || (match[1] === '24' && match[2] !== '00')) {
+    throw new Error(`Invalid time of day: ${time}`);
+  }
+
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Converts a wall-clock time in a timezone to the UTC instant
+ * e.g. ('2025-06-15', '19:00', 'Europe/Copenhagen') -> 2025-06-15T17:00:00.000Z
+ * Times of day may be given in minutes past midnight (values >= 1440 roll into later days)
+ */
+export function zonedTimeToUtc(localDate: string, localTime: string | number, timezone: string): Date {
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: ${timezone}`);
+  }
+
+  const [year, month, day] = localDate.split('-').map(Number);
+  const minutes = typeof localTime === 'number' ? localTime : parseTimeOfDay(localTime);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // Resolve the offset at the guessed instant, then re-check in case it crosses a DST change
+  let utc = wallClock - getTimezoneOffsetMinutes(new Date(wallClock), timezone) * 60000;
+  const offsetAtResult = getTimezoneOffsetMinutes(new Date(utc), timezone);
+  utc = wallClock - offsetAtResult * 60000;
+
+  return new Date(utc);
+}
+
 /**
  * Gets the start and end of a day in a specific timezone
  * Important for calculating availability across timezone boundaries
+ * A date-only string (YYYY-MM-DD) is taken as that calendar day in the timezone
  */
 export function getDayBoundsInTimezone(
   date: Date | string,
   timezone: string
 ): { start: Date; end: Date } {
-  const inputDate = typeof date === 'string' ? new Date(date) : date;
-  
   if (!isValidTimezone(timezone)) {
     throw new Error(`Invalid timezone: ${timezone}`);
   }
-  
-  // Get date components in the target timezone
-  const formatter = new Intl.DateTimeFormat('en-CA', {
-    timeZone: timezone,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit'
-  });
-  
-  // Format returns YYYY-MM-DD for en-CA locale
-  const dateStr = formatter.format(inputDate);
-  const [year, month, day] = dateStr.split('-').map(Number);
-  
-  // Create start of day (00:00:00) in UTC
-  const start = new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0));
-  const end = new Date(Date.UTC(year, month - 1, day, 23, 59, 59, 999));
-  
+
+  const localDate = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)
+    ? date
+    : getLocalDateString(date, timezone);
+
+  // Local midnight to local midnight, which is 23 or 25 hours long on DST change days
+  const start = zonedTimeToUtc(localDate, '00:00', timezone);
+  const end = new Date(zonedTimeToUtc(addDaysToDateString(localDate, 1), '00:00', timezone).getTime() - 1);
+
   return { start, end };
 }
 